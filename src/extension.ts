@@ -7,9 +7,18 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { logger, cache, config } from './utils';
 import { unifiedTools } from './tools/unified.tools';
+import { auditService } from './services/audit.service';
+import { profileService } from './services/profile.service';
+import { profileVault } from './services/profile-vault.service';
+import { responseCache } from './services/response-cache.service';
 
 let serverProcess: Promise<void> | null = null;
 
+/**
+ * SecretStorage entry holding the profile vault key
+ */
+const VAULT_KEY_SECRET = 'mcpAwsCli.profileVaultKey';
+
 /**
  * Activate extension
  */
@@ -17,14 +26,27 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   try {
     logger.info('MCP AWS CLI Extension activating...');
 
+    // The server reads its settings from the environment, so a change restarts it with the new definition
+    const serverDefinitionsChanged = new vscode.EventEmitter<void>();
+    context.subscriptions.push(serverDefinitionsChanged);
+
     // Initialize configuration watcher
     const configWatcher = config.watchConfiguration(() => {
       logger.info('Configuration changed');
       cache.reloadConfiguration();
+      serverDefinitionsChanged.fire();
     });
 
     context.subscriptions.push(configWatcher);
 
+    // Profile credentials are encrypted with a key kept in VS Code SecretStorage
+    const vaultKey = await getVaultKey(context);
+    try {
+      profileService.migrateLegacyCredentials();
+    } catch (error) {
+      logger.error('Failed to move profile credentials to the encrypted vault', error as Error);
+    }
+
     // Register MCP Server Definition Provider (modern VS Code API)
     logger.info('Registering MCP Server Definition Provider...');
     const mcpServerPath = path.join(context.extensionPath, 'dist', 'index.js');
@@ -32,13 +54,35 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     
     context.subscriptions.push(
       vscode.lm.registerMcpServerDefinitionProvider('mcp-aws-cli', {
+        onDidChangeMcpServerDefinitions: serverDefinitionsChanged.event,
         provideMcpServerDefinitions() {
           logger.info('Providing MCP Server definitions...');
           return [
             new vscode.McpStdioServerDefinition(
               'mcp-aws-cli',
               'node',
-              [mcpServerPath]
+              [mcpServerPath],
+              {
+                MCP_AWS_CLI_WORKSPACE: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null,
+                MCP_AWS_CLI_POLICY_FILE: config.getConfig().policyFile || null,
+                MCP_AWS_CLI_CONFIRMATION_TTL: String(config.getConfig().confirmationTimeout),
+                MCP_AWS_CLI_PRODUCTION_GUARDRAIL: config.getConfig().productionGuardrail,
+                MCP_AWS_CLI_STRICT_CREDENTIALS: String(config.getConfig().strictCredentials),
+                MCP_AWS_CLI_CACHE_TTL: String(config.getConfig().cacheTimeout),
+                MCP_AWS_CLI_MAX_LIST_ITEMS: String(config.getConfig().maxListItems),
+                MCP_AWS_CLI_MAX_RETRIES: String(config.getConfig().maxRetries),
+                MCP_AWS_CLI_RETRY_DELAY: String(config.getConfig().retryDelay),
+                MCP_AWS_CLI_EXPONENTIAL_BACKOFF: String(config.getConfig().exponentialBackoff),
+                MCP_AWS_CLI_REQUESTS_PER_SECOND: String(config.getConfig().requestsPerSecond),
+                MCP_AWS_CLI_ENDPOINTS: JSON.stringify(config.getConfig().endpoints),
+                MCP_AWS_CLI_S3_FORCE_PATH_STYLE: String(config.getConfig().s3ForcePathStyle),
+                MCP_AWS_CLI_ENABLED_TOOLS: config.getConfig().enabledTools.join(','),
+                MCP_AWS_CLI_READ_ONLY_TOOLS: config.getConfig().readOnlyTools.join(','),
+                MCP_AWS_CLI_ENVIRONMENT_TOOLS: JSON.stringify(config.getConfig().environmentTools),
+                MCP_AWS_CLI_RECORDING_MODE: config.getConfig().recordingMode,
+                MCP_AWS_CLI_RECORDING_DIR: config.getConfig().recordingDir || null,
+                MCP_AWS_CLI_STORAGE_KEY: vaultKey,
+              }
             )
           ];
         }
@@ -63,6 +107,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   }
 }
 
+/**
+ * Load (or create) the profile vault key from SecretStorage
+ */
+async function getVaultKey(context: vscode.ExtensionContext): Promise<string> {
+  let key = await context.secrets.get(VAULT_KEY_SECRET);
+  if (!key) {
+    key = profileVault.generateKey();
+    await context.secrets.store(VAULT_KEY_SECRET, key);
+    logger.info('Created profile vault key in SecretStorage');
+  }
+
+  profileVault.setKey(key);
+  return key;
+}
+
 /**
  * Register VS Code commands
  */
@@ -80,6 +139,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
     'mcpAwsCli.clearCache',
     () => {
       cache.clear();
+      responseCache.requestFlush();
       vscode.window.showInformationMessage('MCP AWS CLI: Cache cleared');
       logger.info('Cache cleared via command');
     }
@@ -113,7 +173,8 @@ Tools: ${unifiedTools.length} unified tools
 Configuration:
 - Default Region: ${appConfig.defaultRegion}
 - Cache Timeout: ${appConfig.cacheTimeout}s
-- Max Retries: ${appConfig.maxRetries}
+- Max Retries: ${appConfig.maxRetries} (${appConfig.exponentialBackoff ? 'exponential' : 'fixed'} backoff from ${appConfig.retryDelay}ms)
+- Rate Limit: ${appConfig.requestsPerSecond > 0 ? `${appConfig.requestsPerSecond} requests/s per service and region` : 'Disabled'}
 - Debug Logs: ${appConfig.enableDebugLogs ? 'Enabled' : 'Disabled'}
 
 Cache Statistics:
@@ -128,11 +189,27 @@ Cache Statistics:
     }
   );
 
+  // Command: Show Audit Log
+  const showAuditLogCommand = vscode.commands.registerCommand(
+    'mcpAwsCli.showAuditLog',
+    async () => {
+      const logFile = auditService.getLogFilePath();
+      try {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(logFile));
+        await vscode.window.showTextDocument(document, { preview: false });
+        logger.info('Opened audit log');
+      } catch {
+        vscode.window.showInformationMessage('MCP AWS CLI: No mutating calls have been audited yet');
+      }
+    }
+  );
+
   context.subscriptions.push(
     showLogsCommand,
     clearCacheCommand,
     reloadConfigCommand,
-    showInfoCommand
+    showInfoCommand,
+    showAuditLogCommand
   );
 
   logger.debug('Commands registered');
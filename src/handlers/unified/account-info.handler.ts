@@ -4,79 +4,118 @@
  */
 
 import {
-  STSClient,
   GetCallerIdentityCommand,
 } from '@aws-sdk/client-sts';
 import {
-  EC2Client,
-  DescribeRegionsCommand,
-} from '@aws-sdk/client-ec2';
-import {
-  ServiceQuotasClient,
   ListServiceQuotasCommand,
   GetServiceQuotaCommand,
   GetAWSDefaultServiceQuotaCommand,
 } from '@aws-sdk/client-service-quotas';
 import {
-  AccountClient,
   GetContactInformationCommand,
 } from '@aws-sdk/client-account';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { regionFanOut } from '../../services/region-fanout.service';
+import { paginate, pageInfo, ErrorHandler } from '../../utils';
+import { ToolDefinition } from '../../tools/tool-registry';
 
 interface AccountInfoArgs {
   infoType: string;
   serviceCode?: string;
   quotaCode?: string;
+  nextToken?: string;
+  all?: boolean;
   region?: string;
   profile?: string;
 }
 
-export async function handleAccountInfo(args: AccountInfoArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
-
-  const credentials = credResult.credentials!;
-
-  // Route to appropriate operation
-  switch (args.infoType) {
-    case 'identity':
-      return await getIdentity(region, credentials);
-    
-    case 'regions':
-      return await listRegions(region, credentials);
-    
-    case 'quotas':
-      return await listServiceQuotas(region, credentials, args);
-    
-    case 'quota-details':
-      return await getQuotaDetails(region, credentials, args);
-    
-    case 'default-quotas':
-      return await getDefaultQuota(region, credentials, args);
-    
-    case 'contact':
-      return await getContactInfo(region, credentials);
-    
-    default:
-      throw new Error(`Unsupported account info type: ${args.infoType}`);
-  }
-}
+/**
+ * aws-account-info: read-only account, region and quota information
+ */
+export const accountInfoTool: ToolDefinition<AccountInfoArgs> = {
+  name: 'aws-account-info',
+  description: 'Get AWS account information: identity, regions, service quotas, contact info',
+  properties: {
+    infoType: {
+      type: 'string',
+      description: 'Type of account information to retrieve',
+    },
+    serviceCode: {
+      type: 'string',
+      description: 'AWS service code (required for quotas)',
+    },
+    quotaCode: {
+      type: 'string',
+      description: 'Specific quota code (for quota-details)',
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+    profiles: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'Run against several profiles in parallel: "all" (every saved profile) or one or more profile names (optional). Results are grouped by account ID',
+    },
+  },
+  required: ['infoType'],
+  classify: args => ({ operation: args.infoType }),
+  operations: [
+    {
+      match: { infoType: 'identity' },
+      iamActions: ['sts:GetCallerIdentity'],
+      run: (_args, { region, credentials }) => getIdentity(region, credentials),
+    },
+    {
+      match: { infoType: 'regions' },
+      iamActions: ['ec2:DescribeRegions'],
+      run: (_args, { region, credentials }) => listRegions(region, credentials),
+    },
+    {
+      match: { infoType: 'quotas' },
+      iamActions: ['servicequotas:ListServiceQuotas'],
+      required: ['serviceCode'],
+      run: (args, { region, credentials }) => listServiceQuotas(region, credentials, args),
+    },
+    {
+      match: { infoType: 'quota-details' },
+      iamActions: ['servicequotas:GetServiceQuota'],
+      required: ['serviceCode', 'quotaCode'],
+      run: (args, { region, credentials }) => getQuotaDetails(region, credentials, args),
+    },
+    {
+      match: { infoType: 'default-quotas' },
+      iamActions: ['servicequotas:GetAWSDefaultServiceQuota'],
+      required: ['serviceCode', 'quotaCode'],
+      run: (args, { region, credentials }) => getDefaultQuota(region, credentials, args),
+    },
+    {
+      match: { infoType: 'contact' },
+      iamActions: ['account:GetContactInformation'],
+      run: (_args, { region, credentials }) => getContactInfo(region, credentials),
+    },
+  ],
+};
 
 // ============================================================================
 // Get Caller Identity
 // ============================================================================
 
 async function getIdentity(region: string, credentials: any): Promise<CallToolResult> {
-  const client = new STSClient({ region, credentials });
+  const client = awsClientFactory.getSTSClient(region, credentials);
   const response = await client.send(new GetCallerIdentityCommand({}));
 
   return {
@@ -100,10 +139,7 @@ async function getIdentity(region: string, credentials: any): Promise<CallToolRe
 // ============================================================================
 
 async function listRegions(region: string, credentials: any): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
-  const response = await client.send(new DescribeRegionsCommand({
-    AllRegions: true,
-  }));
+  const regions = await regionFanOut.listRegions(region, credentials);
 
   return {
     content: [{
@@ -111,12 +147,8 @@ async function listRegions(region: string, credentials: any): Promise<CallToolRe
       text: JSON.stringify({
         success: true,
         infoType: 'regions',
-        count: response.Regions?.length || 0,
-        regions: response.Regions?.map(r => ({
-          name: r.RegionName,
-          endpoint: r.Endpoint,
-          optInStatus: r.OptInStatus,
-        })) || [],
+        count: regions.length,
+        regions,
       }, null, 2),
     }],
   };
@@ -135,10 +167,14 @@ async function listServiceQuotas(
     throw new Error('serviceCode is required for quotas info type');
   }
 
-  const client = new ServiceQuotasClient({ region, credentials });
-  const response = await client.send(new ListServiceQuotasCommand({
-    ServiceCode: args.serviceCode,
-  }));
+  const client = awsClientFactory.getServiceQuotasClient(region, credentials);
+  const result = await paginate('account-info:quotas', args, async (NextToken) => {
+    const response = await client.send(new ListServiceQuotasCommand({
+      ServiceCode: args.serviceCode,
+      NextToken,
+    }));
+    return { items: response.Quotas, nextToken: response.NextToken };
+  });
 
   return {
     content: [{
@@ -147,8 +183,8 @@ async function listServiceQuotas(
         success: true,
         infoType: 'quotas',
         serviceCode: args.serviceCode,
-        count: response.Quotas?.length || 0,
-        quotas: response.Quotas?.map(quota => ({
+        count: result.items.length,
+        quotas: result.items.map(quota => ({
           quotaName: quota.QuotaName,
           quotaCode: quota.QuotaCode,
           value: quota.Value,
@@ -156,7 +192,8 @@ async function listServiceQuotas(
           adjustable: quota.Adjustable,
           globalQuota: quota.GlobalQuota,
           usageMetric: quota.UsageMetric,
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -179,7 +216,7 @@ async function getQuotaDetails(
     throw new Error('quotaCode is required for quota-details info type');
   }
 
-  const client = new ServiceQuotasClient({ region, credentials });
+  const client = awsClientFactory.getServiceQuotasClient(region, credentials);
   const response = await client.send(new GetServiceQuotaCommand({
     ServiceCode: args.serviceCode,
     QuotaCode: args.quotaCode,
@@ -226,7 +263,7 @@ async function getDefaultQuota(
     throw new Error('quotaCode is required for default-quotas info type');
   }
 
-  const client = new ServiceQuotasClient({ region, credentials });
+  const client = awsClientFactory.getServiceQuotasClient(region, credentials);
   const response = await client.send(new GetAWSDefaultServiceQuotaCommand({
     ServiceCode: args.serviceCode,
     QuotaCode: args.quotaCode,
@@ -257,7 +294,7 @@ async function getDefaultQuota(
 // ============================================================================
 
 async function getContactInfo(region: string, credentials: any): Promise<CallToolResult> {
-  const client = new AccountClient({ region, credentials });
+  const client = awsClientFactory.getAccountClient(region, credentials);
   
   try {
     const response = await client.send(new GetContactInformationCommand({}));
@@ -273,17 +310,9 @@ async function getContactInfo(region: string, credentials: any): Promise<CallToo
       }],
     };
   } catch (error: any) {
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          success: false,
-          infoType: 'contact',
-          error: error.message,
-          note: 'Contact information access may require additional IAM permissions',
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return ErrorHandler.toToolResult(error, { operation: 'contact' }, {
+      infoType: 'contact',
+      note: 'Contact information access may require additional IAM permissions',
+    });
   }
 }
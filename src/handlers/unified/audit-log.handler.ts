@@ -0,0 +1,73 @@
+/**
+ * Unified Audit Log Handler
+ * Queries the JSONL audit log of mutating tool calls
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AuditQuery } from '../../models';
+import { auditService } from '../../services/audit.service';
+import { ToolDefinition } from '../../tools/tool-registry';
+
+/**
+ * aws-audit-log: reads the local audit log, so no AWS credentials are resolved
+ */
+export const auditLogTool: ToolDefinition<AuditQuery> = {
+  name: 'aws-audit-log',
+  description: 'Query the audit log of mutating tool calls (newest first): actions, container changes, secret writes and profile changes',
+  properties: {
+    tool: {
+      type: 'string',
+      description: 'Only records of this tool (e.g. aws-execute-action)',
+    },
+    operation: {
+      type: 'string',
+      description: 'Only records of this operation (e.g. terminate, delete)',
+    },
+    profile: {
+      type: 'string',
+      description: 'Only records made with this profile',
+    },
+    outcome: {
+      type: 'string',
+      enum: ['success', 'partial', 'error', 'denied', 'confirmation-required', 'dry-run'],
+      description: 'Only records with this outcome',
+    },
+    since: {
+      type: 'string',
+      description: 'Start time (ISO 8601)',
+    },
+    until: {
+      type: 'string',
+      description: 'End time (ISO 8601)',
+    },
+    limit: {
+      type: 'number',
+      description: 'Maximum records to return (default: 50)',
+    },
+  },
+  classify: () => ({ operation: 'query' }),
+  credentials: false,
+  operations: [
+    {
+      match: {},
+      iamActions: [],
+      run: async args => queryAuditLog(args),
+    },
+  ],
+};
+
+function queryAuditLog(args: AuditQuery): CallToolResult {
+  const records = auditService.query(args);
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        logFile: auditService.getLogFilePath(),
+        count: records.length,
+        records,
+      }, null, 2),
+    }],
+  };
+}
@@ -29,7 +29,9 @@ import {
   DeleteNodegroupCommand,
 } from '@aws-sdk/client-eks';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { paginate, pageInfo } from '../../utils';
+import { ToolDefinition, ToolOperation } from '../../tools/tool-registry';
 
 interface ContainerOperationsArgs {
   platform: string;
@@ -38,91 +40,236 @@ interface ContainerOperationsArgs {
   clusterName?: string;
   resourceIds?: string[];
   operationParams?: Record<string, any>;
+  nextToken?: string;
+  all?: boolean;
   region?: string;
   profile?: string;
 }
 
-export async function handleContainerOperations(args: ContainerOperationsArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
+/**
+ * aws-container-operations: operations per platform, resource type and operation
+ */
+export const containerOperationsTool: ToolDefinition<ContainerOperationsArgs> = {
+  name: 'aws-container-operations',
+  description: 'Manage containers: ECS (clusters, services, tasks) and EKS (clusters, nodegroups, addons)',
+  properties: {
+    platform: {
+      type: 'string',
+      description: 'Container platform',
+    },
+    resourceType: {
+      type: 'string',
+      description: 'Resource type to operate on',
+    },
+    operation: {
+      type: 'string',
+      description: 'Operation to perform',
+    },
+    clusterName: {
+      type: 'string',
+      description: 'Cluster name (required for most operations)',
+    },
+    resourceIds: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Resource identifiers (service names, task IDs, etc.)',
+    },
+    operationParams: {
+      type: 'object',
+      description: 'Additional parameters for update/scale operations',
+      additionalProperties: true,
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+  },
+  required: ['platform', 'resourceType', 'operation'],
+  classify: args => ({
+    operation: args.operation,
+    resourceType: args.platform && args.resourceType ? `${args.platform}-${args.resourceType}` : args.resourceType,
+  }),
+  operations: [
+    {
+      match: { platform: 'ecs', resourceType: 'clusters', operation: 'list' },
+      iamActions: ['ecs:ListClusters'],
+      run: onECS(ecsListClusters),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'clusters', operation: 'describe' },
+      iamActions: ['ecs:DescribeClusters'],
+      run: onECS(ecsDescribeClusters),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'services', operation: 'list' },
+      iamActions: ['ecs:ListServices'],
+      run: onECS(ecsListServices),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'services', operation: 'describe' },
+      iamActions: ['ecs:DescribeServices'],
+      required: ['resourceIds'],
+      run: onECS(ecsDescribeServices),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'services', operation: 'update' },
+      iamActions: ['ecs:UpdateService'],
+      mutating: true,
+      required: ['resourceIds'],
+      invalidates: 'ecs-services',
+      run: onECS(ecsUpdateService),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'services', operation: 'scale' },
+      iamActions: ['ecs:UpdateService'],
+      mutating: true,
+      required: ['resourceIds'],
+      invalidates: 'ecs-services',
+      run: onECS(ecsUpdateService),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'services', operation: 'restart' },
+      iamActions: ['ecs:UpdateService'],
+      mutating: true,
+      required: ['resourceIds'],
+      invalidates: 'ecs-services',
+      run: onECS(ecsRestartService),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'services', operation: 'delete' },
+      iamActions: ['ecs:DeleteService'],
+      mutating: true,
+      required: ['resourceIds'],
+      invalidates: 'ecs-services',
+      run: onECS(ecsDeleteService),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'tasks', operation: 'list' },
+      iamActions: ['ecs:ListTasks'],
+      run: onECS(ecsListTasks),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'tasks', operation: 'describe' },
+      iamActions: ['ecs:DescribeTasks'],
+      required: ['resourceIds'],
+      run: onECS(ecsDescribeTasks),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'tasks', operation: 'stop' },
+      iamActions: ['ecs:StopTask'],
+      mutating: true,
+      required: ['resourceIds'],
+      invalidates: 'ecs-tasks',
+      run: onECS(ecsStopTasks),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'task-definitions', operation: 'list' },
+      iamActions: ['ecs:ListTaskDefinitions'],
+      run: onECS(ecsListTaskDefinitions),
+    },
+    {
+      match: { platform: 'ecs', resourceType: 'task-definitions', operation: 'describe' },
+      iamActions: ['ecs:DescribeTaskDefinition'],
+      required: ['resourceIds'],
+      run: onECS(ecsDescribeTaskDefinition),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'clusters', operation: 'list' },
+      iamActions: ['eks:ListClusters'],
+      run: onEKS(eksListClusters),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'clusters', operation: 'describe' },
+      iamActions: ['eks:DescribeCluster'],
+      required: ['clusterName'],
+      run: onEKS(eksDescribeCluster),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'nodegroups', operation: 'list' },
+      iamActions: ['eks:ListNodegroups'],
+      required: ['clusterName'],
+      run: onEKS(eksListNodegroups),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'nodegroups', operation: 'describe' },
+      iamActions: ['eks:DescribeNodegroup'],
+      required: ['clusterName', 'resourceIds'],
+      run: onEKS(eksDescribeNodegroup),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'nodegroups', operation: 'update' },
+      iamActions: ['eks:UpdateNodegroupConfig'],
+      mutating: true,
+      required: ['clusterName', 'resourceIds'],
+      invalidates: 'eks-nodegroups',
+      run: onEKS(eksUpdateNodegroup),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'nodegroups', operation: 'scale' },
+      iamActions: ['eks:UpdateNodegroupConfig'],
+      mutating: true,
+      required: ['clusterName', 'resourceIds'],
+      invalidates: 'eks-nodegroups',
+      run: onEKS(eksUpdateNodegroup),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'nodegroups', operation: 'delete' },
+      iamActions: ['eks:DeleteNodegroup'],
+      mutating: true,
+      required: ['clusterName', 'resourceIds'],
+      invalidates: 'eks-nodegroups',
+      run: onEKS(eksDeleteNodegroup),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'addons', operation: 'list' },
+      iamActions: ['eks:ListAddons'],
+      required: ['clusterName'],
+      run: onEKS(eksListAddons),
+    },
+    {
+      match: { platform: 'eks', resourceType: 'addons', operation: 'describe' },
+      iamActions: ['eks:DescribeAddon'],
+      required: ['clusterName', 'resourceIds'],
+      run: onEKS(eksDescribeAddon),
+    },
+  ],
+};
 
-  const credentials = credResult.credentials!;
+/**
+ * Run an ECS operation with the client of the call's region
+ */
+function onECS(run: (client: ECSClient, args: ContainerOperationsArgs) => Promise<CallToolResult>): ToolOperation<ContainerOperationsArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getECSClient(region, credentials), args);
+}
 
-  // Route to appropriate platform
-  if (args.platform === 'ecs') {
-    return await handleECSOperations(region, credentials, args);
-  } else if (args.platform === 'eks') {
-    return await handleEKSOperations(region, credentials, args);
-  } else {
-    throw new Error(`Unsupported container platform: ${args.platform}`);
-  }
+/**
+ * Run an EKS operation with the client of the call's region
+ */
+function onEKS(run: (client: EKSClient, args: ContainerOperationsArgs) => Promise<CallToolResult>): ToolOperation<ContainerOperationsArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getEKSClient(region, credentials), args);
 }
 
 // ============================================================================
 // ECS Operations
 // ============================================================================
 
-async function handleECSOperations(
-  region: string,
-  credentials: any,
-  args: ContainerOperationsArgs
-): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
-  const handlerKey = `${args.resourceType}:${args.operation}`;
-
-  switch (handlerKey) {
-    case 'clusters:list':
-      return await ecsListClusters(client);
-    
-    case 'clusters:describe':
-      return await ecsDescribeClusters(client, args);
-    
-    case 'services:list':
-      return await ecsListServices(client, args);
-    
-    case 'services:describe':
-      return await ecsDescribeServices(client, args);
-    
-    case 'services:update':
-    case 'services:scale':
-      return await ecsUpdateService(client, args);
-    
-    case 'services:restart':
-      return await ecsRestartService(client, args);
-    
-    case 'services:delete':
-      return await ecsDeleteService(client, args);
-    
-    case 'tasks:list':
-      return await ecsListTasks(client, args);
-    
-    case 'tasks:describe':
-      return await ecsDescribeTasks(client, args);
-    
-    case 'tasks:stop':
-      return await ecsStopTasks(client, args);
-    
-    case 'task-definitions:list':
-      return await ecsListTaskDefinitions(client);
-    
-    case 'task-definitions:describe':
-      return await ecsDescribeTaskDefinition(client, args);
-    
-    default:
-      throw new Error(`Unsupported ECS operation: ${args.resourceType}:${args.operation}`);
-  }
-}
-
-async function ecsListClusters(client: ECSClient): Promise<CallToolResult> {
-  const response = await client.send(new ListClustersCommand({}));
+async function ecsListClusters(client: ECSClient, args: ContainerOperationsArgs): Promise<CallToolResult> {
+  const result = await paginate('container-operations:ecs-clusters', args, async (nextToken) => {
+    const response = await client.send(new ListClustersCommand({ nextToken }));
+    return { items: response.clusterArns, nextToken: response.nextToken };
+  });
   return {
     content: [{
       type: 'text',
@@ -131,8 +278,9 @@ async function ecsListClusters(client: ECSClient): Promise<CallToolResult> {
         platform: 'ecs',
         resourceType: 'clusters',
         operation: 'list',
-        count: response.clusterArns?.length || 0,
-        clusterArns: response.clusterArns || [],
+        count: result.items.length,
+        clusterArns: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -160,9 +308,13 @@ async function ecsDescribeClusters(client: ECSClient, args: ContainerOperationsA
 }
 
 async function ecsListServices(client: ECSClient, args: ContainerOperationsArgs): Promise<CallToolResult> {
-  const response = await client.send(new ListServicesCommand({
-    cluster: args.clusterName || 'default',
-  }));
+  const result = await paginate('container-operations:ecs-services', args, async (nextToken) => {
+    const response = await client.send(new ListServicesCommand({
+      cluster: args.clusterName || 'default',
+      nextToken,
+    }));
+    return { items: response.serviceArns, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -173,8 +325,9 @@ async function ecsListServices(client: ECSClient, args: ContainerOperationsArgs)
         resourceType: 'services',
         operation: 'list',
         cluster: args.clusterName || 'default',
-        count: response.serviceArns?.length || 0,
-        serviceArns: response.serviceArns || [],
+        count: result.items.length,
+        serviceArns: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -305,10 +458,14 @@ async function ecsDeleteService(client: ECSClient, args: ContainerOperationsArgs
 }
 
 async function ecsListTasks(client: ECSClient, args: ContainerOperationsArgs): Promise<CallToolResult> {
-  const response = await client.send(new ListTasksCommand({
-    cluster: args.clusterName || 'default',
-    serviceName: args.operationParams?.serviceName,
-  }));
+  const result = await paginate('container-operations:ecs-tasks', args, async (nextToken) => {
+    const response = await client.send(new ListTasksCommand({
+      cluster: args.clusterName || 'default',
+      serviceName: args.operationParams?.serviceName,
+      nextToken,
+    }));
+    return { items: response.taskArns, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -319,8 +476,9 @@ async function ecsListTasks(client: ECSClient, args: ContainerOperationsArgs): P
         resourceType: 'tasks',
         operation: 'list',
         cluster: args.clusterName || 'default',
-        count: response.taskArns?.length || 0,
-        taskArns: response.taskArns || [],
+        count: result.items.length,
+        taskArns: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -384,8 +542,11 @@ async function ecsStopTasks(client: ECSClient, args: ContainerOperationsArgs): P
   };
 }
 
-async function ecsListTaskDefinitions(client: ECSClient): Promise<CallToolResult> {
-  const response = await client.send(new ListTaskDefinitionsCommand({}));
+async function ecsListTaskDefinitions(client: ECSClient, args: ContainerOperationsArgs): Promise<CallToolResult> {
+  const result = await paginate('container-operations:ecs-task-definitions', args, async (nextToken) => {
+    const response = await client.send(new ListTaskDefinitionsCommand({ nextToken }));
+    return { items: response.taskDefinitionArns, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -395,8 +556,9 @@ async function ecsListTaskDefinitions(client: ECSClient): Promise<CallToolResult
         platform: 'ecs',
         resourceType: 'task-definitions',
         operation: 'list',
-        count: response.taskDefinitionArns?.length || 0,
-        taskDefinitionArns: response.taskDefinitionArns || [],
+        count: result.items.length,
+        taskDefinitionArns: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -431,47 +593,11 @@ async function ecsDescribeTaskDefinition(client: ECSClient, args: ContainerOpera
 // EKS Operations
 // ============================================================================
 
-async function handleEKSOperations(
-  region: string,
-  credentials: any,
-  args: ContainerOperationsArgs
-): Promise<CallToolResult> {
-  const client = new EKSClient({ region, credentials });
-  const handlerKey = `${args.resourceType}:${args.operation}`;
-
-  switch (handlerKey) {
-    case 'clusters:list':
-      return await eksListClusters(client);
-    
-    case 'clusters:describe':
-      return await eksDescribeCluster(client, args);
-    
-    case 'nodegroups:list':
-      return await eksListNodegroups(client, args);
-    
-    case 'nodegroups:describe':
-      return await eksDescribeNodegroup(client, args);
-    
-    case 'nodegroups:update':
-    case 'nodegroups:scale':
-      return await eksUpdateNodegroup(client, args);
-    
-    case 'nodegroups:delete':
-      return await eksDeleteNodegroup(client, args);
-    
-    case 'addons:list':
-      return await eksListAddons(client, args);
-    
-    case 'addons:describe':
-      return await eksDescribeAddon(client, args);
-    
-    default:
-      throw new Error(`Unsupported EKS operation: ${args.resourceType}:${args.operation}`);
-  }
-}
-
-async function eksListClusters(client: EKSClient): Promise<CallToolResult> {
-  const response = await client.send(new ListEKSClustersCommand({}));
+async function eksListClusters(client: EKSClient, args: ContainerOperationsArgs): Promise<CallToolResult> {
+  const result = await paginate('container-operations:eks-clusters', args, async (nextToken) => {
+    const response = await client.send(new ListEKSClustersCommand({ nextToken }));
+    return { items: response.clusters, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -481,8 +607,9 @@ async function eksListClusters(client: EKSClient): Promise<CallToolResult> {
         platform: 'eks',
         resourceType: 'clusters',
         operation: 'list',
-        count: response.clusters?.length || 0,
-        clusters: response.clusters || [],
+        count: result.items.length,
+        clusters: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -516,9 +643,13 @@ async function eksListNodegroups(client: EKSClient, args: ContainerOperationsArg
     throw new Error('clusterName is required for list nodegroups operation');
   }
 
-  const response = await client.send(new ListNodegroupsCommand({
-    clusterName: args.clusterName,
-  }));
+  const result = await paginate('container-operations:eks-nodegroups', args, async (nextToken) => {
+    const response = await client.send(new ListNodegroupsCommand({
+      clusterName: args.clusterName,
+      nextToken,
+    }));
+    return { items: response.nodegroups, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -529,8 +660,9 @@ async function eksListNodegroups(client: EKSClient, args: ContainerOperationsArg
         resourceType: 'nodegroups',
         operation: 'list',
         clusterName: args.clusterName,
-        count: response.nodegroups?.length || 0,
-        nodegroups: response.nodegroups || [],
+        count: result.items.length,
+        nodegroups: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -643,9 +775,13 @@ async function eksListAddons(client: EKSClient, args: ContainerOperationsArgs):
     throw new Error('clusterName is required for list addons operation');
   }
 
-  const response = await client.send(new ListAddonsCommand({
-    clusterName: args.clusterName,
-  }));
+  const result = await paginate('container-operations:eks-addons', args, async (nextToken) => {
+    const response = await client.send(new ListAddonsCommand({
+      clusterName: args.clusterName,
+      nextToken,
+    }));
+    return { items: response.addons, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -656,8 +792,9 @@ async function eksListAddons(client: EKSClient, args: ContainerOperationsArgs):
         resourceType: 'addons',
         operation: 'list',
         clusterName: args.clusterName,
-        count: response.addons?.length || 0,
-        addons: response.addons || [],
+        count: result.items.length,
+        addons: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
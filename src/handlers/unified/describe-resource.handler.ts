@@ -4,48 +4,48 @@
  */
 
 import {
-  EC2Client,
   DescribeInstancesCommand,
   DescribeKeyPairsCommand,
   DescribeSecurityGroupsCommand,
 } from '@aws-sdk/client-ec2';
 import {
-  RDSClient,
   DescribeDBInstancesCommand,
   DescribeDBClustersCommand,
   DescribeDBSnapshotsCommand,
 } from '@aws-sdk/client-rds';
 import {
-  DynamoDBClient,
   DescribeTableCommand,
   DescribeBackupCommand,
   DescribeTimeToLiveCommand,
 } from '@aws-sdk/client-dynamodb';
 import {
-  ECSClient,
   DescribeClustersCommand,
   DescribeServicesCommand,
   DescribeTasksCommand,
   DescribeTaskDefinitionCommand,
 } from '@aws-sdk/client-ecs';
 import {
-  EKSClient,
   DescribeClusterCommand,
   DescribeNodegroupCommand,
   DescribeAddonCommand,
 } from '@aws-sdk/client-eks';
 import {
-  S3Client,
   GetBucketLocationCommand,
   GetBucketVersioningCommand,
   GetBucketEncryptionCommand,
 } from '@aws-sdk/client-s3';
 import {
-  LambdaClient,
   GetFunctionCommand,
 } from '@aws-sdk/client-lambda';
+import {
+  DescribeSecretCommand,
+} from '@aws-sdk/client-secrets-manager';
+import {
+  DescribeParametersCommand,
+} from '@aws-sdk/client-ssm';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { ToolDefinition } from '../../tools/tool-registry';
 
 interface DescribeResourceArgs {
   resourceType: string;
@@ -53,90 +53,161 @@ interface DescribeResourceArgs {
   region?: string;
   profile?: string;
   additionalParams?: Record<string, any>;
+  bypassCache?: boolean;
 }
 
-export async function handleDescribeResource(args: DescribeResourceArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  // If credentials not found, return helpful message instead of error
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{
-        type: 'text',
-        text: credResult.message || 'AWS credentials not configured.',
-      }],
-      isError: false,
-    };
-  }
+/**
+ * aws-describe-resource: one read-only operation per resource type, served from the response cache
+ */
+export const describeResourceTool: ToolDefinition<DescribeResourceArgs> = {
+  name: 'aws-describe-resource',
+  description: 'Get detailed information about a specific AWS resource by ID, name, or ARN',
+  properties: {
+    resourceType: {
+      type: 'string',
+      description: 'Type of AWS resource to describe',
+    },
+    resourceId: {
+      type: 'string',
+      description: 'Resource identifier (instance-id, key name, security group id, table-name, cluster-arn, secret name/ARN, parameter name, etc.)',
+    },
+    region: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'AWS region, "all" for every enabled region, or a list of regions (optional, uses profile default if not specified). Multi-region results are merged and tagged by region',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+    additionalParams: {
+      type: 'object',
+      description: 'Additional resource-specific parameters: clusterName (ECS services and tasks, EKS nodegroups and addons)',
+      additionalProperties: true,
+    },
+    bypassCache: {
+      type: 'boolean',
+      description: 'Skip the response cache and read fresh data from AWS (optional, default: false)',
+    },
+  },
+  required: ['resourceType', 'resourceId'],
+  classify: args => ({ operation: 'describe', resourceType: args.resourceType }),
+  cache: true,
+  operations: [
+    {
+      match: { resourceType: 'ec2-instance' },
+      iamActions: ['ec2:DescribeInstances'],
+      run: (args, { region, credentials }) => describeEC2Instance(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'ec2-key-pair' },
+      iamActions: ['ec2:DescribeKeyPairs'],
+      run: (args, { region, credentials }) => describeKeyPair(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'ec2-security-group' },
+      iamActions: ['ec2:DescribeSecurityGroups'],
+      run: (args, { region, credentials }) => describeSecurityGroup(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'rds-instance' },
+      iamActions: ['rds:DescribeDBInstances'],
+      run: (args, { region, credentials }) => describeRDSInstance(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'rds-cluster' },
+      iamActions: ['rds:DescribeDBClusters'],
+      run: (args, { region, credentials }) => describeRDSCluster(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'rds-snapshot' },
+      iamActions: ['rds:DescribeDBSnapshots'],
+      run: (args, { region, credentials }) => describeRDSSnapshot(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'dynamodb-table' },
+      iamActions: ['dynamodb:DescribeTable'],
+      run: (args, { region, credentials }) => describeDynamoDBTable(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'dynamodb-backup' },
+      iamActions: ['dynamodb:DescribeBackup'],
+      run: (args, { region, credentials }) => describeDynamoDBBackup(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'dynamodb-ttl' },
+      iamActions: ['dynamodb:DescribeTimeToLive'],
+      run: (args, { region, credentials }) => describeDynamoDBTTL(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'ecs-cluster' },
+      iamActions: ['ecs:DescribeClusters'],
+      run: (args, { region, credentials }) => describeECSCluster(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'ecs-service' },
+      iamActions: ['ecs:DescribeServices'],
+      run: (args, { region, credentials }) => describeECSService(region, credentials, args.resourceId, clusterOf(args)),
+    },
+    {
+      match: { resourceType: 'ecs-task' },
+      iamActions: ['ecs:DescribeTasks'],
+      run: (args, { region, credentials }) => describeECSTask(region, credentials, args.resourceId, clusterOf(args)),
+    },
+    {
+      match: { resourceType: 'ecs-task-definition' },
+      iamActions: ['ecs:DescribeTaskDefinition'],
+      run: (args, { region, credentials }) => describeTaskDefinition(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'eks-cluster' },
+      iamActions: ['eks:DescribeCluster'],
+      run: (args, { region, credentials }) => describeEKSCluster(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'eks-nodegroup' },
+      iamActions: ['eks:DescribeNodegroup'],
+      required: ['additionalParams.clusterName'],
+      run: (args, { region, credentials }) => describeEKSNodegroup(region, credentials, args.resourceId, clusterOf(args)),
+    },
+    {
+      match: { resourceType: 'eks-addon' },
+      iamActions: ['eks:DescribeAddon'],
+      required: ['additionalParams.clusterName'],
+      run: (args, { region, credentials }) => describeEKSAddon(region, credentials, args.resourceId, clusterOf(args)),
+    },
+    {
+      match: { resourceType: 's3-bucket' },
+      iamActions: ['s3:GetBucketLocation', 's3:GetBucketVersioning', 's3:GetEncryptionConfiguration'],
+      run: (args, { region, credentials }) => describeS3Bucket(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'lambda-function' },
+      iamActions: ['lambda:GetFunction'],
+      run: (args, { region, credentials }) => describeLambdaFunction(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'secret' },
+      iamActions: ['secretsmanager:DescribeSecret'],
+      run: (args, { region, credentials }) => describeSecret(region, credentials, args.resourceId),
+    },
+    {
+      match: { resourceType: 'parameter' },
+      iamActions: ['ssm:DescribeParameters'],
+      run: (args, { region, credentials }) => describeParameter(region, credentials, args.resourceId),
+    },
+  ],
+};
 
-  const credentials = credResult.credentials!;
-
-  // Route to appropriate handler based on resource type
-  switch (args.resourceType) {
-    case 'ec2-instance':
-      return await describeEC2Instance(region, credentials, args.resourceId);
-    
-    case 'ec2-key-pair':
-      return await describeKeyPair(region, credentials, args.resourceId);
-    
-    case 'ec2-security-group':
-      return await describeSecurityGroup(region, credentials, args.resourceId);
-    
-    case 'rds-instance':
-      return await describeRDSInstance(region, credentials, args.resourceId);
-    
-    case 'rds-cluster':
-      return await describeRDSCluster(region, credentials, args.resourceId);
-    
-    case 'rds-snapshot':
-      return await describeRDSSnapshot(region, credentials, args.resourceId);
-    
-    case 'dynamodb-table':
-      return await describeDynamoDBTable(region, credentials, args.resourceId);
-    
-    case 'dynamodb-backup':
-      return await describeDynamoDBBackup(region, credentials, args.resourceId);
-    
-    case 'dynamodb-ttl':
-      return await describeDynamoDBTTL(region, credentials, args.resourceId);
-    
-    case 'ecs-cluster':
-      return await describeECSCluster(region, credentials, args.resourceId);
-    
-    case 'ecs-service':
-      return await describeECSService(region, credentials, args.resourceId, args.additionalParams?.cluster);
-    
-    case 'ecs-task':
-      return await describeECSTask(region, credentials, args.resourceId, args.additionalParams?.cluster);
-    
-    case 'ecs-task-definition':
-      return await describeTaskDefinition(region, credentials, args.resourceId);
-    
-    case 'eks-cluster':
-      return await describeEKSCluster(region, credentials, args.resourceId);
-    
-    case 'eks-nodegroup':
-      return await describeEKSNodegroup(region, credentials, args.resourceId, args.additionalParams?.cluster);
-    
-    case 'eks-addon':
-      return await describeEKSAddon(region, credentials, args.resourceId, args.additionalParams?.cluster);
-    
-    case 's3-bucket':
-      return await describeS3Bucket(region, credentials, args.resourceId);
-    
-    case 'lambda-function':
-      return await describeLambdaFunction(region, credentials, args.resourceId);
-    
-    default:
-      throw new Error(`Unsupported resource type: ${args.resourceType}`);
-  }
+/**
+ * Cluster of an ECS or EKS resource (additionalParams.cluster is accepted for older callers)
+ */
+function clusterOf(args: DescribeResourceArgs): string | undefined {
+  return args.additionalParams?.clusterName ?? args.additionalParams?.cluster;
 }
 
-// EC2 Resource Descriptions
 async function describeEC2Instance(region: string, credentials: any, instanceId: string): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const response = await client.send(new DescribeInstancesCommand({
     InstanceIds: [instanceId],
   }));
@@ -177,7 +248,7 @@ async function describeEC2Instance(region: string, credentials: any, instanceId:
 }
 
 async function describeKeyPair(region: string, credentials: any, keyName: string): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const response = await client.send(new DescribeKeyPairsCommand({
     KeyNames: [keyName],
   }));
@@ -206,7 +277,7 @@ async function describeKeyPair(region: string, credentials: any, keyName: string
 }
 
 async function describeSecurityGroup(region: string, credentials: any, groupId: string): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const response = await client.send(new DescribeSecurityGroupsCommand({
     GroupIds: [groupId],
   }));
@@ -238,7 +309,7 @@ async function describeSecurityGroup(region: string, credentials: any, groupId:
 
 // RDS Resource Descriptions
 async function describeRDSInstance(region: string, credentials: any, dbInstanceId: string): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const response = await client.send(new DescribeDBInstancesCommand({
     DBInstanceIdentifier: dbInstanceId,
   }));
@@ -283,7 +354,7 @@ async function describeRDSInstance(region: string, credentials: any, dbInstanceI
 }
 
 async function describeRDSCluster(region: string, credentials: any, dbClusterId: string): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const response = await client.send(new DescribeDBClustersCommand({
     DBClusterIdentifier: dbClusterId,
   }));
@@ -321,7 +392,7 @@ async function describeRDSCluster(region: string, credentials: any, dbClusterId:
 }
 
 async function describeRDSSnapshot(region: string, credentials: any, snapshotId: string): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const response = await client.send(new DescribeDBSnapshotsCommand({
     DBSnapshotIdentifier: snapshotId,
   }));
@@ -356,7 +427,7 @@ async function describeRDSSnapshot(region: string, credentials: any, snapshotId:
 
 // DynamoDB Resource Descriptions
 async function describeDynamoDBTable(region: string, credentials: any, tableName: string): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
   const response = await client.send(new DescribeTableCommand({
     TableName: tableName,
   }));
@@ -398,7 +469,7 @@ async function describeDynamoDBTable(region: string, credentials: any, tableName
 }
 
 async function describeDynamoDBBackup(region: string, credentials: any, backupArn: string): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
   const response = await client.send(new DescribeBackupCommand({
     BackupArn: backupArn,
   }));
@@ -430,7 +501,7 @@ async function describeDynamoDBBackup(region: string, credentials: any, backupAr
 }
 
 async function describeDynamoDBTTL(region: string, credentials: any, tableName: string): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
   const response = await client.send(new DescribeTimeToLiveCommand({
     TableName: tableName,
   }));
@@ -453,7 +524,7 @@ async function describeDynamoDBTTL(region: string, credentials: any, tableName:
 
 // ECS Resource Descriptions
 async function describeECSCluster(region: string, credentials: any, clusterName: string): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const response = await client.send(new DescribeClustersCommand({
     clusters: [clusterName],
     include: ['STATISTICS', 'TAGS'],
@@ -487,7 +558,7 @@ async function describeECSCluster(region: string, credentials: any, clusterName:
 }
 
 async function describeECSService(region: string, credentials: any, serviceName: string, cluster?: string): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const response = await client.send(new DescribeServicesCommand({
     services: [serviceName],
     cluster: cluster || 'default',
@@ -523,7 +594,7 @@ async function describeECSService(region: string, credentials: any, serviceName:
 }
 
 async function describeECSTask(region: string, credentials: any, taskArn: string, cluster?: string): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const response = await client.send(new DescribeTasksCommand({
     tasks: [taskArn],
     cluster: cluster || 'default',
@@ -560,7 +631,7 @@ async function describeECSTask(region: string, credentials: any, taskArn: string
 }
 
 async function describeTaskDefinition(region: string, credentials: any, taskDefinition: string): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const response = await client.send(new DescribeTaskDefinitionCommand({
     taskDefinition,
     include: ['TAGS'],
@@ -596,7 +667,7 @@ async function describeTaskDefinition(region: string, credentials: any, taskDefi
 
 // EKS Resource Descriptions
 async function describeEKSCluster(region: string, credentials: any, clusterName: string): Promise<CallToolResult> {
-  const client = new EKSClient({ region, credentials });
+  const client = awsClientFactory.getEKSClient(region, credentials);
   const response = await client.send(new DescribeClusterCommand({
     name: clusterName,
   }));
@@ -633,7 +704,7 @@ async function describeEKSNodegroup(region: string, credentials: any, nodegroupN
     throw new Error('clusterName is required in additionalParams for EKS nodegroup');
   }
 
-  const client = new EKSClient({ region, credentials });
+  const client = awsClientFactory.getEKSClient(region, credentials);
   const response = await client.send(new DescribeNodegroupCommand({
     clusterName,
     nodegroupName,
@@ -672,7 +743,7 @@ async function describeEKSAddon(region: string, credentials: any, addonName: str
     throw new Error('clusterName is required in additionalParams for EKS addon');
   }
 
-  const client = new EKSClient({ region, credentials });
+  const client = awsClientFactory.getEKSClient(region, credentials);
   const response = await client.send(new DescribeAddonCommand({
     clusterName,
     addonName,
@@ -706,7 +777,7 @@ async function describeEKSAddon(region: string, credentials: any, addonName: str
 
 // S3 Resource Descriptions
 async function describeS3Bucket(region: string, credentials: any, bucketName: string): Promise<CallToolResult> {
-  const client = new S3Client({ region, credentials });
+  const client = awsClientFactory.getS3Client(region, credentials);
   
   try {
     const [locationResponse, versioningResponse, encryptionResponse] = await Promise.allSettled([
@@ -742,7 +813,7 @@ async function describeS3Bucket(region: string, credentials: any, bucketName: st
 
 // Lambda Resource Descriptions
 async function describeLambdaFunction(region: string, credentials: any, functionName: string): Promise<CallToolResult> {
-  const client = new LambdaClient({ region, credentials });
+  const client = awsClientFactory.getLambdaClient(region, credentials);
   const response = await client.send(new GetFunctionCommand({
     FunctionName: functionName,
   }));
@@ -778,3 +849,67 @@ async function describeLambdaFunction(region: string, credentials: any, function
     }],
   };
 }
+
+// Secrets Manager / Parameter Store Descriptions (metadata only, values stay with aws-manage-secrets)
+async function describeSecret(region: string, credentials: any, secretId: string): Promise<CallToolResult> {
+  const client = awsClientFactory.getSecretsManagerClient(region, credentials);
+  const response = await client.send(new DescribeSecretCommand({
+    SecretId: secretId,
+  }));
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 'secret',
+        resource: {
+          name: response.Name,
+          arn: response.ARN,
+          description: response.Description,
+          kmsKeyId: response.KmsKeyId,
+          rotationEnabled: response.RotationEnabled,
+          rotationRules: response.RotationRules,
+          lastChangedDate: response.LastChangedDate,
+          lastAccessedDate: response.LastAccessedDate,
+          deletedDate: response.DeletedDate,
+          tags: response.Tags?.reduce((acc, tag) => ({ ...acc, [tag.Key!]: tag.Value }), {}),
+        },
+      }, null, 2),
+    }],
+  };
+}
+
+async function describeParameter(region: string, credentials: any, parameterName: string): Promise<CallToolResult> {
+  const client = awsClientFactory.getSSMClient(region, credentials);
+  const response = await client.send(new DescribeParametersCommand({
+    ParameterFilters: [{ Key: 'Name', Option: 'Equals', Values: [parameterName] }],
+  }));
+
+  const parameter = response.Parameters?.[0];
+  if (!parameter) {
+    throw new Error(`Parameter '${parameterName}' not found`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 'parameter',
+        resource: {
+          name: parameter.Name,
+          arn: parameter.ARN,
+          type: parameter.Type,
+          keyId: parameter.KeyId,
+          version: parameter.Version,
+          tier: parameter.Tier,
+          dataType: parameter.DataType,
+          description: parameter.Description,
+          lastModifiedDate: parameter.LastModifiedDate,
+          lastModifiedUser: parameter.LastModifiedUser,
+        },
+      }, null, 2),
+    }],
+  };
+}
@@ -1,47 +1,52 @@
 /**
  * Unified Execute Action Handler
- * Handles actions on AWS resources: start, stop, reboot, terminate, create, delete, update
+ * Handles actions on AWS resources: start, stop, reboot, terminate, delete, update, restart
  */
 
 import {
-  EC2Client,
   StartInstancesCommand,
   StopInstancesCommand,
   RebootInstancesCommand,
   TerminateInstancesCommand,
+  DescribeInstancesCommand,
 } from '@aws-sdk/client-ec2';
 import {
-  RDSClient,
   StartDBInstanceCommand,
   StopDBInstanceCommand,
   RebootDBInstanceCommand,
   DeleteDBInstanceCommand,
   StartDBClusterCommand,
   StopDBClusterCommand,
+  DescribeDBInstancesCommand,
+  DescribeDBClustersCommand,
 } from '@aws-sdk/client-rds';
 import {
-  ECSClient,
   UpdateServiceCommand,
   StopTaskCommand,
   DeleteServiceCommand,
+  DescribeServicesCommand,
+  DescribeTasksCommand,
 } from '@aws-sdk/client-ecs';
 import {
-  EKSClient,
   UpdateNodegroupConfigCommand,
   DeleteNodegroupCommand,
+  DescribeNodegroupCommand,
 } from '@aws-sdk/client-eks';
 import {
-  LambdaClient,
   UpdateFunctionConfigurationCommand,
   DeleteFunctionCommand,
+  GetFunctionCommand,
 } from '@aws-sdk/client-lambda';
 import {
-  DynamoDBClient,
   UpdateTableCommand,
   DeleteTableCommand,
+  DescribeTableCommand,
+  ListTagsOfResourceCommand,
 } from '@aws-sdk/client-dynamodb';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { confirmations, ErrorHandler } from '../../utils';
+import { ToolDefinition } from '../../tools/tool-registry';
 
 interface ExecuteActionArgs {
   action: string;
@@ -50,97 +55,162 @@ interface ExecuteActionArgs {
   region?: string;
   profile?: string;
   actionParams?: Record<string, any>;
+  dryRun?: boolean;
+  confirmationToken?: string;
 }
 
-export async function handleExecuteAction(args: ExecuteActionArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
+/**
+ * An action on a resource type and the IAM actions it calls
+ */
+interface ResourceAction {
+  resourceType: string;
+  action: string;
+  iamActions: string[];
+  run(args: ExecuteActionArgs, region: string, credentials: any): Promise<CallToolResult>;
+}
+
+/**
+ * Supported actions per resource type
+ */
+const RESOURCE_ACTIONS: ResourceAction[] = [
+  { resourceType: 'ec2-instances', action: 'start', iamActions: ['ec2:StartInstances'], run: (args, region, credentials) => startEC2Instances(region, credentials, args.resourceIds) },
+  { resourceType: 'ec2-instances', action: 'stop', iamActions: ['ec2:StopInstances'], run: (args, region, credentials) => stopEC2Instances(region, credentials, args.resourceIds) },
+  { resourceType: 'ec2-instances', action: 'reboot', iamActions: ['ec2:RebootInstances'], run: (args, region, credentials) => rebootEC2Instances(region, credentials, args.resourceIds) },
+  { resourceType: 'ec2-instances', action: 'terminate', iamActions: ['ec2:TerminateInstances'], run: (args, region, credentials) => terminateEC2Instances(region, credentials, args.resourceIds) },
+
+  { resourceType: 'rds-instances', action: 'start', iamActions: ['rds:StartDBInstance'], run: (args, region, credentials) => startRDSInstances(region, credentials, args.resourceIds) },
+  { resourceType: 'rds-instances', action: 'stop', iamActions: ['rds:StopDBInstance'], run: (args, region, credentials) => stopRDSInstances(region, credentials, args.resourceIds) },
+  { resourceType: 'rds-instances', action: 'reboot', iamActions: ['rds:RebootDBInstance'], run: (args, region, credentials) => rebootRDSInstances(region, credentials, args.resourceIds) },
+  { resourceType: 'rds-instances', action: 'delete', iamActions: ['rds:DeleteDBInstance'], run: (args, region, credentials) => deleteRDSInstances(region, credentials, args.resourceIds, args.actionParams) },
+
+  { resourceType: 'rds-clusters', action: 'start', iamActions: ['rds:StartDBCluster'], run: (args, region, credentials) => startRDSClusters(region, credentials, args.resourceIds) },
+  { resourceType: 'rds-clusters', action: 'stop', iamActions: ['rds:StopDBCluster'], run: (args, region, credentials) => stopRDSClusters(region, credentials, args.resourceIds) },
+
+  { resourceType: 'ecs-services', action: 'update', iamActions: ['ecs:UpdateService'], run: (args, region, credentials) => updateECSServices(region, credentials, args.resourceIds, args.actionParams) },
+  { resourceType: 'ecs-services', action: 'delete', iamActions: ['ecs:DeleteService'], run: (args, region, credentials) => deleteECSServices(region, credentials, args.resourceIds, args.actionParams) },
+  { resourceType: 'ecs-services', action: 'restart', iamActions: ['ecs:UpdateService'], run: (args, region, credentials) => restartECSServices(region, credentials, args.resourceIds, args.actionParams) },
+
+  { resourceType: 'ecs-tasks', action: 'stop', iamActions: ['ecs:StopTask'], run: (args, region, credentials) => stopECSTasks(region, credentials, args.resourceIds, args.actionParams) },
+
+  { resourceType: 'eks-nodegroups', action: 'update', iamActions: ['eks:UpdateNodegroupConfig'], run: (args, region, credentials) => updateEKSNodegroups(region, credentials, args.resourceIds, args.actionParams) },
+  { resourceType: 'eks-nodegroups', action: 'delete', iamActions: ['eks:DeleteNodegroup'], run: (args, region, credentials) => deleteEKSNodegroups(region, credentials, args.resourceIds, args.actionParams) },
+
+  { resourceType: 'lambda-functions', action: 'update', iamActions: ['lambda:UpdateFunctionConfiguration'], run: (args, region, credentials) => updateLambdaFunctions(region, credentials, args.resourceIds, args.actionParams) },
+  { resourceType: 'lambda-functions', action: 'delete', iamActions: ['lambda:DeleteFunction'], run: (args, region, credentials) => deleteLambdaFunctions(region, credentials, args.resourceIds) },
+
+  { resourceType: 'dynamodb-tables', action: 'update', iamActions: ['dynamodb:UpdateTable'], run: (args, region, credentials) => updateDynamoDBTables(region, credentials, args.resourceIds, args.actionParams) },
+  { resourceType: 'dynamodb-tables', action: 'delete', iamActions: ['dynamodb:DeleteTable'], run: (args, region, credentials) => deleteDynamoDBTables(region, credentials, args.resourceIds) },
+];
+
+/**
+ * IAM actions the preview calls to read the current state of each resource type
+ */
+const PREVIEW_IAM_ACTIONS: Record<string, string[]> = {
+  'ec2-instances': ['ec2:DescribeInstances'],
+  'rds-instances': ['rds:DescribeDBInstances'],
+  'rds-clusters': ['rds:DescribeDBClusters'],
+  'ecs-services': ['ecs:DescribeServices'],
+  'ecs-tasks': ['ecs:DescribeTasks'],
+  'eks-nodegroups': ['eks:DescribeNodegroup'],
+  'lambda-functions': ['lambda:GetFunction'],
+  'dynamodb-tables': ['dynamodb:DescribeTable', 'dynamodb:ListTagsOfResource'],
+};
+
+/**
+ * Irreversible actions - always previewed first and only executed with a confirmation token
+ */
+const DESTRUCTIVE_ACTIONS = ['terminate', 'delete'];
+
+/**
+ * aws-execute-action: one mutating operation per resource type and action; cached reads of the
+ * resource type are dropped whatever the outcome
+ */
+export const executeActionTool: ToolDefinition<ExecuteActionArgs> = {
+  name: 'aws-execute-action',
+  description: 'Execute actions on AWS resources: start, stop, reboot, terminate, delete, update, restart. Use dryRun to preview targets and get a confirmation token; terminate/delete always require the token before executing',
+  properties: {
+    action: {
+      type: 'string',
+      description: 'Action to perform',
+    },
+    resourceType: {
+      type: 'string',
+      description: 'Type of AWS resource',
+    },
+    resourceIds: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Array of resource identifiers to act upon',
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+    actionParams: {
+      type: 'object',
+      description: 'Additional parameters for update and delete actions',
+      additionalProperties: true,
+    },
+    dryRun: {
+      type: 'boolean',
+      description: 'Preview current state, tags and planned changes without executing; returns a confirmationToken',
+    },
+    confirmationToken: {
+      type: 'string',
+      description: 'Token from a previous dry run of the exact same request (required for terminate/delete)',
+    },
+  },
+  required: ['action', 'resourceType', 'resourceIds'],
+  classify: args => ({ operation: args.action, resourceType: args.resourceType }),
+  operations: RESOURCE_ACTIONS.map(({ resourceType, action, iamActions, run }) => ({
+    match: { resourceType, action },
+    iamActions: [...iamActions, ...PREVIEW_IAM_ACTIONS[resourceType]],
+    mutating: true,
+    invalidates: resourceType,
+    run: (args, { region, credentials }) => confirmAndRun(args, region, credentials, run),
+  })),
+};
+
+/**
+ * Two-phase confirmation: preview first, execute only with a matching token
+ */
+async function confirmAndRun(
+  args: ExecuteActionArgs,
+  region: string,
+  credentials: any,
+  run: ResourceAction['run']
+): Promise<CallToolResult> {
+  const fingerprint = confirmations.fingerprint({
+    action: args.action,
+    resourceType: args.resourceType,
+    resourceIds: [...args.resourceIds].sort(),
+    region,
+    profile: args.profile,
+    actionParams: args.actionParams,
+  });
+
+  if (args.dryRun) {
+    return await previewAction(region, credentials, args, fingerprint);
   }
 
-  const credentials = credResult.credentials!;
-
-  // Route to appropriate handler based on resource type and action
-  const handlerKey = `${args.resourceType}:${args.action}`;
-
-  switch (handlerKey) {
-    // EC2 Instance Actions
-    case 'ec2-instances:start':
-      return await startEC2Instances(region, credentials, args.resourceIds);
-    
-    case 'ec2-instances:stop':
-      return await stopEC2Instances(region, credentials, args.resourceIds);
-    
-    case 'ec2-instances:reboot':
-      return await rebootEC2Instances(region, credentials, args.resourceIds);
-    
-    case 'ec2-instances:terminate':
-      return await terminateEC2Instances(region, credentials, args.resourceIds);
-    
-    // RDS Instance Actions
-    case 'rds-instances:start':
-      return await startRDSInstances(region, credentials, args.resourceIds);
-    
-    case 'rds-instances:stop':
-      return await stopRDSInstances(region, credentials, args.resourceIds);
-    
-    case 'rds-instances:reboot':
-      return await rebootRDSInstances(region, credentials, args.resourceIds);
-    
-    case 'rds-instances:delete':
-      return await deleteRDSInstances(region, credentials, args.resourceIds, args.actionParams);
-    
-    // RDS Cluster Actions
-    case 'rds-clusters:start':
-      return await startRDSClusters(region, credentials, args.resourceIds);
-    
-    case 'rds-clusters:stop':
-      return await stopRDSClusters(region, credentials, args.resourceIds);
-    
-    // ECS Service Actions
-    case 'ecs-services:update':
-      return await updateECSServices(region, credentials, args.resourceIds, args.actionParams);
-    
-    case 'ecs-services:delete':
-      return await deleteECSServices(region, credentials, args.resourceIds, args.actionParams);
-    
-    case 'ecs-services:restart':
-      return await restartECSServices(region, credentials, args.resourceIds, args.actionParams);
-    
-    // ECS Task Actions
-    case 'ecs-tasks:stop':
-      return await stopECSTasks(region, credentials, args.resourceIds, args.actionParams);
-    
-    // EKS Nodegroup Actions
-    case 'eks-nodegroups:update':
-      return await updateEKSNodegroups(region, credentials, args.resourceIds, args.actionParams);
-    
-    case 'eks-nodegroups:delete':
-      return await deleteEKSNodegroups(region, credentials, args.resourceIds, args.actionParams);
-    
-    // Lambda Function Actions
-    case 'lambda-functions:update':
-      return await updateLambdaFunctions(region, credentials, args.resourceIds, args.actionParams);
-    
-    case 'lambda-functions:delete':
-      return await deleteLambdaFunctions(region, credentials, args.resourceIds);
-    
-    // DynamoDB Table Actions
-    case 'dynamodb-tables:update':
-      return await updateDynamoDBTables(region, credentials, args.resourceIds, args.actionParams);
-    
-    case 'dynamodb-tables:delete':
-      return await deleteDynamoDBTables(region, credentials, args.resourceIds);
-    
-    default:
-      throw new Error(`Unsupported action '${args.action}' for resource type '${args.resourceType}'`);
+  if (args.confirmationToken) {
+    const check = confirmations.consume(args.confirmationToken, fingerprint);
+    if (!check.valid) {
+      return ErrorHandler.toErrorResult(
+        ErrorHandler.details('InvalidConfirmationToken', 'validation', check.reason!, { operation: args.action },
+          'Run the same request with dryRun: true to get a new confirmation token'),
+        { action: args.action, resourceType: args.resourceType }
+      );
+    }
+  } else if (DESTRUCTIVE_ACTIONS.includes(args.action)) {
+    return await previewAction(region, credentials, args, fingerprint);
   }
+
+  return await run(args, region, credentials);
 }
 
 // ============================================================================
@@ -148,7 +218,7 @@ export async function handleExecuteAction(args: ExecuteActionArgs): Promise<Call
 // ============================================================================
 
 async function startEC2Instances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const response = await client.send(new StartInstancesCommand({
     InstanceIds: instanceIds,
   }));
@@ -171,7 +241,7 @@ async function startEC2Instances(region: string, credentials: any, instanceIds:
 }
 
 async function stopEC2Instances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const response = await client.send(new StopInstancesCommand({
     InstanceIds: instanceIds,
   }));
@@ -194,7 +264,7 @@ async function stopEC2Instances(region: string, credentials: any, instanceIds: s
 }
 
 async function rebootEC2Instances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   await client.send(new RebootInstancesCommand({
     InstanceIds: instanceIds,
   }));
@@ -214,7 +284,7 @@ async function rebootEC2Instances(region: string, credentials: any, instanceIds:
 }
 
 async function terminateEC2Instances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const response = await client.send(new TerminateInstancesCommand({
     InstanceIds: instanceIds,
   }));
@@ -241,7 +311,7 @@ async function terminateEC2Instances(region: string, credentials: any, instanceI
 // ============================================================================
 
 async function startRDSInstances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const results = [];
 
   for (const instanceId of instanceIds) {
@@ -277,7 +347,7 @@ async function startRDSInstances(region: string, credentials: any, instanceIds:
 }
 
 async function stopRDSInstances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const results = [];
 
   for (const instanceId of instanceIds) {
@@ -313,7 +383,7 @@ async function stopRDSInstances(region: string, credentials: any, instanceIds: s
 }
 
 async function rebootRDSInstances(region: string, credentials: any, instanceIds: string[]): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const results = [];
 
   for (const instanceId of instanceIds) {
@@ -349,7 +419,7 @@ async function rebootRDSInstances(region: string, credentials: any, instanceIds:
 }
 
 async function deleteRDSInstances(region: string, credentials: any, instanceIds: string[], params?: any): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const results = [];
 
   for (const instanceId of instanceIds) {
@@ -391,7 +461,7 @@ async function deleteRDSInstances(region: string, credentials: any, instanceIds:
 // ============================================================================
 
 async function startRDSClusters(region: string, credentials: any, clusterIds: string[]): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const results = [];
 
   for (const clusterId of clusterIds) {
@@ -427,7 +497,7 @@ async function startRDSClusters(region: string, credentials: any, clusterIds: st
 }
 
 async function stopRDSClusters(region: string, credentials: any, clusterIds: string[]): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
+  const client = awsClientFactory.getRDSClient(region, credentials);
   const results = [];
 
   for (const clusterId of clusterIds) {
@@ -467,7 +537,7 @@ async function stopRDSClusters(region: string, credentials: any, clusterIds: str
 // ============================================================================
 
 async function updateECSServices(region: string, credentials: any, serviceNames: string[], params?: any): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const results = [];
 
   for (const serviceName of serviceNames) {
@@ -508,7 +578,7 @@ async function updateECSServices(region: string, credentials: any, serviceNames:
 }
 
 async function deleteECSServices(region: string, credentials: any, serviceNames: string[], params?: any): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const results = [];
 
   for (const serviceName of serviceNames) {
@@ -546,7 +616,7 @@ async function deleteECSServices(region: string, credentials: any, serviceNames:
 }
 
 async function restartECSServices(region: string, credentials: any, serviceNames: string[], params?: any): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const results = [];
 
   for (const serviceName of serviceNames) {
@@ -588,7 +658,7 @@ async function restartECSServices(region: string, credentials: any, serviceNames
 // ============================================================================
 
 async function stopECSTasks(region: string, credentials: any, taskArns: string[], params?: any): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
+  const client = awsClientFactory.getECSClient(region, credentials);
   const results = [];
 
   for (const taskArn of taskArns) {
@@ -634,7 +704,7 @@ async function updateEKSNodegroups(region: string, credentials: any, nodegroupNa
     throw new Error('clusterName is required in actionParams for EKS nodegroup operations');
   }
 
-  const client = new EKSClient({ region, credentials });
+  const client = awsClientFactory.getEKSClient(region, credentials);
   const results = [];
 
   for (const nodegroupName of nodegroupNames) {
@@ -678,7 +748,7 @@ async function deleteEKSNodegroups(region: string, credentials: any, nodegroupNa
     throw new Error('clusterName is required in actionParams for EKS nodegroup operations');
   }
 
-  const client = new EKSClient({ region, credentials });
+  const client = awsClientFactory.getEKSClient(region, credentials);
   const results = [];
 
   for (const nodegroupName of nodegroupNames) {
@@ -719,7 +789,7 @@ async function deleteEKSNodegroups(region: string, credentials: any, nodegroupNa
 // ============================================================================
 
 async function updateLambdaFunctions(region: string, credentials: any, functionNames: string[], params?: any): Promise<CallToolResult> {
-  const client = new LambdaClient({ region, credentials });
+  const client = awsClientFactory.getLambdaClient(region, credentials);
   const results = [];
 
   for (const functionName of functionNames) {
@@ -761,7 +831,7 @@ async function updateLambdaFunctions(region: string, credentials: any, functionN
 }
 
 async function deleteLambdaFunctions(region: string, credentials: any, functionNames: string[]): Promise<CallToolResult> {
-  const client = new LambdaClient({ region, credentials });
+  const client = awsClientFactory.getLambdaClient(region, credentials);
   const results = [];
 
   for (const functionName of functionNames) {
@@ -800,7 +870,7 @@ async function deleteLambdaFunctions(region: string, credentials: any, functionN
 // ============================================================================
 
 async function updateDynamoDBTables(region: string, credentials: any, tableNames: string[], params?: any): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
   const results = [];
 
   for (const tableName of tableNames) {
@@ -839,7 +909,7 @@ async function updateDynamoDBTables(region: string, credentials: any, tableNames
 }
 
 async function deleteDynamoDBTables(region: string, credentials: any, tableNames: string[]): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
   const results = [];
 
   for (const tableName of tableNames) {
@@ -873,3 +943,353 @@ async function deleteDynamoDBTables(region: string, credentials: any, tableNames
     }],
   };
 }
+
+// ============================================================================
+// Dry Run Preview
+// ============================================================================
+
+interface ActionTarget {
+  resourceId: string;
+  found: boolean;
+  current?: Record<string, any>;
+  tags?: Record<string, string | undefined>;
+  plannedChanges?: PlannedChange[];
+  error?: string;
+}
+
+interface PlannedChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+/**
+ * Action parameters that map onto a field of the resolved resource, per resource type
+ */
+const UPDATE_FIELDS: Record<string, string[]> = {
+  'ecs-services': ['desiredCount', 'taskDefinition', 'forceNewDeployment'],
+  'eks-nodegroups': ['scalingConfig', 'labels'],
+  'lambda-functions': ['timeout', 'memorySize', 'environment', 'runtime', 'handler'],
+  'dynamodb-tables': ['billingMode', 'provisionedThroughput', 'streamSpecification'],
+};
+
+async function previewAction(
+  region: string,
+  credentials: any,
+  args: ExecuteActionArgs,
+  fingerprint: string
+): Promise<CallToolResult> {
+  const targets = await resolveTargets(region, credentials, args.resourceType, args.resourceIds, args.actionParams);
+
+  for (const target of targets) {
+    if (target.found) {
+      target.plannedChanges = describePlannedChanges(args.action, args.resourceType, target.current!, args.actionParams);
+    }
+  }
+
+  const foundCount = targets.filter(t => t.found).length;
+  const confirmationRequired = DESTRUCTIVE_ACTIONS.includes(args.action);
+  // The token covers every requested ID, so it is only issued when all of them resolved
+  const ticket = foundCount > 0 && foundCount === targets.length ? confirmations.issue(fingerprint) : undefined;
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        dryRun: true,
+        confirmationRequired,
+        action: args.action,
+        resourceType: args.resourceType,
+        region,
+        profile: args.profile,
+        count: targets.length,
+        notFound: targets.length - foundCount,
+        targets,
+        confirmationToken: ticket?.token,
+        expiresAt: ticket?.expiresAt,
+        message: ticket
+          ? `Nothing was changed. To execute, repeat the same request with confirmationToken within ${ticket.expiresInSeconds} seconds.`
+          : foundCount > 0
+            ? `Nothing was changed. ${targets.length - foundCount} of the requested resources were not found; remove them from resourceIds to get a confirmation token.`
+            : 'Nothing was changed. None of the requested resources were found.',
+      }, null, 2),
+    }],
+  };
+}
+
+async function resolveTargets(
+  region: string,
+  credentials: any,
+  resourceType: string,
+  resourceIds: string[],
+  params?: any
+): Promise<ActionTarget[]> {
+  const targets: ActionTarget[] = [];
+
+  for (const resourceId of resourceIds) {
+    try {
+      targets.push(await resolveTarget(region, credentials, resourceType, resourceId, params));
+    } catch (error: any) {
+      targets.push({
+        resourceId,
+        found: false,
+        error: error.message,
+      });
+    }
+  }
+
+  return targets;
+}
+
+async function resolveTarget(
+  region: string,
+  credentials: any,
+  resourceType: string,
+  resourceId: string,
+  params?: any
+): Promise<ActionTarget> {
+  switch (resourceType) {
+    case 'ec2-instances': {
+      const client = awsClientFactory.getEC2Client(region, credentials);
+      const response = await client.send(new DescribeInstancesCommand({ InstanceIds: [resourceId] }));
+      const instance = response.Reservations?.[0]?.Instances?.[0];
+      if (!instance) {
+        return { resourceId, found: false, error: 'EC2 instance not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: instance.State?.Name,
+          instanceType: instance.InstanceType,
+          launchTime: instance.LaunchTime,
+          privateIpAddress: instance.PrivateIpAddress,
+          publicIpAddress: instance.PublicIpAddress,
+        },
+        tags: instance.Tags?.reduce((acc, t) => ({ ...acc, [t.Key!]: t.Value }), {} as Record<string, string | undefined>),
+      };
+    }
+
+    case 'rds-instances': {
+      const client = awsClientFactory.getRDSClient(region, credentials);
+      const response = await client.send(new DescribeDBInstancesCommand({ DBInstanceIdentifier: resourceId }));
+      const db = response.DBInstances?.[0];
+      if (!db) {
+        return { resourceId, found: false, error: 'RDS instance not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: db.DBInstanceStatus,
+          engine: db.Engine,
+          instanceClass: db.DBInstanceClass,
+          multiAZ: db.MultiAZ,
+          deletionProtection: db.DeletionProtection,
+        },
+        tags: db.TagList?.reduce((acc, t) => ({ ...acc, [t.Key!]: t.Value }), {} as Record<string, string | undefined>),
+      };
+    }
+
+    case 'rds-clusters': {
+      const client = awsClientFactory.getRDSClient(region, credentials);
+      const response = await client.send(new DescribeDBClustersCommand({ DBClusterIdentifier: resourceId }));
+      const cluster = response.DBClusters?.[0];
+      if (!cluster) {
+        return { resourceId, found: false, error: 'RDS cluster not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: cluster.Status,
+          engine: cluster.Engine,
+          members: cluster.DBClusterMembers?.length || 0,
+          deletionProtection: cluster.DeletionProtection,
+        },
+        tags: cluster.TagList?.reduce((acc, t) => ({ ...acc, [t.Key!]: t.Value }), {} as Record<string, string | undefined>),
+      };
+    }
+
+    case 'ecs-services': {
+      const client = awsClientFactory.getECSClient(region, credentials);
+      const response = await client.send(new DescribeServicesCommand({
+        cluster: params?.cluster || 'default',
+        services: [resourceId],
+        include: ['TAGS'],
+      }));
+      const service = response.services?.[0];
+      if (!service) {
+        return { resourceId, found: false, error: response.failures?.[0]?.reason || 'ECS service not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: service.status,
+          desiredCount: service.desiredCount,
+          runningCount: service.runningCount,
+          taskDefinition: service.taskDefinition,
+          forceNewDeployment: false,
+        },
+        tags: service.tags?.reduce((acc, t) => ({ ...acc, [t.key!]: t.value }), {} as Record<string, string | undefined>),
+      };
+    }
+
+    case 'ecs-tasks': {
+      const client = awsClientFactory.getECSClient(region, credentials);
+      const response = await client.send(new DescribeTasksCommand({
+        cluster: params?.cluster || 'default',
+        tasks: [resourceId],
+        include: ['TAGS'],
+      }));
+      const task = response.tasks?.[0];
+      if (!task) {
+        return { resourceId, found: false, error: response.failures?.[0]?.reason || 'ECS task not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: task.lastStatus,
+          desiredStatus: task.desiredStatus,
+          taskDefinitionArn: task.taskDefinitionArn,
+          group: task.group,
+        },
+        tags: task.tags?.reduce((acc, t) => ({ ...acc, [t.key!]: t.value }), {} as Record<string, string | undefined>),
+      };
+    }
+
+    case 'eks-nodegroups': {
+      if (!params?.clusterName) {
+        throw new Error('clusterName is required in actionParams for EKS nodegroup operations');
+      }
+      const client = awsClientFactory.getEKSClient(region, credentials);
+      const response = await client.send(new DescribeNodegroupCommand({
+        clusterName: params.clusterName,
+        nodegroupName: resourceId,
+      }));
+      const nodegroup = response.nodegroup;
+      if (!nodegroup) {
+        return { resourceId, found: false, error: 'EKS nodegroup not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: nodegroup.status,
+          instanceTypes: nodegroup.instanceTypes,
+          scalingConfig: nodegroup.scalingConfig,
+          labels: nodegroup.labels,
+        },
+        tags: nodegroup.tags,
+      };
+    }
+
+    case 'lambda-functions': {
+      const client = awsClientFactory.getLambdaClient(region, credentials);
+      const response = await client.send(new GetFunctionCommand({ FunctionName: resourceId }));
+      const config = response.Configuration;
+      if (!config) {
+        return { resourceId, found: false, error: 'Lambda function not found' };
+      }
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: config.State,
+          runtime: config.Runtime,
+          handler: config.Handler,
+          timeout: config.Timeout,
+          memorySize: config.MemorySize,
+          // Variable values are often secrets: the preview only names them
+          environment: config.Environment?.Variables ? { variableNames: Object.keys(config.Environment.Variables) } : undefined,
+          lastModified: config.LastModified,
+        },
+        tags: response.Tags,
+      };
+    }
+
+    case 'dynamodb-tables': {
+      const client = awsClientFactory.getDynamoDBClient(region, credentials);
+      const response = await client.send(new DescribeTableCommand({ TableName: resourceId }));
+      const table = response.Table;
+      if (!table) {
+        return { resourceId, found: false, error: 'DynamoDB table not found' };
+      }
+      const tagsResponse = table.TableArn
+        ? await client.send(new ListTagsOfResourceCommand({ ResourceArn: table.TableArn })).catch(() => undefined)
+        : undefined;
+      return {
+        resourceId,
+        found: true,
+        current: {
+          state: table.TableStatus,
+          itemCount: table.ItemCount,
+          tableSizeBytes: table.TableSizeBytes,
+          billingMode: table.BillingModeSummary?.BillingMode || 'PROVISIONED',
+          provisionedThroughput: {
+            ReadCapacityUnits: table.ProvisionedThroughput?.ReadCapacityUnits,
+            WriteCapacityUnits: table.ProvisionedThroughput?.WriteCapacityUnits,
+          },
+          streamSpecification: table.StreamSpecification,
+          deletionProtection: table.DeletionProtectionEnabled,
+        },
+        tags: tagsResponse?.Tags?.reduce((acc, t) => ({ ...acc, [t.Key!]: t.Value }), {} as Record<string, string | undefined>),
+      };
+    }
+
+    default:
+      throw new Error(`Dry run is not supported for resource type '${resourceType}'`);
+  }
+}
+
+function describePlannedChanges(
+  action: string,
+  resourceType: string,
+  current: Record<string, any>,
+  params?: any
+): PlannedChange[] {
+  switch (action) {
+    case 'start':
+      return [{ field: 'state', from: current.state, to: resourceType === 'ec2-instances' ? 'running' : 'available' }];
+
+    case 'stop':
+      return [{ field: 'state', from: current.state, to: 'stopped' }];
+
+    case 'reboot':
+      return [{ field: 'state', from: current.state, to: `rebooting (returns to ${current.state})` }];
+
+    case 'terminate':
+      return [{ field: 'state', from: current.state, to: 'terminated (irreversible)' }];
+
+    case 'restart':
+      return [{ field: 'deployment', from: current.taskDefinition, to: 'new deployment of the same task definition' }];
+
+    case 'delete': {
+      const changes: PlannedChange[] = [{ field: 'state', from: current.state, to: 'deleted (irreversible)' }];
+      if (resourceType === 'rds-instances') {
+        const skipFinalSnapshot = params?.skipFinalSnapshot ?? true;
+        changes.push({
+          field: 'finalSnapshot',
+          from: null,
+          to: skipFinalSnapshot ? 'none (skipFinalSnapshot)' : params?.finalSnapshotIdentifier,
+        });
+      }
+      if (current.deletionProtection) {
+        changes.push({ field: 'deletionProtection', from: true, to: 'enabled - AWS will reject the delete' });
+      }
+      return changes;
+    }
+
+    case 'update':
+      return (UPDATE_FIELDS[resourceType] || [])
+        .filter(field => params?.[field] !== undefined)
+        .filter(field => JSON.stringify(params[field]) !== JSON.stringify(current[field]))
+        .map(field => ({ field, from: current[field], to: params[field] }));
+
+    default:
+      return [{ field: 'state', from: current.state, to: action }];
+  }
+}
@@ -9,7 +9,8 @@ import {
   GetCostForecastCommand,
 } from '@aws-sdk/client-cost-explorer';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { ToolDefinition } from '../../tools/tool-registry';
 
 interface GetCostsArgs {
   operation: string;
@@ -22,36 +23,79 @@ interface GetCostsArgs {
   profile?: string;
 }
 
-export async function handleGetCosts(args: GetCostsArgs): Promise<CallToolResult> {
-  // Cost Explorer is a global service, use us-east-1
-  const region = 'us-east-1';
-  
-  // Get credentials intelligently
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
-
-  const credentials = credResult.credentials!;
-
-  const client = new CostExplorerClient({ region, credentials });
-
-  // Route to appropriate operation
-  switch (args.operation) {
-    case 'cost-and-usage':
-      return await getCostAndUsage(client, args);
-    
-    case 'forecast':
-      return await getCostForecast(client, args);
-    
-    default:
-      throw new Error(`Unsupported costs operation: ${args.operation}`);
-  }
-}
+/**
+ * aws-get-costs: Cost Explorer reads (a global service, called in us-east-1)
+ */
+export const getCostsTool: ToolDefinition<GetCostsArgs> = {
+  name: 'aws-get-costs',
+  description: 'Get AWS cost and usage data, or forecast future costs',
+  properties: {
+    operation: {
+      type: 'string',
+      description: 'Cost operation to perform',
+    },
+    startDate: {
+      type: 'string',
+      description: 'Start date (YYYY-MM-DD) - required for cost-and-usage',
+    },
+    endDate: {
+      type: 'string',
+      description: 'End date (YYYY-MM-DD) - required for cost-and-usage and forecast',
+    },
+    granularity: {
+      type: 'string',
+      enum: ['DAILY', 'MONTHLY', 'HOURLY'],
+      description: 'Time granularity (default: DAILY)',
+    },
+    groupBy: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['SERVICE', 'REGION', 'LINKED_ACCOUNT', 'USAGE_TYPE'],
+      },
+      description: 'Group results by dimension',
+    },
+    metrics: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['UnblendedCost', 'BlendedCost', 'UsageQuantity'],
+      },
+      description: 'Metrics to retrieve',
+    },
+    filters: {
+      type: 'object',
+      description: 'Cost filters (services, regions, etc.)',
+      additionalProperties: true,
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+    profiles: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'Run against several profiles in parallel: "all" (every saved profile) or one or more profile names (optional). Results are grouped by account ID',
+    },
+  },
+  required: ['operation'],
+  classify: args => ({ operation: args.operation }),
+  region: () => 'us-east-1',
+  operations: [
+    {
+      match: { operation: 'cost-and-usage' },
+      iamActions: ['ce:GetCostAndUsage'],
+      required: ['startDate', 'endDate'],
+      run: (args, { credentials }) => getCostAndUsage(awsClientFactory.getCostExplorerClient(credentials), args),
+    },
+    {
+      match: { operation: 'forecast' },
+      iamActions: ['ce:GetCostForecast'],
+      required: ['endDate'],
+      run: (args, { credentials }) => getCostForecast(awsClientFactory.getCostExplorerClient(credentials), args),
+    },
+  ],
+};
 
 // ============================================================================
 // Get Cost and Usage
@@ -9,7 +9,10 @@ import {
   ListMetricsCommand,
 } from '@aws-sdk/client-cloudwatch';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { PaginationParams } from '../../models';
+import { paginate, pageInfo } from '../../utils';
+import { ToolDefinition } from '../../tools/tool-registry';
 
 interface GetMetricsArgs {
   namespace: string;
@@ -19,34 +22,84 @@ interface GetMetricsArgs {
   period?: number;
   startTime?: string;
   endTime?: string;
+  nextToken?: string;
+  all?: boolean;
   region?: string;
   profile?: string;
 }
 
-export async function handleGetMetrics(args: GetMetricsArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
-
-  const credentials = credResult.credentials!;
-
-  const client = new CloudWatchClient({ region, credentials });
-
-  // If no metricName specified, list available metrics for namespace
-  if (!args.metricName) {
-    return await listMetrics(client, args.namespace, args.dimensions);
-  }
-
-  // Get metric statistics
-  return await getMetricStatistics(client, args);
-}
+/**
+ * aws-get-metrics: statistics of a metric, or the metrics of a namespace when no metricName is given
+ */
+export const getMetricsTool: ToolDefinition<GetMetricsArgs> = {
+  name: 'aws-get-metrics',
+  description: 'Get CloudWatch metrics for any AWS resource: CPU, memory, network, custom metrics',
+  properties: {
+    namespace: {
+      type: 'string',
+      description: 'Metric namespace (e.g., AWS/EC2, AWS/RDS, AWS/Lambda, AWS/DynamoDB)',
+    },
+    metricName: {
+      type: 'string',
+      description: 'Metric name (e.g., CPUUtilization, NetworkIn, FreeableMemory)',
+    },
+    dimensions: {
+      type: 'object',
+      description: 'Metric dimensions (e.g., {InstanceId: "i-1234", TableName: "users"})',
+      additionalProperties: { type: 'string' },
+    },
+    statistics: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['Average', 'Sum', 'Maximum', 'Minimum', 'SampleCount'],
+      },
+      description: 'Statistics to retrieve',
+    },
+    period: {
+      type: 'number',
+      description: 'Period in seconds (60, 300, 3600, etc.)',
+    },
+    startTime: {
+      type: 'string',
+      description: 'Start time (ISO 8601)',
+    },
+    endTime: {
+      type: 'string',
+      description: 'End time (ISO 8601)',
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+  },
+  required: ['namespace', 'metricName'],
+  classify: args => ({ operation: 'get-metrics', resourceType: args.namespace }),
+  operations: [
+    {
+      match: {},
+      iamActions: ['cloudwatch:GetMetricStatistics', 'cloudwatch:ListMetrics'],
+      run: (args, { region, credentials }) => {
+        const client = awsClientFactory.getCloudWatchClient(region, credentials);
+        return args.metricName
+          ? getMetricStatistics(client, args)
+          : listMetrics(client, args, args.namespace, args.dimensions);
+      },
+    },
+  ],
+};
 
 // ============================================================================
 // List Metrics
@@ -54,6 +107,7 @@ export async function handleGetMetrics(args: GetMetricsArgs): Promise<CallToolRe
 
 async function listMetrics(
   client: CloudWatchClient,
+  page: PaginationParams,
   namespace: string,
   dimensions?: Record<string, string>
 ): Promise<CallToolResult> {
@@ -69,7 +123,10 @@ async function listMetrics(
     }));
   }
 
-  const response = await client.send(new ListMetricsCommand(params));
+  const result = await paginate('get-metrics:list-metrics', page, async (NextToken) => {
+    const response = await client.send(new ListMetricsCommand({ ...params, NextToken }));
+    return { items: response.Metrics, nextToken: response.NextToken };
+  });
 
   return {
     content: [{
@@ -78,15 +135,16 @@ async function listMetrics(
         success: true,
         operation: 'list-metrics',
         namespace,
-        count: response.Metrics?.length || 0,
-        metrics: response.Metrics?.map(metric => ({
+        count: result.items.length,
+        metrics: result.items.map(metric => ({
           metricName: metric.MetricName,
           namespace: metric.Namespace,
           dimensions: metric.Dimensions?.reduce((acc, dim) => ({
             ...acc,
             [dim.Name!]: dim.Value,
           }), {}),
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
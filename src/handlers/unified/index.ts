@@ -2,15 +2,16 @@
  * Unified Handlers - Exports
  */
 
-export { handleProfileManagement } from './profile-management.handler';
-export { handleListResources } from './list-resources.handler';
-export { handleDescribeResource } from './describe-resource.handler';
-export { handleExecuteAction } from './execute-action.handler';
-export { handleQueryDatabase } from './query-database.handler';
-export { handleLogsOperations } from './logs-operations.handler';
-export { handleGetMetrics } from './get-metrics.handler';
-export { handleSearchResources } from './search-resources.handler';
-export { handleGetCosts } from './get-costs.handler';
-export { handleAccountInfo } from './account-info.handler';
-export { handleManageSecrets } from './manage-secrets.handler';
-export { handleContainerOperations } from './container-operations.handler';
+export { profileManagementTool } from './profile-management.handler';
+export { listResourcesTool } from './list-resources.handler';
+export { describeResourceTool } from './describe-resource.handler';
+export { executeActionTool } from './execute-action.handler';
+export { queryDatabaseTool } from './query-database.handler';
+export { logsOperationsTool } from './logs-operations.handler';
+export { getMetricsTool } from './get-metrics.handler';
+export { searchResourcesTool } from './search-resources.handler';
+export { getCostsTool } from './get-costs.handler';
+export { accountInfoTool } from './account-info.handler';
+export { manageSecretsTool } from './manage-secrets.handler';
+export { containerOperationsTool } from './container-operations.handler';
+export { auditLogTool } from './audit-log.handler';
@@ -4,13 +4,20 @@
  */
 
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { EC2Client, DescribeInstancesCommand, DescribeKeyPairsCommand } from '@aws-sdk/client-ec2';
-import { RDSClient, DescribeDBInstancesCommand, DescribeDBClustersCommand, DescribeDBSnapshotsCommand, DescribeDBClusterSnapshotsCommand } from '@aws-sdk/client-rds';
-import { DynamoDBClient, ListTablesCommand, ListBackupsCommand, ListGlobalTablesCommand } from '@aws-sdk/client-dynamodb';
-import { ECSClient, ListClustersCommand, ListServicesCommand, ListTasksCommand, ListTaskDefinitionsCommand } from '@aws-sdk/client-ecs';
-import { EKSClient, ListClustersCommand as ListEKSClustersCommand, ListNodegroupsCommand, ListAddonsCommand } from '@aws-sdk/client-eks';
-import { CloudWatchLogsClient, DescribeLogGroupsCommand, DescribeLogStreamsCommand } from '@aws-sdk/client-cloudwatch-logs';
-import { logger, getIntelligentCredentials, getRegion } from '../../utils';
+import { DescribeInstancesCommand, DescribeKeyPairsCommand, DescribeSecurityGroupsCommand } from '@aws-sdk/client-ec2';
+import { DescribeDBInstancesCommand, DescribeDBClustersCommand, DescribeDBSnapshotsCommand, DescribeDBClusterSnapshotsCommand } from '@aws-sdk/client-rds';
+import { ListTablesCommand, ListBackupsCommand, ListGlobalTablesCommand } from '@aws-sdk/client-dynamodb';
+import { ListClustersCommand, ListServicesCommand, ListTasksCommand, ListTaskDefinitionsCommand } from '@aws-sdk/client-ecs';
+import { ListClustersCommand as ListEKSClustersCommand, ListNodegroupsCommand, ListAddonsCommand } from '@aws-sdk/client-eks';
+import { DescribeLogGroupsCommand, DescribeLogStreamsCommand } from '@aws-sdk/client-cloudwatch-logs';
+import { ListBucketsCommand } from '@aws-sdk/client-s3';
+import { ListFunctionsCommand } from '@aws-sdk/client-lambda';
+import { ListSecretsCommand } from '@aws-sdk/client-secrets-manager';
+import { DescribeParametersCommand } from '@aws-sdk/client-ssm';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { PaginationParams } from '../../models';
+import { paginate, pageInfo } from '../../utils';
+import { ToolDefinition } from '../../tools/tool-registry';
 
 interface ListResourcesArgs {
   resourceType: string;
@@ -18,131 +25,202 @@ interface ListResourcesArgs {
   profile?: string;
   filters?: Record<string, any>;
   maxResults?: number;
+  nextToken?: string;
+  all?: boolean;
+  bypassCache?: boolean;
 }
 
-export async function handleListResources(args: ListResourcesArgs): Promise<CallToolResult> {
-  try {
-    logger.info(`Listing resources: ${args.resourceType}`);
-
-    // Get credentials intelligently
-    const region = getRegion(args.region);
-    const credResult = await getIntelligentCredentials(args.profile, region);
-    
-    // If credentials not found, return helpful message instead of error
-    if (credResult.needsConfiguration) {
-      return {
-        content: [{
-          type: 'text',
-          text: credResult.message || 'AWS credentials not configured.',
-        }],
-        isError: false, // Not an error, just needs configuration
-      };
-    }
-
-    const credentials = credResult.credentials!;
-
-    switch (args.resourceType) {
-      case 'ec2-instances':
-        return await listEC2Instances(region, credentials, args.filters, args.maxResults);
-      
-      case 'ec2-key-pairs':
-        return await listKeyPairs(region, credentials);
-      
-      case 'rds-instances':
-        return await listRDSInstances(region, credentials, args.maxResults);
-      
-      case 'rds-clusters':
-        return await listRDSClusters(region, credentials, args.maxResults);
-      
-      case 'rds-snapshots':
-        return await listRDSSnapshots(region, credentials, args.maxResults);
-      
-      case 'rds-cluster-snapshots':
-        return await listRDSClusterSnapshots(region, credentials, args.maxResults);
-      
-      case 'dynamodb-tables':
-        return await listDynamoDBTables(region, credentials);
-      
-      case 'dynamodb-backups':
-        return await listDynamoDBBackups(region, credentials, args.filters);
-      
-      case 'dynamodb-global-tables':
-        return await listDynamoDBGlobalTables(region, credentials);
-      
-      case 'ecs-clusters':
-        return await listECSClusters(region, credentials, args.maxResults);
-      
-      case 'ecs-services':
-        return await listECSServices(region, credentials, args.filters?.clusterName, args.maxResults);
-      
-      case 'ecs-tasks':
-        return await listECSTasks(region, credentials, args.filters?.clusterName, args.filters?.serviceName, args.maxResults);
-      
-      case 'ecs-task-definitions':
-        return await listECSTaskDefinitions(region, credentials, args.maxResults);
-      
-      case 'eks-clusters':
-        return await listEKSClusters(region, credentials, args.maxResults);
-      
-      case 'eks-nodegroups':
-        return await listEKSNodegroups(region, credentials, args.filters?.clusterName, args.maxResults);
-      
-      case 'eks-addons':
-        return await listEKSAddons(region, credentials, args.filters?.clusterName, args.maxResults);
-      
-      case 'log-groups':
-        return await listLogGroups(region, credentials, args.filters?.prefix, args.maxResults);
-      
-      case 'log-streams':
-        return await listLogStreams(region, credentials, args.filters?.logGroupName, args.maxResults);
-      
-      default:
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: `Unsupported resource type: ${args.resourceType}`,
-              supportedTypes: [
-                'ec2-instances', 'ec2-key-pairs',
-                'rds-instances', 'rds-clusters', 'rds-snapshots',
-                'dynamodb-tables', 'dynamodb-backups', 'dynamodb-global-tables',
-                'ecs-clusters', 'ecs-services', 'ecs-tasks', 'ecs-task-definitions',
-                'eks-clusters', 'eks-nodegroups', 'eks-addons',
-                'log-groups', 'log-streams',
-              ],
-            }, null, 2),
-          }],
-          isError: true,
-        };
-    }
-  } catch (error) {
-    logger.error('List resources error', error as Error);
+/**
+ * aws-list-resources: one read-only operation per resource type, served from the response cache
+ */
+export const listResourcesTool: ToolDefinition<ListResourcesArgs> = {
+  name: 'aws-list-resources',
+  description: 'List any AWS resources: EC2 instances, RDS databases, DynamoDB tables, ECS clusters, Lambda functions, S3 buckets, etc.',
+  properties: {
+    resourceType: {
+      type: 'string',
+      description: 'Type of AWS resource to list',
+    },
+    region: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'AWS region, "all" for every enabled region, or a list of regions (optional, uses profile default if not specified). Multi-region results are merged and tagged by region',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional, uses active profile if not specified)',
+    },
+    profiles: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'Run against several profiles in parallel: "all" (every saved profile) or one or more profile names (optional). Results are grouped by account ID',
+    },
+    filters: {
+      type: 'object',
+      description: 'Resource-specific filters: prefix (name prefix for security groups, buckets, Lambda functions, secrets, parameters and log groups), runtime (Lambda), region (S3 bucket region), vpcId (security groups), clusterName, serviceName, logGroupName, tableName',
+      additionalProperties: true,
+    },
+    maxResults: {
+      type: 'number',
+      description: 'Page size: maximum number of results per AWS call (optional)',
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    bypassCache: {
+      type: 'boolean',
+      description: 'Skip the response cache and read fresh data from AWS (optional, default: false)',
+    },
+  },
+  required: ['resourceType'],
+  classify: args => ({ operation: 'list', resourceType: args.resourceType }),
+  cache: true,
+  operations: [
+    {
+      match: { resourceType: 'ec2-instances' },
+      iamActions: ['ec2:DescribeInstances'],
+      run: (args, { region, credentials }) => listEC2Instances(region, credentials, args, args.filters),
+    },
+    {
+      match: { resourceType: 'ec2-key-pairs' },
+      iamActions: ['ec2:DescribeKeyPairs'],
+      run: (_args, { region, credentials }) => listKeyPairs(region, credentials),
+    },
+    {
+      match: { resourceType: 'ec2-security-groups' },
+      iamActions: ['ec2:DescribeSecurityGroups'],
+      run: (args, { region, credentials }) => listSecurityGroups(region, credentials, args, args.filters),
+    },
+    {
+      match: { resourceType: 'rds-instances' },
+      iamActions: ['rds:DescribeDBInstances'],
+      run: (args, { region, credentials }) => listRDSInstances(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'rds-clusters' },
+      iamActions: ['rds:DescribeDBClusters'],
+      run: (args, { region, credentials }) => listRDSClusters(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'rds-snapshots' },
+      iamActions: ['rds:DescribeDBSnapshots'],
+      run: (args, { region, credentials }) => listRDSSnapshots(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'rds-cluster-snapshots' },
+      iamActions: ['rds:DescribeDBClusterSnapshots'],
+      run: (args, { region, credentials }) => listRDSClusterSnapshots(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'dynamodb-tables' },
+      iamActions: ['dynamodb:ListTables'],
+      run: (args, { region, credentials }) => listDynamoDBTables(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'dynamodb-backups' },
+      iamActions: ['dynamodb:ListBackups'],
+      run: (args, { region, credentials }) => listDynamoDBBackups(region, credentials, args, args.filters),
+    },
+    {
+      match: { resourceType: 'dynamodb-global-tables' },
+      iamActions: ['dynamodb:ListGlobalTables'],
+      run: (args, { region, credentials }) => listDynamoDBGlobalTables(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'ecs-clusters' },
+      iamActions: ['ecs:ListClusters'],
+      run: (args, { region, credentials }) => listECSClusters(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'ecs-services' },
+      iamActions: ['ecs:ListServices'],
+      required: ['filters.clusterName'],
+      run: (args, { region, credentials }) => listECSServices(region, credentials, args, args.filters?.clusterName),
+    },
+    {
+      match: { resourceType: 'ecs-tasks' },
+      iamActions: ['ecs:ListTasks'],
+      required: ['filters.clusterName'],
+      run: (args, { region, credentials }) => listECSTasks(region, credentials, args, args.filters?.clusterName, args.filters?.serviceName),
+    },
+    {
+      match: { resourceType: 'ecs-task-definitions' },
+      iamActions: ['ecs:ListTaskDefinitions'],
+      run: (args, { region, credentials }) => listECSTaskDefinitions(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'eks-clusters' },
+      iamActions: ['eks:ListClusters'],
+      run: (args, { region, credentials }) => listEKSClusters(region, credentials, args),
+    },
+    {
+      match: { resourceType: 'eks-nodegroups' },
+      iamActions: ['eks:ListNodegroups'],
+      required: ['filters.clusterName'],
+      run: (args, { region, credentials }) => listEKSNodegroups(region, credentials, args, args.filters?.clusterName),
+    },
+    {
+      match: { resourceType: 'eks-addons' },
+      iamActions: ['eks:ListAddons'],
+      required: ['filters.clusterName'],
+      run: (args, { region, credentials }) => listEKSAddons(region, credentials, args, args.filters?.clusterName),
+    },
+    {
+      match: { resourceType: 'log-groups' },
+      iamActions: ['logs:DescribeLogGroups'],
+      run: (args, { region, credentials }) => listLogGroups(region, credentials, args, args.filters?.prefix),
+    },
+    {
+      match: { resourceType: 'log-streams' },
+      iamActions: ['logs:DescribeLogStreams'],
+      required: ['filters.logGroupName'],
+      run: (args, { region, credentials }) => listLogStreams(region, credentials, args, args.filters?.logGroupName),
+    },
+    {
+      match: { resourceType: 's3-buckets' },
+      iamActions: ['s3:ListAllMyBuckets'],
+      run: (args, { region, credentials }) => listS3Buckets(region, credentials, args, args.filters),
+    },
+    {
+      match: { resourceType: 'lambda-functions' },
+      iamActions: ['lambda:ListFunctions'],
+      run: (args, { region, credentials }) => listLambdaFunctions(region, credentials, args, args.filters),
+    },
+    {
+      match: { resourceType: 'secrets' },
+      iamActions: ['secretsmanager:ListSecrets'],
+      run: (args, { region, credentials }) => listSecrets(region, credentials, args, args.filters?.prefix),
+    },
+    {
+      match: { resourceType: 'parameters' },
+      iamActions: ['ssm:DescribeParameters'],
+      run: (args, { region, credentials }) => listParameters(region, credentials, args, args.filters?.prefix),
+    },
+  ],
+};
+
+async function listEC2Instances(region: string, credentials: any, page: PaginationParams, filters?: any): Promise<CallToolResult> {
+  const client = awsClientFactory.getEC2Client(region, credentials);
+  const result = await paginate('list-resources:ec2-instances', page, async (NextToken) => {
+    const response = await client.send(new DescribeInstancesCommand({
+      MaxResults: page.maxResults,
+      NextToken,
+      Filters: filters ? Object.entries(filters).map(([Name, Values]) => ({
+        Name,
+        Values: Array.isArray(Values) ? Values : [Values],
+      })) : undefined,
+    }));
     return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          success: false,
-          error: (error as Error).message,
-        }, null, 2),
-      }],
-      isError: true,
+      items: response.Reservations?.flatMap(r => r.Instances || []),
+      nextToken: response.NextToken,
     };
-  }
-}
-
-async function listEC2Instances(region: string, credentials: any, filters?: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
-  const command = new DescribeInstancesCommand({
-    MaxResults: maxResults,
-    Filters: filters ? Object.entries(filters).map(([Name, Values]) => ({
-      Name,
-      Values: Array.isArray(Values) ? Values : [Values],
-    })) : undefined,
   });
-
-  const response = await client.send(command);
-  const instances = response.Reservations?.flatMap(r => r.Instances || []) || [];
+  const instances = result.items;
 
   return {
     content: [{
@@ -160,13 +238,15 @@ async function listEC2Instances(region: string, credentials: any, filters?: any,
           privateIp: i.PrivateIpAddress,
           tags: i.Tags?.reduce((acc, t) => ({ ...acc, [t.Key!]: t.Value }), {}),
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
 async function listKeyPairs(region: string, credentials: any): Promise<CallToolResult> {
-  const client = new EC2Client({ region, credentials });
+  // DescribeKeyPairs is not paginated and always returns every key pair
+  const client = awsClientFactory.getEC2Client(region, credentials);
   const command = new DescribeKeyPairsCommand({});
   const response = await client.send(command);
 
@@ -188,10 +268,49 @@ async function listKeyPairs(region: string, credentials: any): Promise<CallToolR
   };
 }
 
-async function listRDSInstances(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
-  const command = new DescribeDBInstancesCommand({ MaxRecords: maxResults });
-  const response = await client.send(command);
+async function listSecurityGroups(region: string, credentials: any, page: PaginationParams, filters?: any): Promise<CallToolResult> {
+  const client = awsClientFactory.getEC2Client(region, credentials);
+  const ec2Filters = [
+    ...(filters?.prefix ? [{ Name: 'group-name', Values: [`${filters.prefix}*`] }] : []),
+    ...(filters?.vpcId ? [{ Name: 'vpc-id', Values: [filters.vpcId] }] : []),
+  ];
+  const result = await paginate('list-resources:ec2-security-groups', page, async (NextToken) => {
+    const response = await client.send(new DescribeSecurityGroupsCommand({
+      MaxResults: page.maxResults,
+      NextToken,
+      Filters: ec2Filters.length > 0 ? ec2Filters : undefined,
+    }));
+    return { items: response.SecurityGroups, nextToken: response.NextToken };
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 'ec2-security-groups',
+        count: result.items.length,
+        resources: result.items.map(sg => ({
+          groupId: sg.GroupId,
+          groupName: sg.GroupName,
+          description: sg.Description,
+          vpcId: sg.VpcId,
+          ingressRuleCount: sg.IpPermissions?.length || 0,
+          egressRuleCount: sg.IpPermissionsEgress?.length || 0,
+          tags: sg.Tags?.reduce((acc, t) => ({ ...acc, [t.Key!]: t.Value }), {}),
+        })),
+        ...pageInfo(result),
+      }, null, 2),
+    }],
+  };
+}
+
+async function listRDSInstances(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getRDSClient(region, credentials);
+  const result = await paginate('list-resources:rds-instances', page, async (Marker) => {
+    const response = await client.send(new DescribeDBInstancesCommand({ MaxRecords: page.maxResults, Marker }));
+    return { items: response.DBInstances, nextToken: response.Marker };
+  });
 
   return {
     content: [{
@@ -199,8 +318,8 @@ async function listRDSInstances(region: string, credentials: any, maxResults?: n
       text: JSON.stringify({
         success: true,
         resourceType: 'rds-instances',
-        count: response.DBInstances?.length || 0,
-        resources: response.DBInstances?.map(db => ({
+        count: result.items.length,
+        resources: result.items.map(db => ({
           identifier: db.DBInstanceIdentifier,
           engine: db.Engine,
           engineVersion: db.EngineVersion,
@@ -209,15 +328,18 @@ async function listRDSInstances(region: string, credentials: any, maxResults?: n
           endpoint: db.Endpoint?.Address,
           port: db.Endpoint?.Port,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listRDSClusters(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
-  const command = new DescribeDBClustersCommand({ MaxRecords: maxResults });
-  const response = await client.send(command);
+async function listRDSClusters(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getRDSClient(region, credentials);
+  const result = await paginate('list-resources:rds-clusters', page, async (Marker) => {
+    const response = await client.send(new DescribeDBClustersCommand({ MaxRecords: page.maxResults, Marker }));
+    return { items: response.DBClusters, nextToken: response.Marker };
+  });
 
   return {
     content: [{
@@ -225,8 +347,8 @@ async function listRDSClusters(region: string, credentials: any, maxResults?: nu
       text: JSON.stringify({
         success: true,
         resourceType: 'rds-clusters',
-        count: response.DBClusters?.length || 0,
-        resources: response.DBClusters?.map(c => ({
+        count: result.items.length,
+        resources: result.items.map(c => ({
           identifier: c.DBClusterIdentifier,
           engine: c.Engine,
           engineVersion: c.EngineVersion,
@@ -234,15 +356,18 @@ async function listRDSClusters(region: string, credentials: any, maxResults?: nu
           endpoint: c.Endpoint,
           readerEndpoint: c.ReaderEndpoint,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listRDSSnapshots(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
-  const command = new DescribeDBSnapshotsCommand({ MaxRecords: maxResults });
-  const response = await client.send(command);
+async function listRDSSnapshots(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getRDSClient(region, credentials);
+  const result = await paginate('list-resources:rds-snapshots', page, async (Marker) => {
+    const response = await client.send(new DescribeDBSnapshotsCommand({ MaxRecords: page.maxResults, Marker }));
+    return { items: response.DBSnapshots, nextToken: response.Marker };
+  });
 
   return {
     content: [{
@@ -250,23 +375,26 @@ async function listRDSSnapshots(region: string, credentials: any, maxResults?: n
       text: JSON.stringify({
         success: true,
         resourceType: 'rds-snapshots',
-        count: response.DBSnapshots?.length || 0,
-        resources: response.DBSnapshots?.map(s => ({
+        count: result.items.length,
+        resources: result.items.map(s => ({
           identifier: s.DBSnapshotIdentifier,
           instanceIdentifier: s.DBInstanceIdentifier,
           status: s.Status,
           snapshotType: s.SnapshotType,
           createTime: s.SnapshotCreateTime,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listRDSClusterSnapshots(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new RDSClient({ region, credentials });
-  const command = new DescribeDBClusterSnapshotsCommand({ MaxRecords: maxResults });
-  const response = await client.send(command);
+async function listRDSClusterSnapshots(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getRDSClient(region, credentials);
+  const result = await paginate('list-resources:rds-cluster-snapshots', page, async (Marker) => {
+    const response = await client.send(new DescribeDBClusterSnapshotsCommand({ MaxRecords: page.maxResults, Marker }));
+    return { items: response.DBClusterSnapshots, nextToken: response.Marker };
+  });
 
   return {
     content: [{
@@ -274,23 +402,26 @@ async function listRDSClusterSnapshots(region: string, credentials: any, maxResu
       text: JSON.stringify({
         success: true,
         resourceType: 'rds-cluster-snapshots',
-        count: response.DBClusterSnapshots?.length || 0,
-        resources: response.DBClusterSnapshots?.map(s => ({
+        count: result.items.length,
+        resources: result.items.map(s => ({
           identifier: s.DBClusterSnapshotIdentifier,
           clusterIdentifier: s.DBClusterIdentifier,
           status: s.Status,
           snapshotType: s.SnapshotType,
           createTime: s.SnapshotCreateTime,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listDynamoDBTables(region: string, credentials: any): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
-  const command = new ListTablesCommand({});
-  const response = await client.send(command);
+async function listDynamoDBTables(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
+  const result = await paginate('list-resources:dynamodb-tables', page, async (ExclusiveStartTableName) => {
+    const response = await client.send(new ListTablesCommand({ Limit: page.maxResults, ExclusiveStartTableName }));
+    return { items: response.TableNames, nextToken: response.LastEvaluatedTableName };
+  });
 
   return {
     content: [{
@@ -298,19 +429,24 @@ async function listDynamoDBTables(region: string, credentials: any): Promise<Cal
       text: JSON.stringify({
         success: true,
         resourceType: 'dynamodb-tables',
-        count: response.TableNames?.length || 0,
-        resources: response.TableNames,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listDynamoDBBackups(region: string, credentials: any, filters?: any): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
-  const command = new ListBackupsCommand({
-    TableName: filters?.tableName,
+async function listDynamoDBBackups(region: string, credentials: any, page: PaginationParams, filters?: any): Promise<CallToolResult> {
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
+  const result = await paginate('list-resources:dynamodb-backups', page, async (ExclusiveStartBackupArn) => {
+    const response = await client.send(new ListBackupsCommand({
+      TableName: filters?.tableName,
+      Limit: page.maxResults,
+      ExclusiveStartBackupArn,
+    }));
+    return { items: response.BackupSummaries, nextToken: response.LastEvaluatedBackupArn };
   });
-  const response = await client.send(command);
 
   return {
     content: [{
@@ -318,23 +454,26 @@ async function listDynamoDBBackups(region: string, credentials: any, filters?: a
       text: JSON.stringify({
         success: true,
         resourceType: 'dynamodb-backups',
-        count: response.BackupSummaries?.length || 0,
-        resources: response.BackupSummaries?.map(b => ({
+        count: result.items.length,
+        resources: result.items.map(b => ({
           backupArn: b.BackupArn,
           tableName: b.TableName,
           backupName: b.BackupName,
           backupStatus: b.BackupStatus,
           backupCreationDateTime: b.BackupCreationDateTime,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listDynamoDBGlobalTables(region: string, credentials: any): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
-  const command = new ListGlobalTablesCommand({});
-  const response = await client.send(command);
+async function listDynamoDBGlobalTables(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getDynamoDBClient(region, credentials);
+  const result = await paginate('list-resources:dynamodb-global-tables', page, async (ExclusiveStartGlobalTableName) => {
+    const response = await client.send(new ListGlobalTablesCommand({ Limit: page.maxResults, ExclusiveStartGlobalTableName }));
+    return { items: response.GlobalTables, nextToken: response.LastEvaluatedGlobalTableName };
+  });
 
   return {
     content: [{
@@ -342,20 +481,23 @@ async function listDynamoDBGlobalTables(region: string, credentials: any): Promi
       text: JSON.stringify({
         success: true,
         resourceType: 'dynamodb-global-tables',
-        count: response.GlobalTables?.length || 0,
-        resources: response.GlobalTables?.map(gt => ({
+        count: result.items.length,
+        resources: result.items.map(gt => ({
           globalTableName: gt.GlobalTableName,
           replicationGroup: gt.ReplicationGroup,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listECSClusters(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
-  const command = new ListClustersCommand({ maxResults });
-  const response = await client.send(command);
+async function listECSClusters(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getECSClient(region, credentials);
+  const result = await paginate('list-resources:ecs-clusters', page, async (nextToken) => {
+    const response = await client.send(new ListClustersCommand({ maxResults: page.maxResults, nextToken }));
+    return { items: response.clusterArns, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -363,21 +505,24 @@ async function listECSClusters(region: string, credentials: any, maxResults?: nu
       text: JSON.stringify({
         success: true,
         resourceType: 'ecs-clusters',
-        count: response.clusterArns?.length || 0,
-        resources: response.clusterArns,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listECSServices(region: string, credentials: any, clusterName?: string, maxResults?: number): Promise<CallToolResult> {
+async function listECSServices(region: string, credentials: any, page: PaginationParams, clusterName?: string): Promise<CallToolResult> {
   if (!clusterName) {
     throw new Error('clusterName is required in filters for listing ECS services');
   }
 
-  const client = new ECSClient({ region, credentials });
-  const command = new ListServicesCommand({ cluster: clusterName, maxResults });
-  const response = await client.send(command);
+  const client = awsClientFactory.getECSClient(region, credentials);
+  const result = await paginate('list-resources:ecs-services', page, async (nextToken) => {
+    const response = await client.send(new ListServicesCommand({ cluster: clusterName, maxResults: page.maxResults, nextToken }));
+    return { items: response.serviceArns, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -386,25 +531,29 @@ async function listECSServices(region: string, credentials: any, clusterName?: s
         success: true,
         resourceType: 'ecs-services',
         clusterName,
-        count: response.serviceArns?.length || 0,
-        resources: response.serviceArns,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listECSTasks(region: string, credentials: any, clusterName?: string, serviceName?: string, maxResults?: number): Promise<CallToolResult> {
+async function listECSTasks(region: string, credentials: any, page: PaginationParams, clusterName?: string, serviceName?: string): Promise<CallToolResult> {
   if (!clusterName) {
     throw new Error('clusterName is required in filters for listing ECS tasks');
   }
 
-  const client = new ECSClient({ region, credentials });
-  const command = new ListTasksCommand({
-    cluster: clusterName,
-    serviceName,
-    maxResults,
+  const client = awsClientFactory.getECSClient(region, credentials);
+  const result = await paginate('list-resources:ecs-tasks', page, async (nextToken) => {
+    const response = await client.send(new ListTasksCommand({
+      cluster: clusterName,
+      serviceName,
+      maxResults: page.maxResults,
+      nextToken,
+    }));
+    return { items: response.taskArns, nextToken: response.nextToken };
   });
-  const response = await client.send(command);
 
   return {
     content: [{
@@ -414,17 +563,20 @@ async function listECSTasks(region: string, credentials: any, clusterName?: stri
         resourceType: 'ecs-tasks',
         clusterName,
         serviceName: serviceName || 'all',
-        count: response.taskArns?.length || 0,
-        resources: response.taskArns,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listECSTaskDefinitions(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new ECSClient({ region, credentials });
-  const command = new ListTaskDefinitionsCommand({ maxResults });
-  const response = await client.send(command);
+async function listECSTaskDefinitions(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getECSClient(region, credentials);
+  const result = await paginate('list-resources:ecs-task-definitions', page, async (nextToken) => {
+    const response = await client.send(new ListTaskDefinitionsCommand({ maxResults: page.maxResults, nextToken }));
+    return { items: response.taskDefinitionArns, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -432,17 +584,20 @@ async function listECSTaskDefinitions(region: string, credentials: any, maxResul
       text: JSON.stringify({
         success: true,
         resourceType: 'ecs-task-definitions',
-        count: response.taskDefinitionArns?.length || 0,
-        resources: response.taskDefinitionArns,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listEKSClusters(region: string, credentials: any, maxResults?: number): Promise<CallToolResult> {
-  const client = new EKSClient({ region, credentials });
-  const command = new ListEKSClustersCommand({ maxResults });
-  const response = await client.send(command);
+async function listEKSClusters(region: string, credentials: any, page: PaginationParams): Promise<CallToolResult> {
+  const client = awsClientFactory.getEKSClient(region, credentials);
+  const result = await paginate('list-resources:eks-clusters', page, async (nextToken) => {
+    const response = await client.send(new ListEKSClustersCommand({ maxResults: page.maxResults, nextToken }));
+    return { items: response.clusters, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -450,21 +605,24 @@ async function listEKSClusters(region: string, credentials: any, maxResults?: nu
       text: JSON.stringify({
         success: true,
         resourceType: 'eks-clusters',
-        count: response.clusters?.length || 0,
-        resources: response.clusters,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listEKSNodegroups(region: string, credentials: any, clusterName?: string, maxResults?: number): Promise<CallToolResult> {
+async function listEKSNodegroups(region: string, credentials: any, page: PaginationParams, clusterName?: string): Promise<CallToolResult> {
   if (!clusterName) {
     throw new Error('clusterName is required in filters for listing EKS nodegroups');
   }
 
-  const client = new EKSClient({ region, credentials });
-  const command = new ListNodegroupsCommand({ clusterName, maxResults });
-  const response = await client.send(command);
+  const client = awsClientFactory.getEKSClient(region, credentials);
+  const result = await paginate('list-resources:eks-nodegroups', page, async (nextToken) => {
+    const response = await client.send(new ListNodegroupsCommand({ clusterName, maxResults: page.maxResults, nextToken }));
+    return { items: response.nodegroups, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -473,21 +631,24 @@ async function listEKSNodegroups(region: string, credentials: any, clusterName?:
         success: true,
         resourceType: 'eks-nodegroups',
         clusterName,
-        count: response.nodegroups?.length || 0,
-        resources: response.nodegroups,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listEKSAddons(region: string, credentials: any, clusterName?: string, maxResults?: number): Promise<CallToolResult> {
+async function listEKSAddons(region: string, credentials: any, page: PaginationParams, clusterName?: string): Promise<CallToolResult> {
   if (!clusterName) {
     throw new Error('clusterName is required in filters for listing EKS addons');
   }
 
-  const client = new EKSClient({ region, credentials });
-  const command = new ListAddonsCommand({ clusterName, maxResults });
-  const response = await client.send(command);
+  const client = awsClientFactory.getEKSClient(region, credentials);
+  const result = await paginate('list-resources:eks-addons', page, async (nextToken) => {
+    const response = await client.send(new ListAddonsCommand({ clusterName, maxResults: page.maxResults, nextToken }));
+    return { items: response.addons, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -496,20 +657,24 @@ async function listEKSAddons(region: string, credentials: any, clusterName?: str
         success: true,
         resourceType: 'eks-addons',
         clusterName,
-        count: response.addons?.length || 0,
-        resources: response.addons,
+        count: result.items.length,
+        resources: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listLogGroups(region: string, credentials: any, prefix?: string, maxResults?: number): Promise<CallToolResult> {
-  const client = new CloudWatchLogsClient({ region, credentials });
-  const command = new DescribeLogGroupsCommand({
-    logGroupNamePrefix: prefix,
-    limit: maxResults,
+async function listLogGroups(region: string, credentials: any, page: PaginationParams, prefix?: string): Promise<CallToolResult> {
+  const client = awsClientFactory.getCloudWatchLogsClient(region, credentials);
+  const result = await paginate('list-resources:log-groups', page, async (nextToken) => {
+    const response = await client.send(new DescribeLogGroupsCommand({
+      logGroupNamePrefix: prefix,
+      limit: page.maxResults,
+      nextToken,
+    }));
+    return { items: response.logGroups, nextToken: response.nextToken };
   });
-  const response = await client.send(command);
 
   return {
     content: [{
@@ -517,29 +682,33 @@ async function listLogGroups(region: string, credentials: any, prefix?: string,
       text: JSON.stringify({
         success: true,
         resourceType: 'log-groups',
-        count: response.logGroups?.length || 0,
-        resources: response.logGroups?.map(lg => ({
+        count: result.items.length,
+        resources: result.items.map(lg => ({
           logGroupName: lg.logGroupName,
           creationTime: lg.creationTime,
           storedBytes: lg.storedBytes,
           retentionInDays: lg.retentionInDays,
         })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listLogStreams(region: string, credentials: any, logGroupName?: string, maxResults?: number): Promise<CallToolResult> {
+async function listLogStreams(region: string, credentials: any, page: PaginationParams, logGroupName?: string): Promise<CallToolResult> {
   if (!logGroupName) {
     throw new Error('logGroupName is required in filters for listing log streams');
   }
 
-  const client = new CloudWatchLogsClient({ region, credentials });
-  const command = new DescribeLogStreamsCommand({
-    logGroupName,
-    limit: maxResults,
+  const client = awsClientFactory.getCloudWatchLogsClient(region, credentials);
+  const result = await paginate('list-resources:log-streams', page, async (nextToken) => {
+    const response = await client.send(new DescribeLogStreamsCommand({
+      logGroupName,
+      limit: page.maxResults,
+      nextToken,
+    }));
+    return { items: response.logStreams, nextToken: response.nextToken };
   });
-  const response = await client.send(command);
 
   return {
     content: [{
@@ -548,14 +717,144 @@ async function listLogStreams(region: string, credentials: any, logGroupName?: s
         success: true,
         resourceType: 'log-streams',
         logGroupName,
-        count: response.logStreams?.length || 0,
-        resources: response.logStreams?.map(ls => ({
+        count: result.items.length,
+        resources: result.items.map(ls => ({
           logStreamName: ls.logStreamName,
           creationTime: ls.creationTime,
           firstEventTimestamp: ls.firstEventTimestamp,
           lastEventTimestamp: ls.lastEventTimestamp,
           lastIngestionTime: ls.lastIngestionTime,
         })),
+        ...pageInfo(result),
+      }, null, 2),
+    }],
+  };
+}
+
+async function listS3Buckets(region: string, credentials: any, page: PaginationParams, filters?: any): Promise<CallToolResult> {
+  // ListBuckets is global; filters.region narrows it to buckets in one region
+  const client = awsClientFactory.getS3Client(region, credentials);
+  const result = await paginate('list-resources:s3-buckets', page, async (ContinuationToken) => {
+    const response = await client.send(new ListBucketsCommand({
+      MaxBuckets: page.maxResults,
+      ContinuationToken,
+      Prefix: filters?.prefix,
+      BucketRegion: filters?.region,
+    }));
+    return { items: response.Buckets, nextToken: response.ContinuationToken };
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 's3-buckets',
+        count: result.items.length,
+        resources: result.items.map(b => ({
+          bucketName: b.Name,
+          bucketRegion: b.BucketRegion,
+          creationDate: b.CreationDate,
+        })),
+        ...pageInfo(result),
+      }, null, 2),
+    }],
+  };
+}
+
+async function listLambdaFunctions(region: string, credentials: any, page: PaginationParams, filters?: any): Promise<CallToolResult> {
+  // ListFunctions has no server-side filters, so prefix and runtime are applied per page
+  const client = awsClientFactory.getLambdaClient(region, credentials);
+  const result = await paginate('list-resources:lambda-functions', page, async (Marker) => {
+    const response = await client.send(new ListFunctionsCommand({ MaxItems: page.maxResults, Marker }));
+    return {
+      items: response.Functions?.filter(fn =>
+        (!filters?.prefix || fn.FunctionName?.startsWith(filters.prefix)) &&
+        (!filters?.runtime || fn.Runtime === filters.runtime)
+      ),
+      nextToken: response.NextMarker,
+    };
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 'lambda-functions',
+        count: result.items.length,
+        resources: result.items.map(fn => ({
+          functionName: fn.FunctionName,
+          runtime: fn.Runtime,
+          handler: fn.Handler,
+          memorySize: fn.MemorySize,
+          timeout: fn.Timeout,
+          lastModified: fn.LastModified,
+          state: fn.State,
+        })),
+        ...pageInfo(result),
+      }, null, 2),
+    }],
+  };
+}
+
+async function listSecrets(region: string, credentials: any, page: PaginationParams, prefix?: string): Promise<CallToolResult> {
+  const client = awsClientFactory.getSecretsManagerClient(region, credentials);
+  const result = await paginate('list-resources:secrets', page, async (NextToken) => {
+    const response = await client.send(new ListSecretsCommand({
+      MaxResults: page.maxResults,
+      NextToken,
+      Filters: prefix ? [{ Key: 'name', Values: [prefix] }] : undefined,
+    }));
+    return { items: response.SecretList, nextToken: response.NextToken };
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 'secrets',
+        count: result.items.length,
+        resources: result.items.map(secret => ({
+          name: secret.Name,
+          arn: secret.ARN,
+          description: secret.Description,
+          lastChangedDate: secret.LastChangedDate,
+          rotationEnabled: secret.RotationEnabled,
+        })),
+        ...pageInfo(result),
+      }, null, 2),
+    }],
+  };
+}
+
+async function listParameters(region: string, credentials: any, page: PaginationParams, prefix?: string): Promise<CallToolResult> {
+  const client = awsClientFactory.getSSMClient(region, credentials);
+  const result = await paginate('list-resources:parameters', page, async (NextToken) => {
+    const response = await client.send(new DescribeParametersCommand({
+      MaxResults: page.maxResults,
+      NextToken,
+      ParameterFilters: prefix ? [{ Key: 'Name', Option: 'BeginsWith', Values: [prefix] }] : undefined,
+    }));
+    return { items: response.Parameters, nextToken: response.NextToken };
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        resourceType: 'parameters',
+        count: result.items.length,
+        resources: result.items.map(param => ({
+          name: param.Name,
+          type: param.Type,
+          version: param.Version,
+          lastModifiedDate: param.LastModifiedDate,
+          description: param.Description,
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
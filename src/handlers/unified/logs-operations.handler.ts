@@ -13,7 +13,9 @@ import {
   GetQueryResultsCommand,
 } from '@aws-sdk/client-cloudwatch-logs';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { paginate, pageInfo } from '../../utils';
+import { ToolDefinition, ToolOperation } from '../../tools/tool-registry';
 
 interface LogsOperationsArgs {
   operation: string;
@@ -24,52 +26,122 @@ interface LogsOperationsArgs {
   startTime?: string;
   endTime?: string;
   limit?: number;
+  nextToken?: string;
+  all?: boolean;
   region?: string;
   profile?: string;
 }
 
-export async function handleLogsOperations(args: LogsOperationsArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
+/**
+ * aws-logs-operations: read-only CloudWatch Logs operations
+ */
+export const logsOperationsTool: ToolDefinition<LogsOperationsArgs> = {
+  name: 'aws-logs-operations',
+  description: 'CloudWatch Logs operations: list groups/streams, get events, tail logs, filter, run Insights queries',
+  properties: {
+    operation: {
+      type: 'string',
+      description: 'CloudWatch Logs operation',
+    },
+    logGroup: {
+      type: 'string',
+      description: 'Log group name (required for most operations)',
+    },
+    logStream: {
+      type: 'string',
+      description: 'Log stream name (required for get-events)',
+    },
+    query: {
+      type: 'string',
+      description: 'Filter pattern or Insights query',
+    },
+    startTime: {
+      type: 'string',
+      description: 'Start time (ISO 8601 or epoch ms)',
+    },
+    endTime: {
+      type: 'string',
+      description: 'End time (ISO 8601 or epoch ms)',
+    },
+    limit: {
+      type: 'number',
+      description: 'Maximum number of results per page',
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+  },
+  required: ['operation'],
+  classify: args => ({ operation: args.operation, resourceType: 'log-groups' }),
+  operations: [
+    {
+      match: { operation: 'list-groups' },
+      iamActions: ['logs:DescribeLogGroups'],
+      run: onLogs(listLogGroups),
+    },
+    {
+      match: { operation: 'list-streams' },
+      iamActions: ['logs:DescribeLogStreams'],
+      required: ['logGroup'],
+      run: onLogs(listLogStreams),
+    },
+    {
+      match: { operation: 'get-events' },
+      iamActions: ['logs:GetLogEvents'],
+      required: ['logGroup', 'logStream'],
+      run: onLogs(getLogEvents),
+    },
+    {
+      match: { operation: 'tail' },
+      iamActions: ['logs:DescribeLogStreams', 'logs:GetLogEvents'],
+      required: ['logGroup'],
+      run: onLogs(tailLogs),
+    },
+    {
+      match: { operation: 'filter' },
+      iamActions: ['logs:FilterLogEvents'],
+      required: ['logGroup'],
+      run: onLogs(filterLogEvents),
+    },
+    {
+      match: { operation: 'insights-query' },
+      iamActions: ['logs:StartQuery'],
+      required: ['logGroup', 'query'],
+      run: onLogs(startInsightsQuery),
+    },
+    {
+      match: { operation: 'insights-results' },
+      iamActions: ['logs:GetQueryResults'],
+      required: ['queryId'],
+      properties: {
+        queryId: {
+          type: 'string',
+          description: 'Query ID (for insights-results)',
+        },
+      },
+      run: onLogs(getInsightsResults),
+    },
+  ],
+};
 
-  const credentials = credResult.credentials!;
-
-  const client = new CloudWatchLogsClient({ region, credentials });
-
-  // Route to appropriate operation
-  switch (args.operation) {
-    case 'list-groups':
-      return await listLogGroups(client, args);
-    
-    case 'list-streams':
-      return await listLogStreams(client, args);
-    
-    case 'get-events':
-      return await getLogEvents(client, args);
-    
-    case 'tail':
-      return await tailLogs(client, args);
-    
-    case 'filter':
-      return await filterLogEvents(client, args);
-    
-    case 'insights-query':
-      return await startInsightsQuery(client, args);
-    
-    case 'insights-results':
-      return await getInsightsResults(client, args);
-    
-    default:
-      throw new Error(`Unsupported logs operation: ${args.operation}`);
-  }
+/**
+ * Run a logs operation with the client of the call's region
+ */
+function onLogs(run: (client: CloudWatchLogsClient, args: LogsOperationsArgs) => Promise<CallToolResult>): ToolOperation<LogsOperationsArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getCloudWatchLogsClient(region, credentials), args);
 }
 
 // ============================================================================
@@ -87,7 +159,10 @@ async function listLogGroups(client: CloudWatchLogsClient, args: LogsOperationsA
     params.limit = args.limit;
   }
 
-  const response = await client.send(new DescribeLogGroupsCommand(params));
+  const result = await paginate('logs-operations:list-groups', args, async (nextToken) => {
+    const response = await client.send(new DescribeLogGroupsCommand({ ...params, nextToken }));
+    return { items: response.logGroups, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -95,14 +170,15 @@ async function listLogGroups(client: CloudWatchLogsClient, args: LogsOperationsA
       text: JSON.stringify({
         success: true,
         operation: 'list-groups',
-        count: response.logGroups?.length || 0,
-        logGroups: response.logGroups?.map(group => ({
+        count: result.items.length,
+        logGroups: result.items.map(group => ({
           name: group.logGroupName,
           arn: group.arn,
           creationTime: group.creationTime,
           storedBytes: group.storedBytes,
           retentionInDays: group.retentionInDays,
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -129,7 +205,10 @@ async function listLogStreams(client: CloudWatchLogsClient, args: LogsOperations
     params.limit = args.limit;
   }
 
-  const response = await client.send(new DescribeLogStreamsCommand(params));
+  const result = await paginate('logs-operations:list-streams', args, async (nextToken) => {
+    const response = await client.send(new DescribeLogStreamsCommand({ ...params, nextToken }));
+    return { items: response.logStreams, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -138,15 +217,16 @@ async function listLogStreams(client: CloudWatchLogsClient, args: LogsOperations
         success: true,
         operation: 'list-streams',
         logGroup: args.logGroup,
-        count: response.logStreams?.length || 0,
-        logStreams: response.logStreams?.map(stream => ({
+        count: result.items.length,
+        logStreams: result.items.map(stream => ({
           name: stream.logStreamName,
           creationTime: stream.creationTime,
           firstEventTimestamp: stream.firstEventTimestamp,
           lastEventTimestamp: stream.lastEventTimestamp,
           lastIngestionTime: stream.lastIngestionTime,
           storedBytes: stream.storedBytes,
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -165,9 +245,11 @@ async function getLogEvents(client: CloudWatchLogsClient, args: LogsOperationsAr
     throw new Error('logStream is required for get-events operation');
   }
 
+  // Read forward from the start of the range so nextToken continues with newer events
   const params: any = {
     logGroupName: args.logGroup,
     logStreamName: args.logStream,
+    startFromHead: true,
   };
 
   // Parse timestamps (ISO 8601 or epoch milliseconds)
@@ -183,7 +265,10 @@ async function getLogEvents(client: CloudWatchLogsClient, args: LogsOperationsAr
     params.limit = args.limit;
   }
 
-  const response = await client.send(new GetLogEventsCommand(params));
+  const result = await paginate('logs-operations:get-events', args, async (nextToken) => {
+    const response = await client.send(new GetLogEventsCommand({ ...params, nextToken }));
+    return { items: response.events, nextToken: response.nextForwardToken };
+  });
 
   return {
     content: [{
@@ -193,14 +278,13 @@ async function getLogEvents(client: CloudWatchLogsClient, args: LogsOperationsAr
         operation: 'get-events',
         logGroup: args.logGroup,
         logStream: args.logStream,
-        count: response.events?.length || 0,
-        events: response.events?.map(event => ({
+        count: result.items.length,
+        events: result.items.map(event => ({
           timestamp: new Date(event.timestamp!).toISOString(),
           message: event.message,
           ingestionTime: event.ingestionTime,
-        })) || [],
-        nextForwardToken: response.nextForwardToken,
-        nextBackwardToken: response.nextBackwardToken,
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -301,7 +385,12 @@ async function filterLogEvents(client: CloudWatchLogsClient, args: LogsOperation
     params.limit = args.limit;
   }
 
-  const response = await client.send(new FilterLogEventsCommand(params));
+  const searchedLogStreams: any[] = [];
+  const result = await paginate('logs-operations:filter', args, async (nextToken) => {
+    const response = await client.send(new FilterLogEventsCommand({ ...params, nextToken }));
+    searchedLogStreams.push(...(response.searchedLogStreams || []));
+    return { items: response.events, nextToken: response.nextToken };
+  });
 
   return {
     content: [{
@@ -311,15 +400,15 @@ async function filterLogEvents(client: CloudWatchLogsClient, args: LogsOperation
         operation: 'filter',
         logGroup: args.logGroup,
         filterPattern: args.query || 'none',
-        count: response.events?.length || 0,
-        events: response.events?.map(event => ({
+        count: result.items.length,
+        events: result.items.map(event => ({
           logStreamName: event.logStreamName,
           timestamp: new Date(event.timestamp!).toISOString(),
           message: event.message,
           eventId: event.eventId,
-        })) || [],
-        nextToken: response.nextToken,
-        searchedLogStreams: response.searchedLogStreams,
+        })),
+        ...pageInfo(result),
+        searchedLogStreams: searchedLogStreams.length > 0 ? searchedLogStreams : undefined,
       }, null, 2),
     }],
   };
@@ -20,7 +20,9 @@ import {
   DescribeParametersCommand,
 } from '@aws-sdk/client-ssm';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { paginate, pageInfo } from '../../utils';
+import { ToolDefinition, ToolOperation } from '../../tools/tool-registry';
 
 interface ManageSecretsArgs {
   service: string;
@@ -30,66 +32,167 @@ interface ManageSecretsArgs {
   secretValue?: string;
   parameterType?: string;
   withDecryption?: boolean;
+  nextToken?: string;
+  all?: boolean;
   region?: string;
   profile?: string;
 }
 
-export async function handleManageSecrets(args: ManageSecretsArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
+/**
+ * aws-manage-secrets: operations per service; writes drop the cached secret and parameter listings
+ */
+export const manageSecretsTool: ToolDefinition<ManageSecretsArgs> = {
+  name: 'aws-manage-secrets',
+  description: 'Manage secrets and parameters: AWS Secrets Manager and Systems Manager Parameter Store',
+  properties: {
+    service: {
+      type: 'string',
+      description: 'Service to use',
+    },
+    operation: {
+      type: 'string',
+      description: 'Operation to perform',
+    },
+    secretId: {
+      type: 'string',
+      description: 'Secret ID/name (for Secrets Manager)',
+    },
+    parameterName: {
+      type: 'string',
+      description: 'Parameter name/path (for Parameter Store)',
+    },
+    secretValue: {
+      type: 'string',
+      description: 'Secret/parameter value (for create/update)',
+    },
+    withDecryption: {
+      type: 'boolean',
+      description: 'Decrypt SecureString parameters (default: true)',
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+  },
+  required: ['parameterName'],
+  classify: args => ({ operation: args.operation, resourceType: args.service }),
+  operations: [
+    {
+      match: { service: 'secrets-manager', operation: 'get' },
+      iamActions: ['secretsmanager:GetSecretValue'],
+      required: ['secretId'],
+      run: onSecretsManager(getSecret),
+    },
+    {
+      match: { service: 'secrets-manager', operation: 'list' },
+      iamActions: ['secretsmanager:ListSecrets'],
+      run: onSecretsManager(listSecrets),
+    },
+    {
+      match: { service: 'secrets-manager', operation: 'create' },
+      iamActions: ['secretsmanager:CreateSecret'],
+      mutating: true,
+      required: ['secretId', 'secretValue'],
+      invalidates: 'secret',
+      run: onSecretsManager(createSecret),
+    },
+    {
+      match: { service: 'secrets-manager', operation: 'update' },
+      iamActions: ['secretsmanager:UpdateSecret'],
+      mutating: true,
+      required: ['secretId', 'secretValue'],
+      invalidates: 'secret',
+      run: onSecretsManager(updateSecret),
+    },
+    {
+      match: { service: 'secrets-manager', operation: 'delete' },
+      iamActions: ['secretsmanager:DeleteSecret'],
+      mutating: true,
+      required: ['secretId'],
+      invalidates: 'secret',
+      run: onSecretsManager(deleteSecret),
+    },
+    {
+      match: { service: 'parameter-store', operation: 'get' },
+      iamActions: ['ssm:GetParameter'],
+      required: ['parameterName'],
+      run: onParameterStore(getParameter),
+    },
+    {
+      match: { service: 'parameter-store', operation: 'get-by-path' },
+      iamActions: ['ssm:GetParametersByPath'],
+      required: ['parameterName'],
+      run: onParameterStore(getParametersByPath),
+    },
+    {
+      match: { service: 'parameter-store', operation: 'list' },
+      iamActions: ['ssm:DescribeParameters'],
+      run: onParameterStore(listParameters),
+    },
+    {
+      match: { service: 'parameter-store', operation: 'create' },
+      iamActions: ['ssm:PutParameter'],
+      mutating: true,
+      required: ['parameterName', 'secretValue'],
+      invalidates: 'parameter',
+      properties: {
+        parameterType: {
+          type: 'string',
+          enum: ['String', 'StringList', 'SecureString'],
+          description: 'Parameter type (for Parameter Store)',
+        },
+      },
+      run: onParameterStore(putParameter),
+    },
+    {
+      match: { service: 'parameter-store', operation: 'update' },
+      iamActions: ['ssm:PutParameter'],
+      mutating: true,
+      required: ['parameterName', 'secretValue'],
+      invalidates: 'parameter',
+      run: onParameterStore(putParameter),
+    },
+    {
+      match: { service: 'parameter-store', operation: 'delete' },
+      iamActions: ['ssm:DeleteParameter'],
+      mutating: true,
+      required: ['parameterName'],
+      invalidates: 'parameter',
+      run: onParameterStore(deleteParameter),
+    },
+  ],
+};
 
-  const credentials = credResult.credentials!;
+/**
+ * Run a Secrets Manager operation with the client of the call's region
+ */
+function onSecretsManager(run: (client: SecretsManagerClient, args: ManageSecretsArgs) => Promise<CallToolResult>): ToolOperation<ManageSecretsArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getSecretsManagerClient(region, credentials), args);
+}
 
-  // Route to appropriate service
-  if (args.service === 'secrets-manager') {
-    return await handleSecretsManager(region, credentials, args);
-  } else if (args.service === 'parameter-store') {
-    return await handleParameterStore(region, credentials, args);
-  } else {
-    throw new Error(`Unsupported service: ${args.service}`);
-  }
+/**
+ * Run a Parameter Store operation with the client of the call's region
+ */
+function onParameterStore(run: (client: SSMClient, args: ManageSecretsArgs) => Promise<CallToolResult>): ToolOperation<ManageSecretsArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getSSMClient(region, credentials), args);
 }
 
 // ============================================================================
 // Secrets Manager Operations
 // ============================================================================
 
-async function handleSecretsManager(
-  region: string,
-  credentials: any,
-  args: ManageSecretsArgs
-): Promise<CallToolResult> {
-  const client = new SecretsManagerClient({ region, credentials });
-
-  switch (args.operation) {
-    case 'get':
-      return await getSecret(client, args);
-    
-    case 'list':
-      return await listSecrets(client);
-    
-    case 'create':
-      return await createSecret(client, args);
-    
-    case 'update':
-      return await updateSecret(client, args);
-    
-    case 'delete':
-      return await deleteSecret(client, args);
-    
-    default:
-      throw new Error(`Unsupported Secrets Manager operation: ${args.operation}`);
-  }
-}
-
 async function getSecret(client: SecretsManagerClient, args: ManageSecretsArgs): Promise<CallToolResult> {
   if (!args.secretId) {
     throw new Error('secretId is required for get operation');
@@ -119,8 +222,11 @@ async function getSecret(client: SecretsManagerClient, args: ManageSecretsArgs):
   };
 }
 
-async function listSecrets(client: SecretsManagerClient): Promise<CallToolResult> {
-  const response = await client.send(new ListSecretsCommand({}));
+async function listSecrets(client: SecretsManagerClient, args: ManageSecretsArgs): Promise<CallToolResult> {
+  const result = await paginate('manage-secrets:secrets', args, async (NextToken) => {
+    const response = await client.send(new ListSecretsCommand({ NextToken }));
+    return { items: response.SecretList, nextToken: response.NextToken };
+  });
 
   return {
     content: [{
@@ -129,15 +235,16 @@ async function listSecrets(client: SecretsManagerClient): Promise<CallToolResult
         success: true,
         service: 'secrets-manager',
         operation: 'list',
-        count: response.SecretList?.length || 0,
-        secrets: response.SecretList?.map((secret: any) => ({
+        count: result.items.length,
+        secrets: result.items.map((secret: any) => ({
           arn: secret.ARN,
           name: secret.Name,
           description: secret.Description,
           lastChangedDate: secret.LastChangedDate,
           lastAccessedDate: secret.LastAccessedDate,
           tags: secret.Tags,
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -237,35 +344,6 @@ async function deleteSecret(client: SecretsManagerClient, args: ManageSecretsArg
 // Parameter Store Operations
 // ============================================================================
 
-async function handleParameterStore(
-  region: string,
-  credentials: any,
-  args: ManageSecretsArgs
-): Promise<CallToolResult> {
-  const client = new SSMClient({ region, credentials });
-
-  switch (args.operation) {
-    case 'get':
-      return await getParameter(client, args);
-    
-    case 'get-by-path':
-      return await getParametersByPath(client, args);
-    
-    case 'list':
-      return await listParameters(client);
-    
-    case 'create':
-    case 'update':
-      return await putParameter(client, args);
-    
-    case 'delete':
-      return await deleteParameter(client, args);
-    
-    default:
-      throw new Error(`Unsupported Parameter Store operation: ${args.operation}`);
-  }
-}
-
 async function getParameter(client: SSMClient, args: ManageSecretsArgs): Promise<CallToolResult> {
   if (!args.parameterName) {
     throw new Error('parameterName is required for get operation');
@@ -301,11 +379,15 @@ async function getParametersByPath(client: SSMClient, args: ManageSecretsArgs):
     throw new Error('parameterName (path) is required for get-by-path operation');
   }
 
-  const response = await client.send(new GetParametersByPathCommand({
-    Path: args.parameterName,
-    Recursive: true,
-    WithDecryption: args.withDecryption ?? true,
-  }));
+  const result = await paginate('manage-secrets:parameters-by-path', args, async (NextToken) => {
+    const response = await client.send(new GetParametersByPathCommand({
+      Path: args.parameterName,
+      Recursive: true,
+      WithDecryption: args.withDecryption ?? true,
+      NextToken,
+    }));
+    return { items: response.Parameters, nextToken: response.NextToken };
+  });
 
   return {
     content: [{
@@ -315,22 +397,26 @@ async function getParametersByPath(client: SSMClient, args: ManageSecretsArgs):
         service: 'parameter-store',
         operation: 'get-by-path',
         path: args.parameterName,
-        count: response.Parameters?.length || 0,
-        parameters: response.Parameters?.map((param: any) => ({
+        count: result.items.length,
+        parameters: result.items.map((param: any) => ({
           name: param.Name,
           type: param.Type,
           value: param.Value,
           version: param.Version,
           lastModifiedDate: param.LastModifiedDate,
           arn: param.ARN,
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
 
-async function listParameters(client: SSMClient): Promise<CallToolResult> {
-  const response = await client.send(new DescribeParametersCommand({}));
+async function listParameters(client: SSMClient, args: ManageSecretsArgs): Promise<CallToolResult> {
+  const result = await paginate('manage-secrets:parameters', args, async (NextToken) => {
+    const response = await client.send(new DescribeParametersCommand({ NextToken }));
+    return { items: response.Parameters, nextToken: response.NextToken };
+  });
 
   return {
     content: [{
@@ -339,8 +425,8 @@ async function listParameters(client: SSMClient): Promise<CallToolResult> {
         success: true,
         service: 'parameter-store',
         operation: 'list',
-        count: response.Parameters?.length || 0,
-        parameters: response.Parameters?.map((param: any) => ({
+        count: result.items.length,
+        parameters: result.items.map((param: any) => ({
           name: param.Name,
           type: param.Type,
           keyId: param.KeyId,
@@ -348,7 +434,8 @@ async function listParameters(client: SSMClient): Promise<CallToolResult> {
           lastModifiedUser: param.LastModifiedUser,
           description: param.Description,
           version: param.Version,
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
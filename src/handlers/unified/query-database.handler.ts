@@ -15,7 +15,9 @@ import {
   ExecuteStatementCommand,
 } from '@aws-sdk/client-rds-data';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { ErrorHandler } from '../../utils';
+import { ToolDefinition, ToolOperation } from '../../tools/tool-registry';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 
 interface QueryDatabaseArgs {
@@ -28,59 +30,130 @@ interface QueryDatabaseArgs {
   profile?: string;
 }
 
-export async function handleQueryDatabase(args: QueryDatabaseArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
+/**
+ * SQL statements that only read data. WITH is not one of them: a CTE can wrap DELETE ... RETURNING
+ */
+const READ_ONLY_SQL = /^(select|show|describe|desc|explain)\b/i;
 
-  const credentials = credResult.credentials!;
+/**
+ * String literals, quoted identifiers and comments, which can hide separators and keywords
+ */
+const SQL_LITERALS = /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|--[^\n]*|\/\*[\s\S]*?\*\//g;
 
-  // Route to appropriate handler based on database type and operation
-  if (args.databaseType === 'dynamodb') {
-    return await handleDynamoDBOperation(region, credentials, args);
-  } else if (args.databaseType === 'rds') {
-    return await handleRDSOperation(region, credentials, args);
-  } else {
-    throw new Error(`Unsupported database type: ${args.databaseType}`);
-  }
+/**
+ * Keywords that write, lock or run other code wherever they appear in a statement
+ * (SELECT ... INTO, SELECT ... FOR UPDATE / FOR SHARE, a DELETE inside a subquery)
+ */
+const WRITE_SQL = /\b(into|insert|update|delete|merge|create|drop|alter|truncate|grant|revoke|call|exec|execute|copy|lock)\b|\bfor\s+(key\s+)?share\b/i;
+
+/**
+ * Functions with side effects that a SELECT can call (sessions, settings, sequences, locks, files, remote statements)
+ */
+const SIDE_EFFECT_SQL = /\b(pg_terminate_backend|pg_cancel_backend|pg_reload_conf|pg_rotate_logfile|pg_switch_wal|pg_promote|pg_create_restore_point|pg_(try_)?advisory_\w+|pg_file_\w+|set_config|nextval|setval|lo_\w+|dblink\w*|get_lock|release_lock|release_all_locks|sys_exec|sys_eval)\s*\(/i;
+
+/**
+ * Whether a statement only reads data: a single read-only statement that neither writes its result
+ * (SELECT ... INTO), locks rows, calls a side-effecting function nor runs another statement (EXPLAIN ANALYZE).
+ * Anything unrecognized counts as a write
+ */
+function isReadOnlySql(sql: string): boolean {
+  // Quoted identifiers keep their name (a quoted function is still called); literals and comments are dropped
+  const code = sql
+    .replace(SQL_LITERALS, token => /^["`]/.test(token) ? ` ${token.slice(1, -1).replace(/\W/g, '_')} ` : ' ')
+    .trim()
+    .replace(/;\s*$/, '');
+  return READ_ONLY_SQL.test(code)
+    && !code.includes(';')
+    && !WRITE_SQL.test(code)
+    && !SIDE_EFFECT_SQL.test(code)
+    && !/^explain\s+(\(|analy[sz]e\b)/i.test(code);
+}
+
+/**
+ * aws-query-database: DynamoDB reads and RDS Data API statements (which can write)
+ */
+export const queryDatabaseTool: ToolDefinition<QueryDatabaseArgs> = {
+  name: 'aws-query-database',
+  description: 'Query databases: DynamoDB (query/scan), RDS (execute SQL), batch operations',
+  properties: {
+    databaseType: {
+      type: 'string',
+      description: 'Database service type',
+    },
+    operation: {
+      type: 'string',
+      description: 'Database operation to perform',
+    },
+    tableName: {
+      type: 'string',
+      description: 'Table name (for DynamoDB)',
+    },
+    databaseName: {
+      type: 'string',
+      description: 'Database name (for RDS)',
+    },
+    queryParams: {
+      type: 'object',
+      description: 'Query parameters: conditions, filters, projections, SQL statement',
+      additionalProperties: true,
+    },
+    region: {
+      type: 'string',
+      description: 'AWS region (optional)',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+  },
+  required: ['databaseType', 'operation'],
+  classify: args => ({ operation: args.operation, resourceType: args.databaseType }),
+  operations: [
+    {
+      match: { databaseType: 'dynamodb', operation: 'query' },
+      iamActions: ['dynamodb:Query'],
+      required: ['tableName'],
+      run: onDynamoDB(dynamoDBQuery),
+    },
+    {
+      match: { databaseType: 'dynamodb', operation: 'scan' },
+      iamActions: ['dynamodb:Scan'],
+      required: ['tableName'],
+      run: onDynamoDB(dynamoDBScan),
+    },
+    {
+      match: { databaseType: 'dynamodb', operation: 'get-item' },
+      iamActions: ['dynamodb:GetItem'],
+      required: ['tableName', 'queryParams.key'],
+      run: onDynamoDB(dynamoDBGetItem),
+    },
+    {
+      match: { databaseType: 'dynamodb', operation: 'batch-get' },
+      iamActions: ['dynamodb:BatchGetItem'],
+      required: ['tableName', 'queryParams.keys'],
+      run: onDynamoDB(dynamoDBBatchGet),
+    },
+    {
+      match: { databaseType: 'rds', operation: 'execute-sql' },
+      iamActions: ['rds-data:ExecuteStatement', 'secretsmanager:GetSecretValue'],
+      mutating: args => typeof args.queryParams?.sql !== 'string' || !isReadOnlySql(args.queryParams.sql),
+      required: ['queryParams.resourceArn', 'queryParams.secretArn', 'queryParams.sql'],
+      run: (args, { region, credentials }) => rdsExecuteSQL(awsClientFactory.getRDSDataClient(region, credentials), args),
+    },
+  ],
+};
+
+/**
+ * Run a DynamoDB operation with the client of the call's region
+ */
+function onDynamoDB(run: (client: DynamoDBClient, args: QueryDatabaseArgs) => Promise<CallToolResult>): ToolOperation<QueryDatabaseArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getDynamoDBClient(region, credentials), args);
 }
 
 // ============================================================================
 // DynamoDB Operations
 // ============================================================================
 
-async function handleDynamoDBOperation(
-  region: string,
-  credentials: any,
-  args: QueryDatabaseArgs
-): Promise<CallToolResult> {
-  const client = new DynamoDBClient({ region, credentials });
-
-  switch (args.operation) {
-    case 'query':
-      return await dynamoDBQuery(client, args);
-    
-    case 'scan':
-      return await dynamoDBScan(client, args);
-    
-    case 'get-item':
-      return await dynamoDBGetItem(client, args);
-    
-    case 'batch-get':
-      return await dynamoDBBatchGet(client, args);
-    
-    default:
-      throw new Error(`Unsupported DynamoDB operation: ${args.operation}`);
-  }
-}
-
 async function dynamoDBQuery(client: DynamoDBClient, args: QueryDatabaseArgs): Promise<CallToolResult> {
   if (!args.tableName) {
     throw new Error('tableName is required for DynamoDB query operation');
@@ -305,22 +378,6 @@ async function dynamoDBBatchGet(client: DynamoDBClient, args: QueryDatabaseArgs)
 // RDS Operations
 // ============================================================================
 
-async function handleRDSOperation(
-  region: string,
-  credentials: any,
-  args: QueryDatabaseArgs
-): Promise<CallToolResult> {
-  const client = new RDSDataClient({ region, credentials });
-
-  switch (args.operation) {
-    case 'execute-sql':
-      return await rdsExecuteSQL(client, args);
-    
-    default:
-      throw new Error(`Unsupported RDS operation: ${args.operation}`);
-  }
-}
-
 async function rdsExecuteSQL(client: RDSDataClient, args: QueryDatabaseArgs): Promise<CallToolResult> {
   const params = args.queryParams || {};
   
@@ -363,17 +420,9 @@ async function rdsExecuteSQL(client: RDSDataClient, args: QueryDatabaseArgs): Pr
       }],
     };
   } catch (error: any) {
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          success: false,
-          operation: 'execute-sql',
-          error: error.message,
-          note: 'RDS Data API requires Aurora Serverless or Aurora with Data API enabled',
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return ErrorHandler.toToolResult(error, { operation: 'execute-sql' }, {
+      operation: 'execute-sql',
+      note: 'RDS Data API requires Aurora Serverless or Aurora with Data API enabled',
+    });
   }
 }
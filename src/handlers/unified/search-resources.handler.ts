@@ -10,7 +10,10 @@ import {
   GetTagValuesCommand,
 } from '@aws-sdk/client-resource-groups-tagging-api';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { getIntelligentCredentials, getRegion } from '../../utils';
+import { PaginationParams } from '../../models';
+import { awsClientFactory } from '../../services/aws-client.factory';
+import { paginate, pageInfo } from '../../utils';
+import { ToolDefinition, ToolOperation } from '../../tools/tool-registry';
 
 interface SearchResourcesArgs {
   searchType: string;
@@ -21,50 +24,119 @@ interface SearchResourcesArgs {
   region?: string;
   profile?: string;
   filters?: Record<string, any>;
+  nextToken?: string;
+  all?: boolean;
 }
 
-export async function handleSearchResources(args: SearchResourcesArgs): Promise<CallToolResult> {
-  // Get credentials intelligently
-  const region = getRegion(args.region);
-  const credResult = await getIntelligentCredentials(args.profile, region);
-  
-  if (credResult.needsConfiguration) {
-    return {
-      content: [{ type: 'text', text: credResult.message || 'AWS credentials not configured.' }],
-      isError: false,
-    };
-  }
+/**
+ * aws-search-resources: read-only Resource Groups Tagging API searches
+ */
+export const searchResourcesTool: ToolDefinition<SearchResourcesArgs> = {
+  name: 'aws-search-resources',
+  description: 'Search and discover AWS resources by service, tags, ARN, or get resource summaries',
+  properties: {
+    searchType: {
+      type: 'string',
+      description: 'Type of search to perform',
+    },
+    tagKey: {
+      type: 'string',
+      description: 'Tag key (for by-tag or tag-values search)',
+    },
+    tagValue: {
+      type: 'string',
+      description: 'Tag value (for by-tag search)',
+    },
+    nextToken: {
+      type: 'string',
+      description: 'Opaque token from a previous response to fetch the next page (optional)',
+    },
+    all: {
+      type: 'boolean',
+      description: 'Follow all pages up to the mcpAwsCli.maxListItems cap (optional, default: false)',
+    },
+    region: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'AWS region, "all" for every enabled region, or a list of regions (optional, uses profile default if not specified). Multi-region results are merged and tagged by region',
+    },
+    profile: {
+      type: 'string',
+      description: 'AWS profile to use (optional)',
+    },
+    profiles: {
+      type: ['string', 'array'],
+      items: { type: 'string' },
+      description: 'Run against several profiles in parallel: "all" (every saved profile) or one or more profile names (optional). Results are grouped by account ID',
+    },
+    filters: {
+      type: 'object',
+      description: 'Additional search filters',
+      additionalProperties: true,
+    },
+  },
+  required: ['searchType'],
+  classify: args => ({ operation: args.searchType }),
+  operations: [
+    {
+      match: { searchType: 'by-service' },
+      iamActions: ['tag:GetResources'],
+      required: ['serviceName'],
+      properties: {
+        serviceName: {
+          type: 'string',
+          description: 'AWS service name (for by-service search)',
+        },
+      },
+      run: onTaggingAPI(searchByService),
+    },
+    {
+      match: { searchType: 'by-tag' },
+      iamActions: ['tag:GetResources'],
+      required: ['tagKey'],
+      run: onTaggingAPI(searchByTag),
+    },
+    {
+      match: { searchType: 'by-arn' },
+      iamActions: ['tag:GetResources'],
+      required: ['arn'],
+      properties: {
+        arn: {
+          type: 'string',
+          description: 'Resource ARN (for by-arn search)',
+        },
+      },
+      run: onTaggingAPI(searchByArn),
+    },
+    {
+      match: { searchType: 'all-resources' },
+      iamActions: ['tag:GetResources'],
+      run: onTaggingAPI(searchAllResources),
+    },
+    {
+      match: { searchType: 'resource-summary' },
+      iamActions: ['tag:GetResources'],
+      run: onTaggingAPI(getResourceSummary),
+    },
+    {
+      match: { searchType: 'tag-keys' },
+      iamActions: ['tag:GetTagKeys'],
+      run: onTaggingAPI(listTagKeys),
+    },
+    {
+      match: { searchType: 'tag-values' },
+      iamActions: ['tag:GetTagValues'],
+      required: ['tagKey'],
+      run: onTaggingAPI(listTagValues),
+    },
+  ],
+};
 
-  const credentials = credResult.credentials!;
-
-  const client = new ResourceGroupsTaggingAPIClient({ region, credentials });
-
-  // Route to appropriate search operation
-  switch (args.searchType) {
-    case 'by-service':
-      return await searchByService(client, args);
-    
-    case 'by-tag':
-      return await searchByTag(client, args);
-    
-    case 'by-arn':
-      return await searchByArn(client, args);
-    
-    case 'all-resources':
-      return await searchAllResources(client, args);
-    
-    case 'resource-summary':
-      return await getResourceSummary(client, args);
-    
-    case 'tag-keys':
-      return await listTagKeys(client);
-    
-    case 'tag-values':
-      return await listTagValues(client, args);
-    
-    default:
-      throw new Error(`Unsupported search type: ${args.searchType}`);
-  }
+/**
+ * Run a search with the Tagging API client of the call's region
+ */
+function onTaggingAPI(run: (client: ResourceGroupsTaggingAPIClient, args: SearchResourcesArgs) => Promise<CallToolResult>): ToolOperation<SearchResourcesArgs>['run'] {
+  return (args, { region, credentials }) => run(awsClientFactory.getResourceGroupsTaggingAPIClient(region, credentials), args);
 }
 
 // ============================================================================
@@ -83,7 +155,7 @@ async function searchByService(
     ResourceTypeFilters: [args.serviceName],
   };
 
-  const response = await client.send(new GetResourcesCommand(params));
+  const result = await getResources(client, 'search-resources:by-service', params, args);
 
   return {
     content: [{
@@ -92,14 +164,15 @@ async function searchByService(
         success: true,
         searchType: 'by-service',
         serviceName: args.serviceName,
-        count: response.ResourceTagMappingList?.length || 0,
-        resources: response.ResourceTagMappingList?.map(resource => ({
+        count: result.items.length,
+        resources: result.items.map(resource => ({
           arn: resource.ResourceARN,
           tags: resource.Tags?.reduce((acc, tag) => ({
             ...acc,
             [tag.Key!]: tag.Value,
           }), {}),
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -134,7 +207,7 @@ async function searchByTag(
     params.ResourceTypeFilters = [args.serviceName];
   }
 
-  const response = await client.send(new GetResourcesCommand(params));
+  const result = await getResources(client, 'search-resources:by-tag', params, args);
 
   return {
     content: [{
@@ -144,14 +217,15 @@ async function searchByTag(
         searchType: 'by-tag',
         tagKey: args.tagKey,
         tagValue: args.tagValue,
-        count: response.ResourceTagMappingList?.length || 0,
-        resources: response.ResourceTagMappingList?.map(resource => ({
+        count: result.items.length,
+        resources: result.items.map(resource => ({
           arn: resource.ResourceARN,
           tags: resource.Tags?.reduce((acc, tag) => ({
             ...acc,
             [tag.Key!]: tag.Value,
           }), {}),
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -230,7 +304,7 @@ async function searchAllResources(
     params.TagFilters = args.filters.tagFilters;
   }
 
-  const response = await client.send(new GetResourcesCommand(params));
+  const result = await getResources(client, 'search-resources:all-resources', params, args);
 
   return {
     content: [{
@@ -238,14 +312,15 @@ async function searchAllResources(
       text: JSON.stringify({
         success: true,
         searchType: 'all-resources',
-        count: response.ResourceTagMappingList?.length || 0,
-        resources: response.ResourceTagMappingList?.map(resource => ({
+        count: result.items.length,
+        resources: result.items.map(resource => ({
           arn: resource.ResourceARN,
           tags: resource.Tags?.reduce((acc, tag) => ({
             ...acc,
             [tag.Key!]: tag.Value,
           }), {}),
-        })) || [],
+        })),
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -259,12 +334,13 @@ async function getResourceSummary(
   client: ResourceGroupsTaggingAPIClient,
   _args: SearchResourcesArgs
 ): Promise<CallToolResult> {
-  const response = await client.send(new GetResourcesCommand({}));
+  // A summary is only meaningful over every page (capped by mcpAwsCli.maxListItems)
+  const result = await getResources(client, 'search-resources:resource-summary', {}, { all: true });
 
   // Group resources by service type
   const summary: Record<string, number> = {};
   
-  response.ResourceTagMappingList?.forEach(resource => {
+  result.items.forEach(resource => {
     // Extract service type from ARN (format: arn:aws:service:region:account:resource)
     const arnParts = resource.ResourceARN?.split(':');
     if (arnParts && arnParts.length >= 3) {
@@ -273,7 +349,7 @@ async function getResourceSummary(
     }
   });
 
-  const totalResources = response.ResourceTagMappingList?.length || 0;
+  const totalResources = result.items.length;
 
   return {
     content: [{
@@ -286,6 +362,7 @@ async function getResourceSummary(
         services: Object.entries(summary)
           .map(([service, count]) => ({ service, count }))
           .sort((a, b) => b.count - a.count),
+        truncated: result.truncated || undefined,
       }, null, 2),
     }],
   };
@@ -295,8 +372,14 @@ async function getResourceSummary(
 // List Tag Keys
 // ============================================================================
 
-async function listTagKeys(client: ResourceGroupsTaggingAPIClient): Promise<CallToolResult> {
-  const response = await client.send(new GetTagKeysCommand({}));
+async function listTagKeys(
+  client: ResourceGroupsTaggingAPIClient,
+  args: SearchResourcesArgs
+): Promise<CallToolResult> {
+  const result = await paginate('search-resources:tag-keys', args, async (PaginationToken) => {
+    const response = await client.send(new GetTagKeysCommand({ PaginationToken }));
+    return { items: response.TagKeys, nextToken: response.PaginationToken };
+  });
 
   return {
     content: [{
@@ -304,8 +387,9 @@ async function listTagKeys(client: ResourceGroupsTaggingAPIClient): Promise<Call
       text: JSON.stringify({
         success: true,
         searchType: 'tag-keys',
-        count: response.TagKeys?.length || 0,
-        tagKeys: response.TagKeys || [],
+        count: result.items.length,
+        tagKeys: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
@@ -323,9 +407,13 @@ async function listTagValues(
     throw new Error('tagKey is required for tag-values search');
   }
 
-  const response = await client.send(new GetTagValuesCommand({
-    Key: args.tagKey,
-  }));
+  const result = await paginate('search-resources:tag-values', args, async (PaginationToken) => {
+    const response = await client.send(new GetTagValuesCommand({
+      Key: args.tagKey,
+      PaginationToken,
+    }));
+    return { items: response.TagValues, nextToken: response.PaginationToken };
+  });
 
   return {
     content: [{
@@ -334,9 +422,29 @@ async function listTagValues(
         success: true,
         searchType: 'tag-values',
         tagKey: args.tagKey,
-        count: response.TagValues?.length || 0,
-        tagValues: response.TagValues || [],
+        count: result.items.length,
+        tagValues: result.items,
+        ...pageInfo(result),
       }, null, 2),
     }],
   };
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * GetResources with PaginationToken handling
+ */
+async function getResources(
+  client: ResourceGroupsTaggingAPIClient,
+  scope: string,
+  params: any,
+  page: PaginationParams
+) {
+  return paginate(scope, page, async (PaginationToken) => {
+    const response = await client.send(new GetResourcesCommand({ ...params, PaginationToken }));
+    return { items: response.ResourceTagMappingList, nextToken: response.PaginationToken };
+  });
+}
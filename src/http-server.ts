@@ -0,0 +1,328 @@
+/**
+ * MCP AWS CLI Server - Streamable HTTP transport
+ * Serves createMCPServer() over MCP Streamable HTTP (JSON and SSE responses) for shared or standalone use
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './utils';
+
+/**
+ * Path of the MCP endpoint
+ */
+const MCP_PATH = '/mcp';
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/**
+ * Longest interval between idle-session sweeps
+ */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * HTTP transport settings
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  token?: string;
+  corsOrigins: string[];
+  sessionIdleTimeoutSeconds: number;
+}
+
+/**
+ * One client session (each gets its own MCP server instance)
+ */
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  openRequests: number;
+}
+
+/**
+ * HTTP settings from the command line (--transport http, --host, --port, --cors-origin, --session-idle-timeout) and environment
+ * (MCP_AWS_CLI_TRANSPORT, MCP_AWS_CLI_HTTP_HOST, MCP_AWS_CLI_HTTP_PORT, MCP_AWS_CLI_HTTP_TOKEN, MCP_AWS_CLI_HTTP_CORS_ORIGINS,
+ * MCP_AWS_CLI_HTTP_SESSION_IDLE_TIMEOUT).
+ * Returns undefined when the stdio transport is selected.
+ */
+export function getHttpServerOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): HttpServerOptions | undefined {
+  const flags = new Map<string, string[]>();
+  for (let i = 0; i < argv.length; i++) {
+    const [name, inline] = argv[i].split('=', 2);
+    if (!name.startsWith('--')) {
+      continue;
+    }
+    const value = inline ?? (argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true');
+    flags.set(name.slice(2), [...(flags.get(name.slice(2)) || []), value]);
+  }
+  const flag = (name: string) => flags.get(name)?.[flags.get(name)!.length - 1];
+
+  const transport = flags.has('http') ? 'http' : flag('transport') || env.MCP_AWS_CLI_TRANSPORT || 'stdio';
+  if (transport !== 'http') {
+    return undefined;
+  }
+
+  const port = parseInt(flag('port') || env.MCP_AWS_CLI_HTTP_PORT || '3000', 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${flag('port') || env.MCP_AWS_CLI_HTTP_PORT}`);
+  }
+
+  const idleTimeout = flag('session-idle-timeout') || env.MCP_AWS_CLI_HTTP_SESSION_IDLE_TIMEOUT || '1800';
+  const sessionIdleTimeoutSeconds = Number(idleTimeout);
+  if (!Number.isInteger(sessionIdleTimeoutSeconds) || sessionIdleTimeoutSeconds < 0) {
+    throw new Error(`Invalid session idle timeout: ${idleTimeout}`);
+  }
+
+  const corsOrigins = [
+    ...(flags.get('cors-origin') || []),
+    ...(env.MCP_AWS_CLI_HTTP_CORS_ORIGINS || '').split(','),
+  ].map(origin => origin.trim()).filter(Boolean);
+
+  return {
+    host: flag('host') || env.MCP_AWS_CLI_HTTP_HOST || '127.0.0.1',
+    port,
+    token: env.MCP_AWS_CLI_HTTP_TOKEN || undefined,
+    corsOrigins,
+    sessionIdleTimeoutSeconds,
+  };
+}
+
+/**
+ * Start the HTTP server; resolves once it listens and returns a function that stops it
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createServer: () => Server
+): Promise<() => Promise<void>> {
+  const loopback = LOOPBACK_HOSTS.includes(options.host);
+  if (!loopback && !options.token) {
+    throw new Error(
+      `Refusing to serve MCP on ${options.host} without authentication. Set MCP_AWS_CLI_HTTP_TOKEN or bind to 127.0.0.1.`
+    );
+  }
+
+  const sessions = new Map<string, HttpSession>();
+  const sweep = startIdleSessionSweep(sessions, options.sessionIdleTimeoutSeconds);
+
+  const httpServer = http.createServer((req, res) => {
+    handleHttpRequest(req, res, options, sessions, createServer).catch(error => {
+      logger.error('HTTP request failed', error as Error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  logger.info(`MCP AWS CLI Server listening on http://${options.host}:${port}${MCP_PATH}`, {
+    auth: options.token ? 'bearer' : 'none',
+    corsOrigins: options.corsOrigins,
+    sessionIdleTimeoutSeconds: options.sessionIdleTimeoutSeconds,
+  });
+
+  return async () => {
+    clearInterval(sweep);
+    for (const session of sessions.values()) {
+      await session.server.close();
+    }
+    sessions.clear();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  };
+}
+
+async function handleHttpRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  options: HttpServerOptions,
+  sessions: Map<string, HttpSession>,
+  createServer: () => Server
+): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (!applyCors(req, res, options)) {
+    sendJsonRpcError(res, 403, -32000, 'Origin not allowed');
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (url.pathname === '/health' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+    return;
+  }
+  if (url.pathname !== MCP_PATH) {
+    sendJsonRpcError(res, 404, -32000, 'Not found');
+    return;
+  }
+  if (!isAuthorized(req, options.token)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+    return;
+  }
+
+  const sessionId = req.headers['mcp-session-id'];
+  const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+  if (req.method !== 'POST') {
+    // GET opens the SSE stream of a session, DELETE ends it
+    if (!session) {
+      sendJsonRpcError(res, 400, -32000, 'Unknown or missing Mcp-Session-Id');
+      return;
+    }
+    trackActivity(session, res);
+    await session.transport.handleRequest(req, res);
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    sendJsonRpcError(res, 400, -32700, `Parse error: ${(error as Error).message}`);
+    return;
+  }
+
+  if (session) {
+    trackActivity(session, res);
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+  if (sessionId !== undefined || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, 'Unknown or missing Mcp-Session-Id (start a session with an initialize request)');
+    return;
+  }
+
+  const server = createServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => crypto.randomUUID(),
+    onsessioninitialized: id => {
+      sessions.set(id, { server, transport, lastActivity: Date.now(), openRequests: 0 });
+      logger.info(`MCP HTTP session started: ${id}`);
+    },
+    // Host header checks stop DNS rebinding against a server bound to localhost
+    enableDnsRebindingProtection: LOOPBACK_HOSTS.includes(options.host),
+    allowedHosts: LOOPBACK_HOSTS.flatMap(host => [host, `${host}:${req.socket.localPort}`, `[${host}]:${req.socket.localPort}`]),
+  });
+  transport.onclose = () => {
+    if (transport.sessionId && sessions.delete(transport.sessionId)) {
+      logger.info(`MCP HTTP session closed: ${transport.sessionId}`);
+    }
+  };
+
+  await server.connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Close sessions without requests or open streams for the idle timeout (clients that leave without a DELETE)
+ */
+function startIdleSessionSweep(sessions: Map<string, HttpSession>, idleTimeoutSeconds: number): NodeJS.Timeout | undefined {
+  if (idleTimeoutSeconds === 0) {
+    return undefined;
+  }
+
+  const idleTimeoutMs = idleTimeoutSeconds * 1000;
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.openRequests > 0 || now - session.lastActivity < idleTimeoutMs) {
+        continue;
+      }
+      sessions.delete(id);
+      logger.info(`MCP HTTP session expired after ${idleTimeoutSeconds}s idle: ${id}`);
+      session.server.close().catch(error => logger.error(`Failed to close MCP HTTP session ${id}`, error as Error));
+    }
+  }, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Count a request (or SSE stream) against a session until its response closes
+ */
+function trackActivity(session: HttpSession, res: http.ServerResponse): void {
+  session.openRequests++;
+  session.lastActivity = Date.now();
+  res.once('close', () => {
+    session.openRequests--;
+    session.lastActivity = Date.now();
+  });
+}
+
+/**
+ * Set CORS headers; false when a browser origin is not allowed
+ */
+function applyCors(req: http.IncomingMessage, res: http.ServerResponse, options: HttpServerOptions): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  if (!options.corsOrigins.includes('*') && !options.corsOrigins.includes(origin)) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  return true;
+}
+
+function isAuthorized(req: http.IncomingMessage, token?: string): boolean {
+  if (!token) {
+    return true;
+  }
+
+  const provided = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] || '';
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(token));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`request body larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
@@ -9,25 +9,30 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { logger } from './utils';
-import { unifiedTools } from './tools/unified.tools';
-import {
-  handleProfileManagement,
-  handleListResources,
-  handleDescribeResource,
-  handleExecuteAction,
-  handleQueryDatabase,
-  handleLogsOperations,
-  handleGetMetrics,
-  handleSearchResources,
-  handleGetCosts,
-  handleAccountInfo,
-  handleManageSecrets,
-  handleContainerOperations,
-} from './handlers/unified';
+import { logger, trackCredentialProvenance, withEndpoints, ErrorHandler, ValidationIssue } from './utils';
+import { getHttpServerOptions, startHttpServer } from './http-server';
+import { CredentialProvenance } from './models';
+import { toolRegistry } from './tools/unified.tools';
+import { awsResourceTemplates, listAwsResources, readAwsResource } from './resources/aws.resources';
+import { awsPrompts, getAwsPrompt } from './prompts/aws.prompts';
+import { describeToolCall, ToolCallDescriptor } from './tools/tool-operations';
+import { validateToolCall } from './tools/tool-validation';
+import { guardrailService } from './services/guardrail.service';
+import { policyService } from './services/policy.service';
+import { auditService } from './services/audit.service';
+import { fanOut } from './services/fan-out.service';
+import { retryService, RetryStats } from './services/retry.service';
+import { profileService } from './services/profile.service';
+import { toolAccess } from './services/tool-access.service';
 
 /**
  * Create and configure MCP server with unified tools
@@ -40,7 +45,9 @@ export function createMCPServer(): Server {
     },
     {
       capabilities: {
-        tools: {},
+        tools: { listChanged: true },
+        resources: {},
+        prompts: {},
       },
     }
   );
@@ -52,10 +59,16 @@ export function createMCPServer(): Server {
     logger.debug('Listing unified tools');
     
     return {
-      tools: unifiedTools, // 12 generic tools instead of 73
+      tools: toolAccess.getTools(), // unified tools, narrowed by the tool settings of the active profile
     };
   });
 
+  // Settings and active-profile changes can change the tool list
+  const unsubscribe = toolAccess.onChange(() => {
+    server.sendToolListChanged().catch(error => logger.warn('Failed to send tool list change', { error: (error as Error).message }));
+  });
+  server.onclose = unsubscribe;
+
   /**
    * Handler for tool execution
    */
@@ -65,80 +78,172 @@ export function createMCPServer(): Server {
     logger.info(`Tool called: ${name}`, { args });
 
     try {
-      switch (name) {
-        case 'aws-manage-profiles':
-          return await handleProfileManagement(args as any || {});
-        
-        case 'aws-list-resources':
-          return await handleListResources(args as any || {});
-        
-        case 'aws-describe-resource':
-          return await handleDescribeResource(args as any);
-        
-        case 'aws-execute-action':
-          return await handleExecuteAction(args as any);
-        
-        case 'aws-query-database':
-          return await handleQueryDatabase(args as any);
-        
-        case 'aws-logs-operations':
-          return await handleLogsOperations(args as any);
-        
-        case 'aws-get-metrics':
-          return await handleGetMetrics(args as any);
-        
-        case 'aws-search-resources':
-          return await handleSearchResources(args as any);
-        
-        case 'aws-get-costs':
-          return await handleGetCosts(args as any);
-        
-        case 'aws-account-info':
-          return await handleAccountInfo(args as any);
-        
-        case 'aws-manage-secrets':
-          return await handleManageSecrets(args as any);
-        
-        case 'aws-container-operations':
-          return await handleContainerOperations(args as any);
-        
-        default:
-          logger.warn(`Unknown tool called: ${name}`);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: `Unknown tool: ${name}`,
-                  availableTools: unifiedTools.map(t => t.name),
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
+      const toolArgs = (args || {}) as Record<string, any>;
+      const issues = validateToolCall(name, toolArgs);
+      if (issues.length > 0) {
+        return invalidArgumentsResult(name, issues);
+      }
+
+      const call = describeToolCall(name, toolArgs);
+
+      const result = await auditService.audit(call, toolArgs, () => executeTool(call, toolArgs));
+      if (name === 'aws-manage-profiles' && call.mutating) {
+        // The active profile's environment selects the tool restrictions
+        toolAccess.refresh();
       }
+      return result;
     } catch (error) {
       logger.error(`Error executing tool ${name}`, error as Error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: (error as Error).message,
-              stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined,
-            }, null, 2),
-          },
-        ],
-        isError: true,
-      };
+      const { operation } = describeToolCall(name, (args || {}) as Record<string, any>);
+      return ErrorHandler.toToolResult(error, { operation }, {
+        stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined,
+      });
     }
   });
 
+  /**
+   * Handler for listing AWS resources of the active profile
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    logger.debug('Listing AWS resources');
+
+    return {
+      resources: await listAwsResources(runResourceTool),
+    };
+  });
+
+  /**
+   * Handler for listing resource URI templates
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: awsResourceTemplates,
+    };
+  });
+
+  /**
+   * Handler for reading a resource (runs the describe/logs tool its URI maps to)
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    logger.info(`Resource read: ${request.params.uri}`);
+
+    return await readAwsResource(request.params.uri, runResourceTool);
+  });
+
+  /**
+   * Handler for listing workflow prompts
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: awsPrompts,
+    };
+  });
+
+  /**
+   * Handler for expanding a workflow prompt with its arguments
+   */
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    logger.info(`Prompt requested: ${request.params.name}`, { args: request.params.arguments });
+
+    return getAwsPrompt(request.params.name, request.params.arguments);
+  });
+
   return server;
 }
 
+/**
+ * Run a tool call on behalf of a resource, through the same audit, policy and guardrail path as tool calls
+ */
+async function runResourceTool(tool: string, args: Record<string, any>): Promise<CallToolResult> {
+  const call = describeToolCall(tool, args);
+  return await auditService.audit(call, args, () => executeTool(call, args));
+}
+
+/**
+ * Run the tool once, or per profile / region for profiles and region "all" or lists
+ */
+async function executeTool(call: ToolCallDescriptor, args: Record<string, any>): Promise<CallToolResult> {
+  const { result: tracked, stats } = await retryService.trackRetries(
+    () => trackCredentialProvenance(() => fanOut.execute(call, args, runTool))
+  );
+  return withRetryMetadata(withCredentialMetadata(tracked.result, tracked.provenance), stats);
+}
+
+/**
+ * Apply the tool settings, the policy file and environment guardrails, then run the tool with the endpoints of its profile
+ */
+async function runTool(call: ToolCallDescriptor, args: Record<string, any>): Promise<CallToolResult> {
+  const access = toolAccess.evaluate(call);
+  if (access.reason) {
+    return toolAccess.toResult(call, access);
+  }
+
+  const policy = await policyService.evaluate(call, args);
+  if (!policy.allowed) {
+    return policyService.toResult(call, policy);
+  }
+
+  const decision = guardrailService.evaluate(call, args);
+  if (decision.outcome !== 'allow') {
+    return guardrailService.toResult(decision);
+  }
+
+  const endpoints = profileService.getEndpointConfig(decision.args.profile);
+  const result = await withEndpoints(endpoints, () => toolRegistry.dispatch(call.tool, decision.args));
+  return guardrailService.withBanner(result, decision);
+}
+
+/**
+ * Reject a call whose arguments do not match the tool's inputSchema or operation requirements
+ */
+function invalidArgumentsResult(name: string, issues: ValidationIssue[]): CallToolResult {
+  logger.warn(`Invalid arguments for ${name}`, { issues });
+  return ErrorHandler.toErrorResult(
+    ErrorHandler.details(
+      'InvalidArguments',
+      'validation',
+      `Invalid arguments for ${name}: ${issues.map(issue => `${issue.field} ${issue.message}`).join('; ')}`,
+      {},
+      'Fix the fields listed in invalidFields (see allowedValues) and call the tool again.'
+    ),
+    { invalidFields: issues }
+  );
+}
+
+/**
+ * Report which credentials the call used: source, profile, account ID and caller ARN
+ */
+function withCredentialMetadata(result: CallToolResult, provenance: CredentialProvenance[]): CallToolResult {
+  const unique = [...new Map(provenance.map(item => [JSON.stringify(item), item])).values()];
+  if (unique.length === 0) {
+    return result;
+  }
+
+  const credentials = unique.length === 1 ? unique[0] : unique;
+  return {
+    ...result,
+    _meta: { ...result._meta, credentials },
+    content: [
+      ...result.content,
+      { type: 'text', text: JSON.stringify({ credentials }, null, 2) },
+    ],
+  };
+}
+
+/**
+ * Report the retries and rate-limit waits of the call's AWS requests, when there were any
+ */
+function withRetryMetadata(result: CallToolResult, stats: RetryStats): CallToolResult {
+  if (stats.retries === 0 && stats.throttledMs === 0) {
+    return result;
+  }
+
+  return {
+    ...result,
+    _meta: { ...result._meta, retries: stats },
+  };
+}
+
 /**
  * Start MCP server with stdio transport
  */
@@ -147,24 +252,39 @@ export async function startMCPServer(): Promise<void> {
     logger.info('Starting MCP AWS CLI Server (Unified Architecture)...');
     logger.info('12 generic tools instead of 73 specific tools');
     
-    const server = createMCPServer();
-    const transport = new StdioServerTransport();
-    
-    await server.connect(transport);
+    // Move plaintext credentials left by older versions into the encrypted vault
+    try {
+      profileService.migrateLegacyCredentials();
+    } catch (error) {
+      logger.error('Failed to move profile credentials to the encrypted vault', error as Error);
+    }
+
+    // --transport http / MCP_AWS_CLI_TRANSPORT=http serves Streamable HTTP instead of stdio
+    const httpOptions = getHttpServerOptions();
+    let close: () => Promise<void>;
+
+    if (httpOptions) {
+      close = await startHttpServer(httpOptions, createMCPServer);
+    } else {
+      const server = createMCPServer();
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+      close = () => server.close();
+    }
     
     logger.info('MCP AWS CLI Server started successfully');
-    logger.info('Tools: aws-manage-profiles, aws-list-resources, aws-describe-resource, aws-execute-action, aws-query-database, aws-logs-operations, aws-get-metrics, aws-search-resources, aws-get-costs, aws-account-info, aws-manage-secrets, aws-container-operations');
+    logger.info(`Tools: ${toolAccess.getTools().map(t => t.name).join(', ')}`);
     
     // Handle process termination
     process.on('SIGINT', async () => {
       logger.info('Shutting down MCP server...');
-      await server.close();
+      await close();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       logger.info('Shutting down MCP server...');
-      await server.close();
+      await close();
       process.exit(0);
     });
   } catch (error) {
@@ -0,0 +1,39 @@
+/**
+ * Audit log types and interfaces
+ */
+
+/**
+ * Outcome of an audited tool call
+ */
+export type AuditOutcome = 'success' | 'partial' | 'error' | 'denied' | 'confirmation-required' | 'dry-run';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditRecord {
+  timestamp: string;
+  tool: string;
+  operation: string;
+  resourceType?: string;
+  args: Record<string, any>;
+  profile?: string;
+  accountId?: string;
+  region: string;
+  requestIds: string[];
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Audit log query filters
+ */
+export interface AuditQuery {
+  tool?: string;
+  operation?: string;
+  profile?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
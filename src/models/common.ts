@@ -22,14 +22,35 @@ export interface BaseResponse<T = unknown> {
   metadata?: ResponseMetadata;
 }
 
+/**
+ * What kind of failure an error is, so a caller can decide how to react
+ */
+export type ErrorCategory =
+  | 'access-denied'
+  | 'expired-credentials'
+  | 'invalid-credentials'
+  | 'missing-credentials'
+  | 'throttling'
+  | 'not-found'
+  | 'validation'
+  | 'conflict'
+  | 'service-unavailable'
+  | 'network'
+  | 'internal';
+
 /**
  * Error details structure
  */
 export interface ErrorDetails {
   code: string;
   message: string;
+  category?: ErrorCategory;
   service?: string;
   operation?: string;
+  requestId?: string;
+  httpStatus?: number;
+  retriable?: boolean;
+  remediation?: string;
   originalError?: Error;
   timestamp: string;
 }
@@ -50,6 +71,17 @@ export interface ResponseMetadata {
 export interface PaginationParams {
   maxResults?: number;
   nextToken?: string;
+  all?: boolean;
+}
+
+/**
+ * One page of results (or all pages up to the item cap)
+ */
+export interface Page<T> {
+  items: T[];
+  nextToken?: string;
+  pages: number;
+  truncated: boolean;
 }
 
 /**
@@ -94,6 +126,23 @@ export interface LoggerConfig {
   filePath?: string;
 }
 
+/**
+ * Custom service endpoints (e.g. LocalStack or DynamoDB Local).
+ * Keys are client types such as "dynamodb", "s3" or "cloudwatch-logs"; "default" applies to every service
+ */
+export interface EndpointConfig {
+  endpoints?: Record<string, string>;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Tools restricted for the profiles of one environment ("*" stands for every tool)
+ */
+export interface EnvironmentToolRestrictions {
+  disabledTools?: string[];
+  readOnlyTools?: string[];
+}
+
 /**
  * Retry configuration
  */
@@ -5,3 +5,5 @@
 export * from './common';
 export * from './profile';
 export * from './aws-resource';
+export * from './policy';
+export * from './audit';
@@ -0,0 +1,50 @@
+/**
+ * Tool policy types and interfaces
+ */
+
+/**
+ * Policy rule effect
+ */
+export type PolicyEffect = 'allow' | 'deny';
+
+/**
+ * Allow/deny rule - every condition present must match (values within a condition are OR-ed glob patterns)
+ */
+export interface PolicyRule {
+  id?: string;
+  effect: PolicyEffect;
+  description?: string;
+  tools?: string[];
+  operations?: string[];
+  resourceTypes?: string[];
+  regions?: string[];
+  profiles?: string[];
+  arns?: string[];
+  mutating?: boolean;
+}
+
+/**
+ * Policy file structure
+ */
+export interface PolicyDocument {
+  version?: string;
+  defaultEffect?: PolicyEffect;
+  rules: PolicyRule[];
+}
+
+/**
+ * Rule that decided a policy evaluation
+ */
+export interface MatchedPolicyRule extends PolicyRule {
+  source: string;
+  index: number;
+}
+
+/**
+ * Policy evaluation result
+ */
+export interface PolicyEvaluation {
+  allowed: boolean;
+  reason: string;
+  matchedRule?: MatchedPolicyRule;
+}
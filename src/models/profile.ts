@@ -4,15 +4,48 @@
 
 import { AWSRegion, Environment } from './common';
 
+/**
+ * How a profile obtains credentials
+ */
+export type ProfileType = 'static' | 'assume-role' | 'sso';
+
+/**
+ * STS AssumeRole settings of an assume-role profile
+ */
+export interface AssumeRoleConfig {
+  sourceProfile: string;
+  roleArn: string;
+  externalId?: string;
+  mfaSerial?: string;
+  durationSeconds?: number;
+  roleSessionName?: string;
+}
+
+/**
+ * IAM Identity Center (SSO) settings of an sso profile
+ */
+export interface SSOConfig {
+  startUrl: string;
+  ssoRegion: string;
+  accountId: string;
+  roleName: string;
+}
+
 /**
  * AWS Profile configuration
  */
 export interface AWSProfile {
   name: string;
+  type?: ProfileType;
   accessKeyId: string;
   secretAccessKey: string;
   region: AWSRegion;
   sessionToken?: string;
+  assumeRole?: AssumeRoleConfig;
+  sso?: SSOConfig;
+  allowedAccountIds?: string[];
+  endpoints?: Record<string, string>;
+  forcePathStyle?: boolean;
   environment: Environment;
   isActive: boolean;
   description?: string;
@@ -27,10 +60,16 @@ export interface AWSProfile {
  */
 export interface CreateProfileInput {
   name: string;
-  accessKeyId: string;
-  secretAccessKey: string;
+  type?: ProfileType;
+  accessKeyId?: string;
+  secretAccessKey?: string;
   region: AWSRegion;
   sessionToken?: string;
+  assumeRole?: AssumeRoleConfig;
+  sso?: SSOConfig;
+  allowedAccountIds?: string[];
+  endpoints?: Record<string, string>;
+  forcePathStyle?: boolean;
   environment: Environment;
   description?: string;
 }
@@ -44,6 +83,11 @@ export interface UpdateProfileInput {
   secretAccessKey?: string;
   region?: AWSRegion;
   sessionToken?: string;
+  assumeRole?: Partial<AssumeRoleConfig>;
+  sso?: Partial<SSOConfig>;
+  allowedAccountIds?: string[];
+  endpoints?: Record<string, string>;
+  forcePathStyle?: boolean;
   environment?: Environment;
   description?: string;
 }
@@ -53,6 +97,7 @@ export interface UpdateProfileInput {
  */
 export interface ProfileListItem {
   name: string;
+  type?: ProfileType;
   region: AWSRegion;
   environment: Environment;
   isActive: boolean;
@@ -61,16 +106,38 @@ export interface ProfileListItem {
   alias?: string;
 }
 
+/**
+ * Profile metadata persisted in profiles.json (credentials live in the encrypted vault)
+ */
+export type StoredProfile = Omit<AWSProfile, 'accessKeyId' | 'secretAccessKey' | 'sessionToken'>;
+
 /**
  * Profile storage structure
  */
 export interface ProfileStorage {
   version: string;
   activeProfile?: string;
-  profiles: Record<string, AWSProfile>;
+  profiles: Record<string, StoredProfile>;
   lastModified: string;
 }
 
+/**
+ * Where the vault encryption key comes from
+ */
+export type VaultKeySource = 'secret-storage' | 'passphrase' | 'key-file';
+
+/**
+ * Encrypted credentials file (AES-256-GCM)
+ */
+export interface EncryptedVault {
+  version: string;
+  keySource: VaultKeySource;
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
 /**
  * Profile validation result
  */
@@ -89,3 +156,48 @@ export interface AWSCredentials {
   secretAccessKey: string;
   sessionToken?: string;
 }
+
+/**
+ * Where the credentials of a tool call came from and whose they are
+ */
+export interface CredentialProvenance {
+  source: string;
+  profile?: string;
+  strict: boolean;
+  accountId?: string;
+  arn?: string;
+}
+
+/**
+ * Temporary credentials returned by STS AssumeRole
+ */
+export interface RoleCredentials extends AWSCredentials {
+  expiration: Date;
+}
+
+/**
+ * SSO access token cache entry (same format as the AWS CLI ~/.aws/sso/cache)
+ */
+export interface SSOTokenCache {
+  startUrl: string;
+  region: string;
+  accessToken: string;
+  expiresAt: string;
+  clientId?: string;
+  clientSecret?: string;
+  registrationExpiresAt?: string;
+  refreshToken?: string;
+}
+
+/**
+ * State of an SSO device authorization login
+ */
+export interface SSOLoginStatus {
+  status: 'logged-in' | 'pending' | 'failed';
+  startUrl: string;
+  verificationUri?: string;
+  verificationUriComplete?: string;
+  userCode?: string;
+  expiresAt?: string;
+  error?: string;
+}
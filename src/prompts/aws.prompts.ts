@@ -0,0 +1,255 @@
+/**
+ * AWS MCP Prompts
+ * Parameterized operational workflows that chain the unified tools
+ */
+
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * A prompt and the workflow text it expands to
+ */
+interface AwsPrompt {
+  prompt: Prompt;
+  build(args: Record<string, string>): string;
+}
+
+/**
+ * Arguments every workflow accepts
+ */
+const TARGET_ARGUMENTS = [
+  { name: 'profile', description: 'AWS profile to use (optional, uses the active profile)', required: false },
+  { name: 'region', description: 'AWS region (optional, uses the profile default)', required: false },
+];
+
+const AWS_PROMPTS: AwsPrompt[] = [
+  {
+    prompt: {
+      name: 'investigate-ecs-service-health',
+      title: 'Investigate ECS service health',
+      description: 'Check deployments, events, stopped tasks, CPU/memory and recent errors of an ECS service',
+      arguments: [
+        { name: 'cluster', description: 'ECS cluster name', required: true },
+        { name: 'service', description: 'ECS service name', required: true },
+        { name: 'logGroup', description: 'Log group of the service containers (optional)', required: false },
+        ...TARGET_ARGUMENTS,
+      ],
+    },
+    build: args => {
+      const target = targetArgs(args);
+      const { start, end } = lastHours(3);
+      const steps = [
+        `Describe the service: ${toolCall('aws-container-operations', { platform: 'ecs', resourceType: 'services', operation: 'describe', clusterName: args.cluster, resourceIds: [args.service], ...target })}. Compare desired, running and pending counts, check whether a deployment is stuck (more than one deployment, rollout state FAILED or IN_PROGRESS) and read the latest service events.`,
+        `List its running tasks: ${toolCall('aws-container-operations', { platform: 'ecs', resourceType: 'tasks', operation: 'list', clusterName: args.cluster, operationParams: { serviceName: args.service }, ...target })}, then describe them together with any task the service events report as stopped (${toolCall('aws-container-operations', { platform: 'ecs', resourceType: 'tasks', operation: 'describe', clusterName: args.cluster, resourceIds: ['<task IDs>'], ...target })}) and note health status, stop reasons and container exit codes.`,
+        `Get CPU and memory for the last 3 hours: ${toolCall('aws-get-metrics', { namespace: 'AWS/ECS', metricName: 'CPUUtilization', dimensions: { ClusterName: args.cluster, ServiceName: args.service }, statistics: ['Average', 'Maximum'], period: 300, startTime: start, endTime: end, ...target })}, and the same call with metricName "MemoryUtilization".`,
+        args.logGroup
+          ? `Look for errors in the container logs: ${toolCall('aws-logs-operations', { operation: 'filter', logGroup: args.logGroup, query: '?ERROR ?Error ?Exception ?FATAL', startTime: start, endTime: end, limit: 100, ...target })}.`
+          : 'Find the log group in the task definition (logConfiguration of the containers) and search it for errors of the last 3 hours with aws-logs-operations "filter".',
+      ];
+
+      return workflow(
+        `Investigate the health of ECS service "${args.service}" in cluster "${args.cluster}"${describeTarget(target)}.`,
+        steps,
+        'Finish with a short health verdict (healthy / degraded / down), the evidence for it, the most likely root cause and the next actions. Do not restart, scale or update anything unless I ask.'
+      );
+    },
+  },
+  {
+    prompt: {
+      name: 'summarize-log-group-errors',
+      title: 'Summarize last 24h errors in a log group',
+      description: 'Group and count the errors of a CloudWatch log group over the last 24 hours',
+      arguments: [
+        { name: 'logGroup', description: 'Log group name', required: true },
+        { name: 'filterPattern', description: 'CloudWatch Logs filter pattern (optional, default: ERROR, Exception and FATAL)', required: false },
+        ...TARGET_ARGUMENTS,
+      ],
+    },
+    build: args => {
+      const target = targetArgs(args);
+      const { start, end } = lastHours(24);
+      const query = [
+        'fields @timestamp, @logStream, @message',
+        '| filter @message like /(?i)(error|exception|fatal)/',
+        '| stats count(*) as occurrences, earliest(@timestamp) as first, latest(@timestamp) as last by @message',
+        '| sort occurrences desc',
+        '| limit 50',
+      ].join(' ');
+      const steps = [
+        `Start a Logs Insights query over the last 24 hours: ${toolCall('aws-logs-operations', { operation: 'insights-query', logGroup: args.logGroup, query, startTime: start, endTime: end, ...target })}.`,
+        `Fetch its results with ${toolCall('aws-logs-operations', { operation: 'insights-results', queryId: '<queryId from step 1>', ...target })}, repeating while the status is Running or Scheduled.`,
+        `Pull sample events for the top errors: ${toolCall('aws-logs-operations', { operation: 'filter', logGroup: args.logGroup, query: args.filterPattern || '?ERROR ?Exception ?FATAL', startTime: start, endTime: end, limit: 50, ...target })}.`,
+      ];
+
+      return workflow(
+        `Summarize the errors logged in "${args.logGroup}"${describeTarget(target)} during the last 24 hours (${start} to ${end}).`,
+        steps,
+        'Group messages that differ only by IDs, timestamps or numbers. Report a table of error groups with count, first and last occurrence and one sample message, call out anything that started or spiked recently, and suggest where to look next.'
+      );
+    },
+  },
+  {
+    prompt: {
+      name: 'monthly-cost-review',
+      title: 'Monthly cost review',
+      description: 'Compare a month of AWS spend with the previous month by service and forecast the current month',
+      arguments: [
+        { name: 'month', description: 'Month to review as YYYY-MM (optional, default: last full month)', required: false },
+        { name: 'profile', description: 'AWS profile to use (optional, uses the active profile)', required: false },
+      ],
+    },
+    build: args => {
+      const { start, previousStart, end } = monthRange(args.month);
+      const target = targetArgs({ profile: args.profile });
+      const today = new Date().toISOString().slice(0, 10);
+      const nextMonth = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth() + 1, 1)).toISOString().slice(0, 10);
+      const steps = [
+        `Get spend by service for the month and the one before: ${toolCall('aws-get-costs', { operation: 'cost-and-usage', startDate: previousStart, endDate: end, granularity: 'MONTHLY', groupBy: ['SERVICE'], metrics: ['UnblendedCost'], ...target })}.`,
+        `Get spend by region for the month: ${toolCall('aws-get-costs', { operation: 'cost-and-usage', startDate: start, endDate: end, granularity: 'MONTHLY', groupBy: ['REGION'], metrics: ['UnblendedCost'], ...target })}.`,
+        `Get the daily trend to spot spikes: ${toolCall('aws-get-costs', { operation: 'cost-and-usage', startDate: start, endDate: end, granularity: 'DAILY', metrics: ['UnblendedCost'], ...target })}.`,
+        `Forecast the rest of the current month: ${toolCall('aws-get-costs', { operation: 'forecast', startDate: today, endDate: nextMonth, ...target })}.`,
+      ];
+
+      return workflow(
+        `Review AWS costs for ${start.slice(0, 7)}${describeTarget(target)}.`,
+        steps,
+        'Report the total and its change from the previous month, the top 10 services with their month-over-month change, the regions that account for most of the spend, any day with an unusual spike, and the forecast. End with 3 concrete cost-saving suggestions based on the data.'
+      );
+    },
+  },
+  {
+    prompt: {
+      name: 'pre-deploy-rds-checklist',
+      title: 'Pre-deploy RDS checklist',
+      description: 'Check status, backups, snapshots, storage, connections and load of an RDS instance before a deployment',
+      arguments: [
+        { name: 'dbInstance', description: 'RDS DB instance identifier', required: true },
+        ...TARGET_ARGUMENTS,
+      ],
+    },
+    build: args => {
+      const target = targetArgs(args);
+      const { start, end } = lastHours(24);
+      const metric = (metricName: string) => toolCall('aws-get-metrics', {
+        namespace: 'AWS/RDS',
+        metricName,
+        dimensions: { DBInstanceIdentifier: args.dbInstance },
+        statistics: ['Average', 'Maximum', 'Minimum'],
+        period: 3600,
+        startTime: start,
+        endTime: end,
+        ...target,
+      });
+      const steps = [
+        `Describe the instance: ${toolCall('aws-describe-resource', { resourceType: 'rds-instance', resourceId: args.dbInstance, ...target })}. Check that the status is "available", and note Multi-AZ, engine version, backup retention, deletion protection and the maintenance window.`,
+        `List snapshots: ${toolCall('aws-list-resources', { resourceType: 'rds-snapshots', all: true, ...target })} and find the most recent snapshot of "${args.dbInstance}".`,
+        `Check free storage: ${metric('FreeStorageSpace')}.`,
+        `Check connections: ${metric('DatabaseConnections')}.`,
+        `Check load: ${metric('CPUUtilization')}, and the same call with metricName "ReplicaLag" if the instance has read replicas.`,
+      ];
+
+      return workflow(
+        `Run the pre-deploy checklist for RDS instance "${args.dbInstance}"${describeTarget(target)}.`,
+        steps,
+        'Report each check as PASS, WARN or FAIL with the value behind it: available status, automated backups enabled, a snapshot from the last 24 hours, deletion protection, free storage above 20%, connections and CPU well below their peaks, and no maintenance window during the deployment. If there is no recent snapshot, recommend taking one before deploying, but do not create it unless I ask.'
+      );
+    },
+  },
+];
+
+/**
+ * Prompts for prompts/list
+ */
+export const awsPrompts: Prompt[] = AWS_PROMPTS.map(item => item.prompt);
+
+/**
+ * Expand a prompt with its arguments
+ */
+export function getAwsPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const item = AWS_PROMPTS.find(candidate => candidate.prompt.name === name);
+  if (!item) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown prompt: ${name}. Available: ${awsPrompts.map(prompt => prompt.name).join(', ')}`
+    );
+  }
+
+  const missing = (item.prompt.arguments || []).filter(arg => arg.required && !args[arg.name]);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`
+    );
+  }
+
+  return {
+    description: item.prompt.description,
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text: item.build(args) },
+    }],
+  };
+}
+
+function workflow(goal: string, steps: string[], report: string): string {
+  return [
+    goal,
+    '',
+    'Use the AWS tools in this order:',
+    ...steps.map((step, index) => `${index + 1}. ${step}`),
+    '',
+    'If a step fails (permissions, missing resource), say so and continue with the others.',
+    report,
+  ].join('\n');
+}
+
+function toolCall(tool: string, args: Record<string, any>): string {
+  return `\`${tool}\` with \`${JSON.stringify(args)}\``;
+}
+
+function targetArgs(args: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries({ profile: args.profile, region: args.region }).filter(([, value]) => value)
+  ) as Record<string, string>;
+}
+
+function describeTarget(target: Record<string, string>): string {
+  const parts = [
+    target.profile && `profile "${target.profile}"`,
+    target.region && `region ${target.region}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+function lastHours(hours: number): { start: string; end: string } {
+  const end = new Date();
+  return {
+    start: new Date(end.getTime() - hours * 3600 * 1000).toISOString(),
+    end: end.toISOString(),
+  };
+}
+
+/**
+ * First day of the month, of the month before and of the month after (Cost Explorer end dates are exclusive)
+ */
+function monthRange(month?: string): { start: string; previousStart: string; end: string } {
+  const now = new Date();
+  let year = now.getUTCFullYear();
+  let index = now.getUTCMonth() - 1;
+
+  if (month) {
+    const match = month.match(/^(\d{4})-(\d{2})$/);
+    if (!match || +match[2] < 1 || +match[2] > 12) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid month "${month}" (expected YYYY-MM)`);
+    }
+    year = +match[1];
+    index = +match[2] - 1;
+  }
+
+  const day = (offset: number) => new Date(Date.UTC(year, index + offset, 1)).toISOString().slice(0, 10);
+  return { start: day(0), previousStart: day(-1), end: day(1) };
+}
@@ -0,0 +1,218 @@
+/**
+ * AWS MCP Resources
+ * aws://{profile}/{region}/... URIs backed by the unified describe, list and logs tools
+ */
+
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { profileService } from '../services/profile.service';
+import { logger, getRegion } from '../utils';
+
+/**
+ * Runs a unified tool (with policy, guardrails and audit) on behalf of a resource
+ */
+export type ResourceToolRunner = (tool: string, args: Record<string, any>) => Promise<CallToolResult>;
+
+/**
+ * Tool call that produces a resource
+ */
+interface ResourceToolCall {
+  tool: string;
+  args: Record<string, any>;
+}
+
+/**
+ * One kind of AWS resource: its URI template, how a URI path maps to a tool call and how it is listed
+ */
+interface AwsResourceType {
+  template: ResourceTemplate;
+  path: RegExp;
+  toPath(id: string): string;
+  toToolCall(id: string): ResourceToolCall;
+  select?(data: any): any;
+  list: ResourceToolCall & { toResources(data: any): Array<{ id: string; name: string }> };
+}
+
+const AWS_RESOURCE_TYPES: AwsResourceType[] = [
+  {
+    template: {
+      uriTemplate: 'aws://{profile}/{region}/ec2/instances/{instanceId}',
+      name: 'EC2 instance',
+      description: 'EC2 instance details (state, type, networking, tags)',
+      mimeType: 'application/json',
+    },
+    path: /^ec2\/instances\/([^/]+)$/,
+    toPath: id => `ec2/instances/${encodeURIComponent(id)}`,
+    toToolCall: id => ({ tool: 'aws-describe-resource', args: { resourceType: 'ec2-instance', resourceId: id } }),
+    list: {
+      tool: 'aws-list-resources',
+      args: { resourceType: 'ec2-instances' },
+      toResources: data => (data.resources || []).map((instance: any) => ({
+        id: instance.instanceId,
+        name: instance.tags?.Name ? `${instance.tags.Name} (${instance.instanceId})` : instance.instanceId,
+      })),
+    },
+  },
+  {
+    template: {
+      uriTemplate: 'aws://{profile}/{region}/logs/{logGroup}',
+      name: 'CloudWatch log group',
+      description: 'Latest events of a log group (URL-encode group names that contain "/")',
+      mimeType: 'application/json',
+    },
+    path: /^logs\/(.+)$/,
+    toPath: id => `logs/${encodeURIComponent(id)}`,
+    toToolCall: id => ({ tool: 'aws-logs-operations', args: { operation: 'tail', logGroup: id } }),
+    list: {
+      tool: 'aws-logs-operations',
+      args: { operation: 'list-groups' },
+      toResources: data => (data.logGroups || []).map((group: any) => ({ id: group.name, name: group.name })),
+    },
+  },
+  {
+    template: {
+      uriTemplate: 'aws://{profile}/{region}/dynamodb/{table}/schema',
+      name: 'DynamoDB table schema',
+      description: 'Key schema, attribute definitions and secondary indexes of a DynamoDB table',
+      mimeType: 'application/json',
+    },
+    path: /^dynamodb\/([^/]+)\/schema$/,
+    toPath: id => `dynamodb/${encodeURIComponent(id)}/schema`,
+    toToolCall: id => ({ tool: 'aws-describe-resource', args: { resourceType: 'dynamodb-table', resourceId: id } }),
+    select: data => ({
+      tableName: data.resource?.tableName,
+      keySchema: data.resource?.keySchema,
+      attributeDefinitions: data.resource?.attributeDefinitions,
+      globalSecondaryIndexes: data.resource?.globalSecondaryIndexes,
+      billingMode: data.resource?.billingModeSummary?.BillingMode,
+    }),
+    list: {
+      tool: 'aws-list-resources',
+      args: { resourceType: 'dynamodb-tables' },
+      toResources: data => (data.resources || []).map((table: string) => ({ id: table, name: `${table} schema` })),
+    },
+  },
+];
+
+/**
+ * Resource templates for resources/templates/list
+ */
+export const awsResourceTemplates: ResourceTemplate[] = AWS_RESOURCE_TYPES.map(type => type.template);
+
+/**
+ * Build the URI of a resource
+ */
+export function buildResourceUri(profile: string, region: string, path: string): string {
+  return `aws://${encodeURIComponent(profile)}/${encodeURIComponent(region)}/${path}`;
+}
+
+/**
+ * Resources of the active profile in its default region (first page of each type)
+ */
+export async function listAwsResources(runTool: ResourceToolRunner): Promise<Resource[]> {
+  const profile = profileService.getActiveProfileName() || process.env.AWS_PROFILE || 'default';
+  const region = getRegion();
+  const resources: Resource[] = [];
+
+  for (const type of AWS_RESOURCE_TYPES) {
+    let data: any;
+    try {
+      data = parseToolResult(await runTool(type.list.tool, { ...type.list.args, profile, region }));
+    } catch (error) {
+      logger.warn(`Skipping ${type.template.name} resources: ${(error as Error).message}`);
+      continue;
+    }
+    if (!data) {
+      logger.warn(`Skipping ${type.template.name} resources: listing failed`);
+      continue;
+    }
+
+    for (const { id, name } of type.list.toResources(data)) {
+      resources.push({
+        uri: buildResourceUri(profile, region, type.toPath(id)),
+        name,
+        description: type.template.description,
+        mimeType: 'application/json',
+      });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Read a resource by running the tool call its URI maps to
+ */
+export async function readAwsResource(uri: string, runTool: ResourceToolRunner): Promise<ReadResourceResult> {
+  const { type, profile, region, id } = parseResourceUri(uri);
+  const call = type.toToolCall(id);
+  const result = await runTool(call.tool, { ...call.args, profile, region });
+
+  const data = parseToolResult(result);
+  if (!data) {
+    const text = result.content.map(item => item.type === 'text' ? item.text : '').filter(Boolean).join('\n');
+    throw new McpError(ErrorCode.InternalError, `Failed to read ${uri}: ${text || 'no content'}`);
+  }
+
+  return {
+    contents: [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(type.select ? type.select(data) : data, null, 2),
+    }],
+    ...(result._meta ? { _meta: result._meta } : {}),
+  };
+}
+
+/**
+ * Split aws://{profile}/{region}/{path} and match the path against the resource types
+ */
+function parseResourceUri(uri: string): { type: AwsResourceType; profile: string; region: string; id: string } {
+  const match = uri.match(/^aws:\/\/([^/]+)\/([^/]+)\/(.+)$/);
+  if (match) {
+    for (const type of AWS_RESOURCE_TYPES) {
+      const path = match[3].match(type.path);
+      if (path) {
+        return {
+          type,
+          profile: decodeURIComponent(match[1]),
+          region: decodeURIComponent(match[2]),
+          id: decodeURIComponent(path[1]),
+        };
+      }
+    }
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Unknown resource URI: ${uri}. Supported: ${awsResourceTemplates.map(template => template.uriTemplate).join(', ')}`
+  );
+}
+
+/**
+ * JSON body of a successful tool result, skipping banners (undefined for errors and plain-text notes)
+ */
+function parseToolResult(result: CallToolResult): any {
+  if (result.isError) {
+    return undefined;
+  }
+
+  for (const item of result.content) {
+    if (item.type !== 'text') {
+      continue;
+    }
+    try {
+      const data = JSON.parse(item.text);
+      return data?.success === false ? undefined : data;
+    } catch {
+      // Banner or plain-text note
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,115 @@
+/**
+ * Assume Role Service
+ * Obtains and caches STS AssumeRole credentials for assume-role profiles
+ */
+
+import { AssumeRoleCommand } from '@aws-sdk/client-sts';
+import { AssumeRoleConfig, AWSCredentials, RoleCredentials } from '../models';
+import { logger, AssumeRoleError } from '../utils';
+import { awsClientFactory } from './aws-client.factory';
+
+/**
+ * Refresh credentials this long before they expire
+ */
+const REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Assume Role Service
+ * Keeps temporary credentials per profile until they are about to expire
+ */
+export class AssumeRoleService {
+  private static instance: AssumeRoleService;
+  private cache = new Map<string, RoleCredentials>();
+
+  private constructor() {
+    logger.info('Assume Role Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AssumeRoleService {
+    if (!AssumeRoleService.instance) {
+      AssumeRoleService.instance = new AssumeRoleService();
+    }
+    return AssumeRoleService.instance;
+  }
+
+  /**
+   * Cached credentials of a profile, unless they expire within the refresh window
+   */
+  public getCachedCredentials(profileName: string): RoleCredentials | undefined {
+    const cached = this.cache.get(profileName);
+    if (cached && cached.expiration.getTime() - Date.now() > REFRESH_WINDOW_MS) {
+      return cached;
+    }
+    return undefined;
+  }
+
+  /**
+   * Call STS AssumeRole with the source credentials and cache the result
+   */
+  public async assumeRole(
+    profileName: string,
+    roleConfig: AssumeRoleConfig,
+    region: string,
+    sourceCredentials: AWSCredentials,
+    mfaCode?: string
+  ): Promise<RoleCredentials> {
+    if (roleConfig.mfaSerial && !mfaCode) {
+      throw new AssumeRoleError(
+        `Profile '${profileName}' requires MFA. Call aws-manage-profiles with operation "assume", profileName "${profileName}" and the current mfaCode.`,
+        'assumeRole'
+      );
+    }
+
+    const client = awsClientFactory.getSTSClient(region, sourceCredentials);
+
+    try {
+      const response = await client.send(new AssumeRoleCommand({
+        RoleArn: roleConfig.roleArn,
+        RoleSessionName: roleConfig.roleSessionName || `mcp-aws-cli-${profileName}`,
+        ExternalId: roleConfig.externalId,
+        DurationSeconds: roleConfig.durationSeconds,
+        SerialNumber: roleConfig.mfaSerial,
+        TokenCode: mfaCode,
+      }));
+
+      const credentials = response.Credentials;
+      if (!credentials?.AccessKeyId || !credentials.SecretAccessKey || !credentials.Expiration) {
+        throw new Error('STS returned no credentials');
+      }
+
+      const roleCredentials: RoleCredentials = {
+        accessKeyId: credentials.AccessKeyId,
+        secretAccessKey: credentials.SecretAccessKey,
+        sessionToken: credentials.SessionToken,
+        expiration: credentials.Expiration,
+      };
+
+      this.cache.set(profileName, roleCredentials);
+      logger.info(`Assumed role for profile ${profileName}`, {
+        roleArn: roleConfig.roleArn,
+        expiration: roleCredentials.expiration.toISOString(),
+      });
+
+      return roleCredentials;
+    } catch (error) {
+      throw new AssumeRoleError(
+        `Failed to assume role ${roleConfig.roleArn} for profile '${profileName}': ${(error as Error).message}`,
+        'assumeRole',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Drop cached credentials (profile updated or deleted)
+   */
+  public clear(profileName: string): void {
+    this.cache.delete(profileName);
+  }
+}
+
+// Export singleton instance
+export const assumeRoleService = AssumeRoleService.getInstance();
@@ -0,0 +1,292 @@
+/**
+ * Audit Service
+ * Append-only JSONL log of every mutating tool call
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AuditOutcome, AuditQuery, AuditRecord } from '../models';
+import { ToolCallDescriptor } from '../tools/tool-operations';
+import { profileService } from './profile.service';
+import { logger, getRegion, getIntelligentCredentials } from '../utils';
+
+/**
+ * Argument names whose values never reach the audit log
+ */
+const REDACTED_FIELDS = [
+  'secretaccesskey',
+  'sessiontoken',
+  'secretvalue',
+  'secretstring',
+  'password',
+  'masteruserpassword',
+  'passphrase',
+  'value',
+  'variables',
+];
+
+/**
+ * Any AWS SDK v3 client (only its middleware stack is used)
+ */
+interface TrackableClient {
+  middlewareStack: {
+    add(middleware: any, options: { step: 'initialize'; name: string }): void;
+  };
+}
+
+/**
+ * Audit Service
+ * Records mutating calls with redacted arguments, resolved account and the AWS request IDs they produced
+ */
+export class AuditService {
+  private static instance: AuditService;
+  private logFilePath: string;
+  private requestIds = new AsyncLocalStorage<string[]>();
+  private accountIds = new Map<string, string>();
+
+  private constructor() {
+    this.logFilePath = path.join(os.homedir(), '.mcp-aws-cli', 'audit.jsonl');
+    logger.info('Audit Service initialized', { logFile: this.logFilePath });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  /**
+   * Path of the JSONL audit log
+   */
+  public getLogFilePath(): string {
+    return this.logFilePath;
+  }
+
+  /**
+   * Collect the request ID of every command the client sends during an audited call
+   */
+  public track<T extends TrackableClient>(client: T): T {
+    client.middlewareStack.add(
+      (next: any) => async (args: any) => {
+        try {
+          const result = await next(args);
+          this.addRequestId(result.output?.$metadata?.requestId);
+          return result;
+        } catch (error: any) {
+          this.addRequestId(error?.$metadata?.requestId);
+          throw error;
+        }
+      },
+      { step: 'initialize', name: 'auditRequestIdMiddleware' }
+    );
+    return client;
+  }
+
+  /**
+   * Run a tool call and append an audit record if it is mutating
+   */
+  public async audit(
+    call: ToolCallDescriptor,
+    args: Record<string, any>,
+    execute: () => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    if (!call.mutating) {
+      return execute();
+    }
+
+    const startTime = Date.now();
+    const requestIds: string[] = [];
+
+    try {
+      const result = await this.requestIds.run(requestIds, execute);
+      const { outcome, error } = this.getOutcome(result);
+      await this.append(call, args, requestIds, outcome, Date.now() - startTime, error);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.append(call, args, requestIds, 'error', Date.now() - startTime, message);
+      throw error;
+    }
+  }
+
+  /**
+   * Read audit records, newest first
+   */
+  public query(filters: AuditQuery = {}): AuditRecord[] {
+    if (!fs.existsSync(this.logFilePath)) {
+      return [];
+    }
+
+    const since = filters.since ? new Date(filters.since).getTime() : undefined;
+    const until = filters.until ? new Date(filters.until).getTime() : undefined;
+    const records: AuditRecord[] = [];
+
+    for (const line of fs.readFileSync(this.logFilePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        logger.warn('Skipping malformed audit log line');
+        continue;
+      }
+
+      const time = new Date(record.timestamp).getTime();
+      if (
+        (filters.tool && record.tool !== filters.tool) ||
+        (filters.operation && record.operation !== filters.operation) ||
+        (filters.profile && record.profile !== filters.profile) ||
+        (filters.outcome && record.outcome !== filters.outcome) ||
+        (since !== undefined && time < since) ||
+        (until !== undefined && time > until)
+      ) {
+        continue;
+      }
+
+      records.push(record);
+    }
+
+    return records.reverse().slice(0, filters.limit ?? 50);
+  }
+
+  private addRequestId(requestId?: string): void {
+    const store = this.requestIds.getStore();
+    if (store && requestId) {
+      store.push(requestId);
+    }
+  }
+
+  private async append(
+    call: ToolCallDescriptor,
+    args: Record<string, any>,
+    requestIds: string[],
+    outcome: AuditOutcome,
+    durationMs: number,
+    error?: string
+  ): Promise<void> {
+    const profile = call.profile || profileService.getActiveProfileName();
+    const region = getRegion(call.region);
+    const record: AuditRecord = {
+      timestamp: new Date().toISOString(),
+      tool: call.tool,
+      operation: call.operation,
+      resourceType: call.resourceType,
+      args: this.redact(args),
+      profile,
+      accountId: await this.resolveAccountId(call, profile, region),
+      region,
+      requestIds,
+      outcome,
+      error,
+      durationMs,
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.logFilePath), { recursive: true });
+      fs.appendFileSync(this.logFilePath, JSON.stringify(record) + '\n', { encoding: 'utf-8', mode: 0o600 });
+    } catch (writeError) {
+      logger.error('Failed to write audit record', writeError as Error);
+    }
+  }
+
+  /**
+   * Derive the outcome from the handler's JSON payload
+   */
+  private getOutcome(result: CallToolResult): { outcome: AuditOutcome; error?: string } {
+    let payload: Record<string, any> | undefined;
+    for (const item of result.content) {
+      if (item.type !== 'text') {
+        continue;
+      }
+      try {
+        payload = JSON.parse(item.text);
+        break;
+      } catch {
+        // Banners and plain-text messages are not JSON
+      }
+    }
+
+    if (payload?.policy === 'denied' || payload?.guardrail === 'denied') {
+      return { outcome: 'denied', error: payload.reason };
+    }
+    if (payload?.guardrail === 'confirmation-required') {
+      return { outcome: 'confirmation-required' };
+    }
+    if (payload?.dryRun) {
+      return { outcome: 'dry-run' };
+    }
+    if (result.isError || payload?.success === false) {
+      const error = payload?.error ?? payload?.message;
+      if (typeof error === 'object' && typeof error?.message === 'string') {
+        return { outcome: 'error', error: error.code ? `${error.code}: ${error.message}` : error.message };
+      }
+      return { outcome: 'error', error: typeof error === 'string' ? error : JSON.stringify(error) };
+    }
+
+    const failed = Array.isArray(payload?.results)
+      ? payload!.results.filter((item: any) => item?.success === false).length
+      : 0;
+    if (failed > 0) {
+      return { outcome: failed === payload!.results.length ? 'error' : 'partial' };
+    }
+
+    return { outcome: 'success' };
+  }
+
+  /**
+   * Account ID of the profile, from the stored profile or STS (cached per profile)
+   */
+  private async resolveAccountId(call: ToolCallDescriptor, profile: string | undefined, region: string): Promise<string | undefined> {
+    const key = profile || 'default';
+    if (this.accountIds.has(key)) {
+      return this.accountIds.get(key);
+    }
+
+    const isStoredProfile = profile !== undefined && profileService.getProfileEnvironment(profile) !== undefined;
+    const stored = isStoredProfile ? await profileService.getProfile(profile!) : undefined;
+    if (stored?.data?.accountId || call.tool === 'aws-manage-profiles') {
+      return stored?.data?.accountId;
+    }
+
+    try {
+      const credResult = await getIntelligentCredentials(call.profile, region);
+      const accountId = credResult.provenance?.accountId;
+      if (accountId) {
+        this.accountIds.set(key, accountId);
+      }
+      return accountId;
+    } catch {
+      logger.warn('Could not resolve account ID for audit record', { profile: key });
+      return undefined;
+    }
+  }
+
+  private redact(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        REDACTED_FIELDS.includes(key.toLowerCase()) ? '[REDACTED]' : this.redact(item),
+      ])
+    );
+  }
+}
+
+// Export singleton instance
+export const auditService = AuditService.getInstance();
@@ -17,9 +17,23 @@ import { IAMClient } from '@aws-sdk/client-iam';
 import { ServiceQuotasClient } from '@aws-sdk/client-service-quotas';
 import { CostExplorerClient } from '@aws-sdk/client-cost-explorer';
 import { ResourceGroupsTaggingAPIClient } from '@aws-sdk/client-resource-groups-tagging-api';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SSMClient } from '@aws-sdk/client-ssm';
+import { RDSDataClient } from '@aws-sdk/client-rds-data';
+import { AccountClient } from '@aws-sdk/client-account';
+import { SSOClient } from '@aws-sdk/client-sso';
+import { SSOOIDCClient } from '@aws-sdk/client-sso-oidc';
 
 import { AWSCredentials, AWSRegion } from '../models';
-import { logger, config as configManager, ErrorHandler } from '../utils';
+import { logger, config as configManager, ErrorHandler, resolveEndpoint } from '../utils';
+import { auditService } from './audit.service';
+import { retryService } from './retry.service';
+import { recordingService } from './recording.service';
+
+/**
+ * Upper bound of cached clients (temporary credentials get new access keys, so old clients are evicted)
+ */
+const MAX_CACHED_CLIENTS = 200;
 
 /**
  * AWS Client types
@@ -38,7 +52,13 @@ export type AWSClientType =
   | 'iam'
   | 'service-quotas'
   | 'cost-explorer'
-  | 'resource-groups-tagging-api';
+  | 'resource-groups-tagging-api'
+  | 'secrets-manager'
+  | 'ssm'
+  | 'rds-data'
+  | 'account'
+  | 'sso'
+  | 'sso-oidc';
 
 /**
  * Generic AWS Client
@@ -57,7 +77,13 @@ export type AWSClient =
   | IAMClient
   | ServiceQuotasClient
   | CostExplorerClient
-  | ResourceGroupsTaggingAPIClient;
+  | ResourceGroupsTaggingAPIClient
+  | SecretsManagerClient
+  | SSMClient
+  | RDSDataClient
+  | AccountClient
+  | SSOClient
+  | SSOOIDCClient;
 
 /**
  * Client configuration options
@@ -66,6 +92,16 @@ interface ClientConfig {
   region: AWSRegion;
   credentials?: AWSCredentials;
   maxAttempts?: number;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Cached client and the credentials it was created with
+ */
+interface CachedClient {
+  client: AWSClient;
+  credentials?: AWSCredentials;
 }
 
 /**
@@ -74,7 +110,7 @@ interface ClientConfig {
  */
 export class AWSClientFactory {
   private static instance: AWSClientFactory;
-  private clientCache: Map<string, AWSClient>;
+  private clientCache: Map<string, CachedClient>;
 
   private constructor() {
     this.clientCache = new Map();
@@ -92,22 +128,30 @@ export class AWSClientFactory {
   }
 
   /**
-   * Generate cache key for client
+   * Generate cache key for client (clients are shared per access key and endpoint, not per profile name)
    */
-  private getCacheKey(clientType: AWSClientType, region: AWSRegion, profileName?: string): string {
-    return `${clientType}:${region}:${profileName || 'default'}`;
+  private getCacheKey(
+    clientType: AWSClientType,
+    region: AWSRegion,
+    credentials?: AWSCredentials,
+    profileName?: string,
+    endpoint?: string,
+    forcePathStyle?: boolean
+  ): string {
+    const key = `${clientType}:${region}:${credentials?.accessKeyId || profileName || 'default'}`;
+    return endpoint || forcePathStyle ? `${key}@${endpoint || 'aws'}${forcePathStyle ? ':path-style' : ''}` : key;
   }
 
   /**
    * Get common client configuration
    */
   private getClientConfig(options: ClientConfig) {
-    const retryConfig = configManager.getRetryConfig();
-
     return {
       region: options.region,
       credentials: options.credentials,
-      maxAttempts: options.maxAttempts || retryConfig.maxRetries,
+      maxAttempts: options.maxAttempts || 1, // Retries are done by the retry middleware (RetryConfig)
+      ...(options.endpoint ? { endpoint: options.endpoint } : {}),
+      ...(options.forcePathStyle ? { forcePathStyle: true } : {}),
       requestHandler: {
         requestTimeout: 30000, // 30 seconds
       },
@@ -115,7 +159,7 @@ export class AWSClientFactory {
   }
 
   /**
-   * Create client based on type
+   * Create client based on type, with record/replay, retries, rate limiting and audit request ID tracking
    */
   private createClient<T extends AWSClient>(
     clientType: AWSClientType,
@@ -125,9 +169,21 @@ export class AWSClientFactory {
 
     logger.debug(`Creating ${clientType} client`, {
       region: config.region,
-      maxAttempts: clientConfig.maxAttempts,
+      endpoint: config.endpoint,
+      ...configManager.getRetryConfig(),
     });
 
+    const client = recordingService.track(this.instantiate<T>(clientType, clientConfig), config.region);
+    return auditService.track(retryService.track(client, config.region));
+  }
+
+  /**
+   * Instantiate the SDK client of a type
+   */
+  private instantiate<T extends AWSClient>(
+    clientType: AWSClientType,
+    clientConfig: ReturnType<AWSClientFactory['getClientConfig']>
+  ): T {
     switch (clientType) {
       case 'sts':
         return new STSClient(clientConfig) as T;
@@ -157,6 +213,18 @@ export class AWSClientFactory {
         return new CostExplorerClient({ ...clientConfig, region: 'us-east-1' }) as T; // Cost Explorer is global
       case 'resource-groups-tagging-api':
         return new ResourceGroupsTaggingAPIClient(clientConfig) as T;
+      case 'secrets-manager':
+        return new SecretsManagerClient(clientConfig) as T;
+      case 'ssm':
+        return new SSMClient(clientConfig) as T;
+      case 'rds-data':
+        return new RDSDataClient(clientConfig) as T;
+      case 'account':
+        return new AccountClient(clientConfig) as T;
+      case 'sso':
+        return new SSOClient(clientConfig) as T;
+      case 'sso-oidc':
+        return new SSOOIDCClient(clientConfig) as T;
       default:
         throw ErrorHandler.handleValidationError('clientType', `Unknown client type: ${clientType}`);
     }
@@ -173,26 +241,42 @@ export class AWSClientFactory {
   ): T {
     const appConfig = configManager.getConfig();
     const effectiveRegion = region || appConfig.defaultRegion;
-    const cacheKey = this.getCacheKey(clientType, effectiveRegion, profileName);
+    const { endpoint, forcePathStyle } = resolveEndpoint(clientType);
+    const cacheKey = this.getCacheKey(clientType, effectiveRegion, credentials, profileName, endpoint, forcePathStyle);
 
-    // Check in-memory cache first
-    if (this.clientCache.has(cacheKey)) {
+    // Check in-memory cache first (same access key with a new secret or session token gets a new client)
+    const cached = this.clientCache.get(cacheKey);
+    if (cached && this.sameCredentials(cached.credentials, credentials)) {
       logger.debug(`Using cached ${clientType} client`, { region: effectiveRegion });
-      return this.clientCache.get(cacheKey) as T;
+      this.clientCache.delete(cacheKey);
+      this.clientCache.set(cacheKey, cached);
+      return cached.client as T;
     }
 
     // Create new client
     const client = this.createClient<T>(clientType, {
       region: effectiveRegion,
       credentials,
+      endpoint,
+      forcePathStyle,
     });
 
-    // Cache the client
-    this.clientCache.set(cacheKey, client);
+    // Cache the client (replacing one built for older credentials), evicting the least recently used one when full
+    this.evict(cacheKey);
+    this.clientCache.set(cacheKey, { client, credentials });
+    if (this.clientCache.size > MAX_CACHED_CLIENTS) {
+      this.evict(this.clientCache.keys().next().value!);
+    }
 
     return client;
   }
 
+  private sameCredentials(a?: AWSCredentials, b?: AWSCredentials): boolean {
+    return a?.accessKeyId === b?.accessKeyId
+      && a?.secretAccessKey === b?.secretAccessKey
+      && a?.sessionToken === b?.sessionToken;
+  }
+
   /**
    * Get STS client
    */
@@ -300,25 +384,80 @@ export class AWSClientFactory {
     return this.getClient<ResourceGroupsTaggingAPIClient>('resource-groups-tagging-api', region, credentials);
   }
 
+  /**
+   * Get Secrets Manager client
+   */
+  public getSecretsManagerClient(region?: AWSRegion, credentials?: AWSCredentials): SecretsManagerClient {
+    return this.getClient<SecretsManagerClient>('secrets-manager', region, credentials);
+  }
+
+  /**
+   * Get SSM client
+   */
+  public getSSMClient(region?: AWSRegion, credentials?: AWSCredentials): SSMClient {
+    return this.getClient<SSMClient>('ssm', region, credentials);
+  }
+
+  /**
+   * Get RDS Data API client
+   */
+  public getRDSDataClient(region?: AWSRegion, credentials?: AWSCredentials): RDSDataClient {
+    return this.getClient<RDSDataClient>('rds-data', region, credentials);
+  }
+
+  /**
+   * Get Account client
+   */
+  public getAccountClient(region?: AWSRegion, credentials?: AWSCredentials): AccountClient {
+    return this.getClient<AccountClient>('account', region, credentials);
+  }
+
+  /**
+   * Get SSO client (its calls are authorized by the SSO access token, not AWS credentials)
+   */
+  public getSSOClient(region?: AWSRegion): SSOClient {
+    return this.getClient<SSOClient>('sso', region);
+  }
+
+  /**
+   * Get SSO OIDC client (device authorization and token calls are unsigned)
+   */
+  public getSSOOIDCClient(region?: AWSRegion): SSOOIDCClient {
+    return this.getClient<SSOOIDCClient>('sso-oidc', region);
+  }
+
   /**
    * Clear client cache
    */
   public clearCache(clientType?: AWSClientType, region?: AWSRegion): void {
     if (clientType && region) {
-      const cacheKey = this.getCacheKey(clientType, region);
-      this.clientCache.delete(cacheKey);
+      const prefix = `${clientType}:${region}:`;
+      [...this.clientCache.keys()].filter(key => key.startsWith(prefix)).forEach(key => this.evict(key));
       logger.debug(`Cleared cache for ${clientType} client in ${region}`);
     } else {
-      this.clientCache.clear();
+      [...this.clientCache.keys()].forEach(key => this.evict(key));
       logger.info('Cleared all AWS client cache');
     }
   }
 
+  /**
+   * Remove a client from the cache and release its sockets
+   */
+  private evict(cacheKey: string): void {
+    const cached = this.clientCache.get(cacheKey);
+    this.clientCache.delete(cacheKey);
+    try {
+      cached?.client.destroy();
+    } catch (error) {
+      logger.error(`Error destroying client ${cacheKey}`, error as Error);
+    }
+  }
+
   /**
    * Destroy all clients (cleanup)
    */
   public async destroy(): Promise<void> {
-    for (const [key, client] of this.clientCache.entries()) {
+    for (const [key, { client }] of this.clientCache.entries()) {
       try {
         if (client && 'destroy' in client && typeof client.destroy === 'function') {
           await client.destroy();
@@ -0,0 +1,155 @@
+/**
+ * Fan-Out Service
+ * Runs read-only calls across several profiles (and, through the region fan-out, regions) and merges the results
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCategory } from '../models';
+import { ToolCallDescriptor } from '../tools/tool-operations';
+import { profileService } from './profile.service';
+import { regionFanOut, FanOutOutcome, ToolExecutor } from './region-fanout.service';
+import { logger, getIntelligentCredentials, getRegion, withEndpoints } from '../utils';
+
+/**
+ * Tools that accept profiles "all" or a list of profiles
+ */
+const PROFILE_FAN_OUT_TOOLS = ['aws-list-resources', 'aws-search-resources', 'aws-get-costs', 'aws-account-info'];
+
+/**
+ * Fan-Out Service
+ * Each profile runs through the normal pipeline (policy, guardrails, cache), so a denied one is reported, not skipped silently
+ */
+export class FanOutService {
+  private static instance: FanOutService;
+
+  private constructor() {
+    logger.info('Fan-Out Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): FanOutService {
+    if (!FanOutService.instance) {
+      FanOutService.instance = new FanOutService();
+    }
+    return FanOutService.instance;
+  }
+
+  /**
+   * Whether a profiles argument asks for a profile fan-out ("all", a list, or a single name as a one-element list)
+   */
+  public isMultiProfile(profiles: unknown): boolean {
+    return typeof profiles === 'string' || Array.isArray(profiles);
+  }
+
+  /**
+   * Run a call once, per profile and/or per region, depending on its profiles and region arguments
+   */
+  public async execute(call: ToolCallDescriptor, args: Record<string, any>, execute: ToolExecutor): Promise<CallToolResult> {
+    const inRegions: ToolExecutor = (regionCall, regionArgs) =>
+      regionFanOut.isMultiRegion(regionArgs.region) ? regionFanOut.run(regionCall, regionArgs, execute) : execute(regionCall, regionArgs);
+
+    return this.isMultiProfile(args.profiles) ? this.runProfiles(call, args, inRegions) : inRegions(call, args);
+  }
+
+  /**
+   * Run a call with every requested profile and group the results by account ID
+   */
+  public async runProfiles(call: ToolCallDescriptor, args: Record<string, any>, execute: ToolExecutor): Promise<CallToolResult> {
+    if (!PROFILE_FAN_OUT_TOOLS.includes(call.tool)) {
+      return this.errorResult(`${call.tool} does not support multiple profiles. Supported: ${PROFILE_FAN_OUT_TOOLS.join(', ')}`);
+    }
+    if (args.nextToken) {
+      return this.errorResult('nextToken applies to a single profile: call again with the profile that returned it');
+    }
+
+    const profiles = args.profiles === 'all'
+      ? ((await profileService.listProfiles()).data || []).map(profile => profile.name)
+      : this.unique([args.profiles].flat());
+
+    if (profiles.length === 0) {
+      return this.errorResult('No profiles to query. Create profiles with aws-manage-profiles or pass profile names.');
+    }
+
+    const { profiles: _profiles, ...rest } = args;
+    const region = typeof args.region === 'string' && args.region !== 'all' ? args.region : undefined;
+
+    logger.info(`Running ${call.tool} with ${profiles.length} profiles`);
+    const outcomes = await regionFanOut.mapConcurrent(profiles, async (profile): Promise<FanOutOutcome> => {
+      // Resolve first so the account is known (and a profile that cannot be resolved is not run),
+      // against the profile's own endpoints like the call itself
+      const credResult = await withEndpoints(profileService.getEndpointConfig(profile), () =>
+        getIntelligentCredentials(profile, getRegion(region))
+      );
+      if (credResult.needsConfiguration) {
+        return {
+          target: profile,
+          notes: [],
+          error: credResult.message || 'AWS credentials not configured.',
+          category: credResult.category,
+        };
+      }
+
+      const outcome = await regionFanOut.toOutcome(profile, () => execute({ ...call, profile }, { ...rest, profile }));
+      return { ...outcome, provenance: credResult.provenance };
+    });
+    return this.groupByAccount(outcomes);
+  }
+
+  /**
+   * Group per-profile results under the account ID their credentials resolved to
+   */
+  private groupByAccount(outcomes: FanOutOutcome[]): CallToolResult {
+    const accounts = new Map<string, { accountId: string; profiles: string[]; results: Array<Record<string, any>> }>();
+    const errors: Array<{ profile: string; error: string; category?: ErrorCategory }> = [];
+    const notes = new Set<string>();
+
+    for (const outcome of outcomes) {
+      const profile = outcome.target;
+      if (outcome.error !== undefined || !outcome.data) {
+        errors.push({ profile, error: outcome.error || 'No result', category: outcome.category });
+        continue;
+      }
+
+      outcome.notes.forEach(note => notes.add(note));
+      const accountId = outcome.provenance?.accountId || 'unknown';
+      const account = accounts.get(accountId) || { accountId, profiles: [], results: [] };
+      const { success: _success, ...data } = outcome.data;
+
+      account.profiles.push(profile);
+      account.results.push({ profile, credentialSource: outcome.provenance?.source, ...data });
+      accounts.set(accountId, account);
+    }
+
+    return this.toResult(
+      { accountCount: accounts.size, accounts: [...accounts.values()], errors: errors.length > 0 ? errors : undefined },
+      accounts.size > 0,
+      notes
+    );
+  }
+
+  private toResult(body: Record<string, any>, succeeded: boolean, notes: Set<string>): CallToolResult {
+    return {
+      content: [
+        ...[...notes].map(note => ({ type: 'text' as const, text: note })),
+        { type: 'text', text: JSON.stringify({ success: succeeded, ...body }, null, 2) },
+      ],
+      isError: !succeeded,
+    };
+  }
+
+  private unique(values: unknown[]): string[] {
+    return [...new Set(values.filter((value): value is string => typeof value === 'string' && value.length > 0))];
+  }
+
+  private errorResult(error: string): CallToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: false, error }, null, 2) }],
+      isError: true,
+    };
+  }
+}
+
+// Export singleton instance
+export const fanOut = FanOutService.getInstance();
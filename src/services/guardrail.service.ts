@@ -0,0 +1,150 @@
+/**
+ * Guardrail Service
+ * Environment-aware policy applied to every unified tool call
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Environment } from '../models';
+import { ToolCallDescriptor } from '../tools/tool-operations';
+import { profileService } from './profile.service';
+import { logger, config, confirmations, ConfirmationTicket } from '../utils';
+
+/**
+ * Guardrail decision for a tool call
+ */
+export interface GuardrailDecision {
+  outcome: 'allow' | 'deny' | 'confirm';
+  args: Record<string, any>;
+  profile?: string;
+  environment?: Environment;
+  reason?: string;
+  confirmation?: ConfirmationTicket;
+}
+
+/**
+ * Guardrail Service
+ * Reads the environment of the resolved profile and allows, denies or asks for confirmation.
+ * Every call the tool registry classifies as mutating is gated on production profiles
+ */
+export class GuardrailService {
+  private static instance: GuardrailService;
+
+  private constructor() {
+    logger.info('Guardrail Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): GuardrailService {
+    if (!GuardrailService.instance) {
+      GuardrailService.instance = new GuardrailService();
+    }
+    return GuardrailService.instance;
+  }
+
+  /**
+   * Evaluate a tool call against the environment guardrails
+   */
+  public evaluate(call: ToolCallDescriptor, args: Record<string, any>): GuardrailDecision {
+    // Profile management only touches local storage
+    if (call.tool === 'aws-manage-profiles') {
+      return { outcome: 'allow', args };
+    }
+
+    const target = profileService.getProfileEnvironment(call.profile);
+    const decision: GuardrailDecision = {
+      outcome: 'allow',
+      args,
+      profile: target?.name,
+      environment: target?.environment,
+    };
+
+    if (target?.environment !== 'production' || !call.mutating) {
+      return decision;
+    }
+
+    if (call.tool === 'aws-manage-secrets') {
+      return this.deny(decision, `Writing secrets is not allowed on production profile '${target.name}'`);
+    }
+
+    if (config.getConfig().productionGuardrail === 'block') {
+      return this.deny(decision, `Operation '${call.operation}' is blocked on production profile '${target.name}'`);
+    }
+
+    // aws-execute-action has its own dry run: force the preview until a token comes back
+    if (call.tool === 'aws-execute-action') {
+      if (!args.confirmationToken) {
+        logger.info(`Production guardrail: forcing dry run for ${call.operation}`, { profile: target.name });
+        decision.args = { ...args, dryRun: true };
+      }
+      return decision;
+    }
+
+    const { confirmationToken, ...request } = args;
+    const fingerprint = confirmations.fingerprint({ tool: call.tool, request });
+
+    if (confirmationToken) {
+      const check = confirmations.consume(confirmationToken, fingerprint);
+      return check.valid ? decision : this.deny(decision, check.reason!);
+    }
+
+    decision.outcome = 'confirm';
+    decision.reason = `Operation '${call.operation}' on production profile '${target.name}' requires confirmation`;
+    decision.confirmation = confirmations.issue(fingerprint);
+    logger.info('Production guardrail: confirmation required', { tool: call.tool, operation: call.operation });
+    return decision;
+  }
+
+  /**
+   * Build the tool result for a denied or unconfirmed call
+   */
+  public toResult(decision: GuardrailDecision): CallToolResult {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          guardrail: decision.outcome === 'deny' ? 'denied' : 'confirmation-required',
+          profile: decision.profile,
+          environment: decision.environment,
+          reason: decision.reason,
+          confirmationToken: decision.confirmation?.token,
+          expiresAt: decision.confirmation?.expiresAt,
+          message: decision.confirmation
+            ? 'Nothing was changed. Confirm with the user, then repeat the same request with confirmationToken.'
+            : undefined,
+        }, null, 2),
+      }],
+      isError: decision.outcome === 'deny',
+    };
+  }
+
+  /**
+   * Prefix a production warning banner to a tool result
+   */
+  public withBanner(result: CallToolResult, decision: GuardrailDecision): CallToolResult {
+    if (decision.environment !== 'production') {
+      return result;
+    }
+
+    return {
+      ...result,
+      content: [
+        {
+          type: 'text',
+          text: `⚠️ PRODUCTION ENVIRONMENT - this call ran against production profile '${decision.profile}'`,
+        },
+        ...result.content,
+      ],
+    };
+  }
+
+  private deny(decision: GuardrailDecision, reason: string): GuardrailDecision {
+    logger.warn(`Guardrail denied call: ${reason}`);
+    return { ...decision, outcome: 'deny', reason };
+  }
+}
+
+// Export singleton instance
+export const guardrailService = GuardrailService.getInstance();
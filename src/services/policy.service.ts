@@ -0,0 +1,343 @@
+/**
+ * Policy Service
+ * Declarative allow/deny rules loaded from user and workspace policy files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { PolicyDocument, PolicyEvaluation, PolicyRule } from '../models';
+import { ToolCallDescriptor } from '../tools/tool-operations';
+import { profileService } from './profile.service';
+import { logger, config, getRegion, getIntelligentCredentials } from '../utils';
+
+/**
+ * Argument fields that always carry ARNs
+ */
+const ARN_FIELDS = ['arn', 'resourceArn', 'secretArn'];
+
+/**
+ * Argument fields naming resources, and the kind of resource they name (undefined: the call's resource type)
+ */
+const RESOURCE_FIELDS: Record<string, string | undefined> = {
+  resourceIds: undefined,
+  resourceId: undefined,
+  secretId: 'secret',
+  parameterName: 'parameter',
+  logGroup: 'log-group',
+  tableName: 'dynamodb-table',
+};
+
+/**
+ * ARN of a resource from its ID, region, account and (for ECS and EKS children) cluster
+ */
+const ARN_TEMPLATES: Record<string, (id: string, region: string, account: string, cluster?: string) => string | undefined> = {
+  'ec2-instance': (id, region, account) => `arn:aws:ec2:${region}:${account}:instance/${id}`,
+  'ec2-security-group': (id, region, account) => `arn:aws:ec2:${region}:${account}:security-group/${id}`,
+  'ec2-key-pair': (id, region, account) => `arn:aws:ec2:${region}:${account}:key-pair/${id}`,
+  's3-bucket': id => `arn:aws:s3:::${id}`,
+  'lambda-function': (id, region, account) => `arn:aws:lambda:${region}:${account}:function:${id}`,
+  'dynamodb-table': (id, region, account) => `arn:aws:dynamodb:${region}:${account}:table/${id}`,
+  'dynamodb-ttl': (id, region, account) => `arn:aws:dynamodb:${region}:${account}:table/${id}`,
+  'rds-instance': (id, region, account) => `arn:aws:rds:${region}:${account}:db:${id}`,
+  'rds-cluster': (id, region, account) => `arn:aws:rds:${region}:${account}:cluster:${id}`,
+  'rds-snapshot': (id, region, account) => `arn:aws:rds:${region}:${account}:snapshot:${id}`,
+  'secret': (id, region, account) => `arn:aws:secretsmanager:${region}:${account}:secret:${id}`,
+  'parameter': (id, region, account) => `arn:aws:ssm:${region}:${account}:parameter/${id.replace(/^\//, '')}`,
+  'log-group': (id, region, account) => `arn:aws:logs:${region}:${account}:log-group:${id}`,
+  'ecs-cluster': (id, region, account) => `arn:aws:ecs:${region}:${account}:cluster/${id}`,
+  'ecs-service': (id, region, account, cluster) => `arn:aws:ecs:${region}:${account}:service/${cluster}/${id}`,
+  'ecs-task': (id, region, account, cluster) => `arn:aws:ecs:${region}:${account}:task/${cluster}/${id}`,
+  'ecs-task-definition': (id, region, account) => `arn:aws:ecs:${region}:${account}:task-definition/${id}`,
+  'eks-cluster': (id, region, account) => `arn:aws:eks:${region}:${account}:cluster/${id}`,
+  'eks-nodegroup': (id, region, account, cluster) => cluster && `arn:aws:eks:${region}:${account}:nodegroup/${cluster}/${id}`,
+  'eks-addon': (id, region, account, cluster) => cluster && `arn:aws:eks:${region}:${account}:addon/${cluster}/${id}`,
+};
+
+/**
+ * A resource named by a call: the value passed and its ARN, when one could be derived
+ */
+interface CallResource {
+  id: string;
+  arn?: string;
+}
+
+/**
+ * Policy file loaded from disk
+ */
+interface LoadedPolicy {
+  source: string;
+  mtimeMs: number;
+  document: PolicyDocument;
+}
+
+/**
+ * Policy Service
+ * Evaluates every tool call against the rules found in the policy files (deny wins over allow)
+ */
+export class PolicyService {
+  private static instance: PolicyService;
+  private policies = new Map<string, LoadedPolicy>();
+
+  private constructor() {
+    logger.info('Policy Service initialized', { files: this.getPolicyFiles() });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PolicyService {
+    if (!PolicyService.instance) {
+      PolicyService.instance = new PolicyService();
+    }
+    return PolicyService.instance;
+  }
+
+  /**
+   * Policy file locations: user, workspace and an optional explicit file
+   */
+  public getPolicyFiles(): string[] {
+    const workspace = process.env.MCP_AWS_CLI_WORKSPACE || process.cwd();
+    const files = [
+      path.join(os.homedir(), '.mcp-aws-cli', 'policy.json'),
+      path.join(workspace, '.mcp-aws-cli', 'policy.json'),
+    ];
+
+    const policyFile = config.getConfig().policyFile;
+    if (policyFile) {
+      files.push(path.resolve(workspace, policyFile));
+    }
+
+    return [...new Set(files)];
+  }
+
+  /**
+   * Evaluate a tool call against the loaded policies
+   */
+  public async evaluate(call: ToolCallDescriptor, args: Record<string, any>): Promise<PolicyEvaluation> {
+    const policies = this.loadPolicies();
+    if (policies.length === 0) {
+      return { allowed: true, reason: 'No policy file found' };
+    }
+
+    const profile = call.profile || profileService.getActiveProfileName() || 'default';
+    const region = getRegion(call.region);
+    // Deriving ARNs needs the account, so it is only done when a rule is scoped to resources
+    const resourceScoped = policies.some(policy => policy.document.rules.some(rule => rule.arns));
+    const resources = resourceScoped ? await this.collectResources(call, args, region) : [];
+    let allowMatch: PolicyEvaluation | undefined;
+
+    for (const policy of policies) {
+      for (const [index, rule] of policy.document.rules.entries()) {
+        const match = this.matches(rule, call, profile, region, resources);
+        if (!match) {
+          continue;
+        }
+
+        const unresolved = match === 'unresolved'
+          ? ` (the ARN of ${resources.filter(resource => !resource.arn).map(resource => resource.id).join(', ')} could not be derived)`
+          : '';
+        const evaluation: PolicyEvaluation = {
+          allowed: rule.effect === 'allow',
+          reason: (rule.description || `Matched ${rule.effect} rule ${rule.id || `#${index}`} in ${policy.source}`) + unresolved,
+          matchedRule: { ...rule, source: policy.source, index },
+        };
+
+        if (rule.effect === 'deny') {
+          logger.warn(`Policy denied call: ${call.tool} ${call.operation}`, { rule: rule.id || index, source: policy.source });
+          return evaluation;
+        }
+
+        allowMatch = allowMatch || evaluation;
+      }
+    }
+
+    if (allowMatch) {
+      return allowMatch;
+    }
+
+    // Any file defaulting to deny makes the whole policy default-deny
+    const defaultDeny = policies.find(policy => policy.document.defaultEffect === 'deny');
+    if (defaultDeny) {
+      logger.warn(`Policy denied call by default: ${call.tool} ${call.operation}`, { source: defaultDeny.source });
+      return { allowed: false, reason: `No rule allows this call (defaultEffect is deny in ${defaultDeny.source})` };
+    }
+
+    return { allowed: true, reason: 'No rule matched' };
+  }
+
+  /**
+   * Build the tool result for a denied call
+   */
+  public toResult(call: ToolCallDescriptor, evaluation: PolicyEvaluation): CallToolResult {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          policy: 'denied',
+          tool: call.tool,
+          operation: call.operation,
+          resourceType: call.resourceType,
+          reason: evaluation.reason,
+          matchedRule: evaluation.matchedRule,
+        }, null, 2),
+      }],
+      isError: true,
+    };
+  }
+
+  /**
+   * Load policy files, re-reading a file only when it changed on disk
+   */
+  private loadPolicies(): LoadedPolicy[] {
+    const loaded: LoadedPolicy[] = [];
+
+    for (const file of this.getPolicyFiles()) {
+      let stat: fs.Stats;
+      try {
+        stat = fs.statSync(file);
+      } catch {
+        this.policies.delete(file);
+        continue;
+      }
+
+      const cached = this.policies.get(file);
+      if (cached && cached.mtimeMs === stat.mtimeMs) {
+        loaded.push(cached);
+        continue;
+      }
+
+      const policy: LoadedPolicy = { source: file, mtimeMs: stat.mtimeMs, document: this.readPolicy(file) };
+      this.policies.set(file, policy);
+      loaded.push(policy);
+      logger.info(`Loaded policy file: ${file}`, { rules: policy.document.rules.length });
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Read and validate a policy file (an unreadable file denies everything rather than failing open)
+   */
+  private readPolicy(file: string): PolicyDocument {
+    try {
+      const document = JSON.parse(fs.readFileSync(file, 'utf-8')) as PolicyDocument;
+      if (!Array.isArray(document.rules)) {
+        throw new Error('"rules" must be an array');
+      }
+      for (const [index, rule] of document.rules.entries()) {
+        if (rule.effect !== 'allow' && rule.effect !== 'deny') {
+          throw new Error(`rule #${index} must have effect "allow" or "deny"`);
+        }
+      }
+      return document;
+    } catch (error) {
+      logger.error(`Invalid policy file ${file}, denying all calls`, error as Error);
+      return {
+        defaultEffect: 'deny',
+        rules: [{
+          id: 'invalid-policy-file',
+          effect: 'deny',
+          description: `Policy file ${file} is invalid: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+      };
+    }
+  }
+
+  /**
+   * Check every condition of a rule against the call. ARN patterns match derived ARNs and the IDs as passed;
+   * a deny rule scoped to resources whose ARNs could not be derived matches ("unresolved") so it fails closed
+   */
+  private matches(rule: PolicyRule, call: ToolCallDescriptor, profile: string, region: string, resources: CallResource[]): boolean | 'unresolved' {
+    if (rule.mutating !== undefined && rule.mutating !== call.mutating) {
+      return false;
+    }
+
+    const matchesCall =
+      this.matchesAny(rule.tools, call.tool) &&
+      this.matchesAny(rule.operations, call.operation) &&
+      this.matchesAny(rule.resourceTypes, call.resourceType) &&
+      this.matchesAny(rule.regions, region) &&
+      this.matchesAny(rule.profiles, profile);
+    if (!matchesCall || !rule.arns) {
+      return matchesCall;
+    }
+
+    if (resources.some(resource => this.matchesAny(rule.arns, resource.id) || (resource.arn && this.matchesAny(rule.arns, resource.arn)))) {
+      return true;
+    }
+    return rule.effect === 'deny' && resources.some(resource => !resource.arn) ? 'unresolved' : false;
+  }
+
+  private matchesAny(patterns: string[] | undefined, value: string | undefined): boolean {
+    if (!patterns) {
+      return true;
+    }
+    return value !== undefined && patterns.some(pattern => this.globToRegExp(pattern).test(value));
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+  }
+
+  /**
+   * Resources named by a call, with ARNs built from their kind, the region and the account of the call's credentials
+   */
+  private async collectResources(call: ToolCallDescriptor, args: Record<string, any>, region: string): Promise<CallResource[]> {
+    const sources = [args, args.queryParams, args.actionParams, args.additionalParams].filter(Boolean);
+    const arns = sources.flatMap(source => ARN_FIELDS.flatMap(field => source[field] ?? []));
+    const named = sources.flatMap(source => Object.entries(RESOURCE_FIELDS).flatMap(([field, kind]) =>
+      [source[field] ?? []].flat().map((id: unknown) => ({ id, kind: kind || this.getResourceKind(call, args) }))
+    ));
+
+    const resources: CallResource[] = arns
+      .filter((arn): arn is string => typeof arn === 'string')
+      .map(arn => ({ id: arn, arn: arn.startsWith('arn:') ? arn : undefined }));
+    if (named.length === 0) {
+      return resources;
+    }
+
+    const account = await this.resolveAccountId(call.profile, region);
+    const cluster = args.clusterName ?? args.additionalParams?.clusterName ?? args.additionalParams?.cluster
+      ?? args.actionParams?.clusterName ?? args.actionParams?.cluster;
+    for (const { id, kind } of named) {
+      if (typeof id !== 'string') {
+        continue;
+      }
+      const template = kind ? ARN_TEMPLATES[kind] : undefined;
+      const arn = id.startsWith('arn:')
+        ? id
+        : template && account ? template(id, region, account, cluster ?? (kind!.startsWith('ecs-') ? 'default' : undefined)) : undefined;
+      resources.push({ id, arn });
+    }
+    return resources;
+  }
+
+  /**
+   * Singular resource kind of a call ("ec2-instances" and container "services" on ECS become "ec2-instance" and "ecs-service")
+   */
+  private getResourceKind(call: ToolCallDescriptor, args: Record<string, any>): string | undefined {
+    if (call.tool === 'aws-manage-secrets') {
+      return args.service === 'parameter-store' ? 'parameter' : 'secret';
+    }
+    return call.resourceType?.replace(/s$/, '');
+  }
+
+  /**
+   * Account the call runs in, from the credentials of its profile (undefined when they cannot be resolved)
+   */
+  private async resolveAccountId(profile: string | undefined, region: string): Promise<string | undefined> {
+    try {
+      return (await getIntelligentCredentials(profile, region)).provenance?.accountId;
+    } catch {
+      logger.warn('Could not resolve account ID for policy ARNs', { profile });
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const policyService = PolicyService.getInstance();
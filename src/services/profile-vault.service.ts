@@ -0,0 +1,167 @@
+/**
+ * Profile Vault
+ * Encrypted storage for profile credentials (AES-256-GCM)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { AWSCredentials, EncryptedVault, VaultKeySource } from '../models';
+import { logger, config, ProfileError } from '../utils';
+
+const VAULT_VERSION = '1.0.0';
+
+/**
+ * Resolved encryption key
+ */
+interface VaultKey {
+  key: Buffer;
+  source: VaultKeySource;
+  salt?: string;
+}
+
+/**
+ * Profile Vault
+ * Keeps accessKeyId/secretAccessKey/sessionToken out of profiles.json.
+ * Key sources, in order: VS Code SecretStorage (handed over by the extension),
+ * MCP_AWS_CLI_PASSPHRASE, and a key file (standalone only).
+ */
+export class ProfileVault {
+  private static instance: ProfileVault;
+  private vaultFilePath: string;
+  private providedKey?: Buffer;
+
+  private constructor() {
+    this.vaultFilePath = path.join(os.homedir(), '.mcp-aws-cli', 'credentials.enc');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ProfileVault {
+    if (!ProfileVault.instance) {
+      ProfileVault.instance = new ProfileVault();
+    }
+    return ProfileVault.instance;
+  }
+
+  /**
+   * Generate a new random key (base64)
+   */
+  public generateKey(): string {
+    return crypto.randomBytes(32).toString('base64');
+  }
+
+  /**
+   * Use a key kept in VS Code SecretStorage
+   */
+  public setKey(key: string): void {
+    this.providedKey = Buffer.from(key, 'base64');
+  }
+
+  /**
+   * Decrypt all stored credentials
+   */
+  public load(): Record<string, AWSCredentials> {
+    if (!fs.existsSync(this.vaultFilePath)) {
+      return {};
+    }
+
+    const vault = JSON.parse(fs.readFileSync(this.vaultFilePath, 'utf-8')) as EncryptedVault;
+    const { key, source } = this.resolveKey(vault.salt ? Buffer.from(vault.salt, 'base64') : undefined);
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(vault.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(vault.data, 'base64')), decipher.final()]);
+      return JSON.parse(data.toString('utf-8'));
+    } catch (error) {
+      throw new ProfileError(
+        `Cannot decrypt profile credentials with the ${source} key (vault was encrypted with the ${vault.keySource} key)`,
+        'loadVault',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Encrypt and write all credentials
+   */
+  public save(credentials: Record<string, AWSCredentials>): void {
+    const { key, source, salt } = this.resolveKey(this.readSalt() ?? crypto.randomBytes(16), true);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf-8'), cipher.final()]);
+
+    const vault: EncryptedVault = {
+      version: VAULT_VERSION,
+      keySource: source,
+      salt,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    writePrivateFile(this.vaultFilePath, JSON.stringify(vault, null, 2));
+    logger.debug('Profile vault saved', { keySource: source, profileCount: Object.keys(credentials).length });
+  }
+
+  private readSalt(): Buffer | undefined {
+    if (!fs.existsSync(this.vaultFilePath)) {
+      return undefined;
+    }
+    const vault = JSON.parse(fs.readFileSync(this.vaultFilePath, 'utf-8')) as EncryptedVault;
+    return vault.salt ? Buffer.from(vault.salt, 'base64') : undefined;
+  }
+
+  /**
+   * Find the encryption key (the key file is only created when writing)
+   */
+  private resolveKey(salt?: Buffer, create = false): VaultKey {
+    const storageKey = this.providedKey ?? (process.env.MCP_AWS_CLI_STORAGE_KEY
+      ? Buffer.from(process.env.MCP_AWS_CLI_STORAGE_KEY, 'base64')
+      : undefined);
+    if (storageKey) {
+      return { key: storageKey, source: 'secret-storage' };
+    }
+
+    const passphrase = process.env.MCP_AWS_CLI_PASSPHRASE;
+    if (passphrase) {
+      if (!salt) {
+        throw new ProfileError('Profile vault was not encrypted with a passphrase', 'resolveVaultKey');
+      }
+      return { key: crypto.scryptSync(passphrase, salt, 32), source: 'passphrase', salt: salt.toString('base64') };
+    }
+
+    if (config.isVSCode()) {
+      throw new ProfileError('Profile credentials are locked: VS Code SecretStorage key not available yet', 'resolveVaultKey');
+    }
+
+    const keyFile = process.env.MCP_AWS_CLI_KEY_FILE || path.join(os.homedir(), '.mcp-aws-cli', 'storage.key');
+    if (!fs.existsSync(keyFile)) {
+      if (!create) {
+        throw new ProfileError(
+          `Profile credentials are locked: set MCP_AWS_CLI_PASSPHRASE or provide the key file ${keyFile}`,
+          'resolveVaultKey'
+        );
+      }
+      writePrivateFile(keyFile, this.generateKey());
+      logger.info(`Created profile vault key file: ${keyFile}`);
+    }
+
+    return { key: Buffer.from(fs.readFileSync(keyFile, 'utf-8').trim(), 'base64'), source: 'key-file' };
+  }
+}
+
+/**
+ * Write a file readable only by the current user
+ */
+export function writePrivateFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(filePath, content, { encoding: 'utf-8', mode: 0o600 });
+  fs.chmodSync(filePath, 0o600);
+}
+
+// Export singleton instance
+export const profileVault = ProfileVault.getInstance();
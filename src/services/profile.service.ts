@@ -12,9 +12,23 @@ import {
   UpdateProfileInput,
   ProfileListItem,
   ProfileStorage,
+  StoredProfile,
+  AWSCredentials,
   BaseResponse,
+  Environment,
+  EndpointConfig,
 } from '../models';
-import { logger, ErrorHandler, ProfileError } from '../utils';
+import { logger, ErrorHandler, ProfileError, AssumeRoleError, SSOError, validateEndpoint } from '../utils';
+import { profileVault, writePrivateFile } from './profile-vault.service';
+import { assumeRoleService } from './assume-role.service';
+import { ssoService } from './sso.service';
+
+const STORAGE_VERSION = '2.0.0';
+
+/**
+ * Maximum number of roles in an assume-role chain
+ */
+const MAX_ROLE_CHAIN = 5;
 
 /**
  * Profile Service
@@ -24,6 +38,8 @@ export class ProfileService {
   private static instance: ProfileService;
   private storageFilePath: string;
   private storage: ProfileStorage;
+  private credentials?: Record<string, AWSCredentials>;
+  private legacyCredentials: Record<string, AWSCredentials> = {};
 
   private constructor() {
     // Store profiles in home directory
@@ -32,7 +48,7 @@ export class ProfileService {
     
     // Create directory if it doesn't exist
     if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
+      fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
       logger.info(`Created config directory: ${configDir}`);
     }
 
@@ -61,8 +77,21 @@ export class ProfileService {
   private loadStorage(): ProfileStorage {
     try {
       if (fs.existsSync(this.storageFilePath)) {
+        fs.chmodSync(this.storageFilePath, 0o600);
         const content = fs.readFileSync(this.storageFilePath, 'utf-8');
         const storage = JSON.parse(content) as ProfileStorage;
+
+        // Pre-2.0 files hold plaintext credentials: keep them in memory until moved to the vault
+        for (const profile of Object.values(storage.profiles) as Array<StoredProfile & Partial<AWSCredentials>>) {
+          const { accessKeyId, secretAccessKey, sessionToken } = profile;
+          if (accessKeyId && secretAccessKey) {
+            this.legacyCredentials[profile.name] = { accessKeyId, secretAccessKey, sessionToken };
+          }
+          delete profile.accessKeyId;
+          delete profile.secretAccessKey;
+          delete profile.sessionToken;
+        }
+
         logger.debug('Profile storage loaded', {
           profileCount: Object.keys(storage.profiles).length,
           activeProfile: storage.activeProfile,
@@ -75,20 +104,27 @@ export class ProfileService {
 
     // Return default storage
     return {
-      version: '1.0.0',
+      version: STORAGE_VERSION,
       profiles: {},
       lastModified: new Date().toISOString(),
     };
   }
 
   /**
-   * Save storage to file
+   * Save storage to file (and the credential vault when credentials changed)
    */
-  private saveStorage(): void {
+  private saveStorage(credentialsChanged = false): void {
+    // Never rewrite a pre-2.0 file before its credentials are safely in the vault
+    const credentials = this.getCredentialStore();
+
     try {
+      if (credentialsChanged) {
+        profileVault.save(credentials);
+      }
+
+      this.storage.version = STORAGE_VERSION;
       this.storage.lastModified = new Date().toISOString();
-      const content = JSON.stringify(this.storage, null, 2);
-      fs.writeFileSync(this.storageFilePath, content, 'utf-8');
+      writePrivateFile(this.storageFilePath, JSON.stringify(this.storage, null, 2));
       logger.debug('Profile storage saved');
     } catch (error) {
       logger.error('Error saving profile storage', error as Error);
@@ -96,28 +132,87 @@ export class ProfileService {
     }
   }
 
+  /**
+   * Decrypted credentials, migrating plaintext credentials from an old profiles.json on first use
+   */
+  private getCredentialStore(): Record<string, AWSCredentials> {
+    if (this.credentials) {
+      return this.credentials;
+    }
+
+    const credentials = profileVault.load();
+    const legacyNames = Object.keys(this.legacyCredentials);
+    if (legacyNames.length > 0) {
+      Object.assign(credentials, this.legacyCredentials);
+      profileVault.save(credentials);
+      this.credentials = credentials;
+      this.legacyCredentials = {};
+      this.saveStorage();
+      logger.info(`Moved plaintext credentials of ${legacyNames.length} profile(s) to the encrypted vault`);
+    }
+
+    this.credentials = credentials;
+    return credentials;
+  }
+
+  /**
+   * Move plaintext credentials out of profiles.json as soon as the vault can be unlocked
+   */
+  public migrateLegacyCredentials(): void {
+    if (Object.keys(this.legacyCredentials).length > 0) {
+      this.getCredentialStore();
+    }
+  }
+
+  /**
+   * Merge stored metadata with its credentials
+   */
+  private toProfile(profile: StoredProfile): AWSProfile {
+    const credentials = this.getCredentialStore()[profile.name] ?? { accessKeyId: '', secretAccessKey: '' };
+    return { ...profile, ...credentials };
+  }
+
   /**
    * Create new profile
    */
   public async createProfile(input: CreateProfileInput): Promise<BaseResponse<AWSProfile>> {
     try {
       // Validate input
-      if (!input.name || !input.accessKeyId || !input.secretAccessKey || !input.region) {
-        throw ErrorHandler.handleValidationError('input', 'Name, accessKeyId, secretAccessKey, and region are required');
+      const type = input.type || 'static';
+      if (!input.name || !input.region) {
+        throw ErrorHandler.handleValidationError('input', 'Name and region are required');
+      }
+      if (type === 'static' && (!input.accessKeyId || !input.secretAccessKey)) {
+        throw ErrorHandler.handleValidationError('input', 'accessKeyId and secretAccessKey are required for static profiles');
       }
+      if (type === 'assume-role' && (!input.assumeRole?.sourceProfile || !input.assumeRole.roleArn)) {
+        throw ErrorHandler.handleValidationError('assumeRole', 'sourceProfile and roleArn are required for assume-role profiles');
+      }
+      if (type === 'sso' && !(input.sso?.startUrl && input.sso.ssoRegion && input.sso.accountId && input.sso.roleName)) {
+        throw ErrorHandler.handleValidationError('sso', 'startUrl, ssoRegion, accountId and roleName are required for sso profiles');
+      }
+      this.validateEndpoints(input.endpoints);
 
       // Check if profile already exists
       if (this.storage.profiles[input.name]) {
         throw new ProfileError(`Profile with name '${input.name}' already exists`, 'createProfile');
       }
 
+      const credentials = this.getCredentialStore();
+
       const now = new Date().toISOString();
       const profile: AWSProfile = {
         name: input.name,
-        accessKeyId: input.accessKeyId,
-        secretAccessKey: input.secretAccessKey,
+        type,
+        accessKeyId: input.accessKeyId || '',
+        secretAccessKey: input.secretAccessKey || '',
         region: input.region,
         sessionToken: input.sessionToken,
+        assumeRole: input.assumeRole,
+        sso: input.sso,
+        allowedAccountIds: input.allowedAccountIds,
+        endpoints: input.endpoints && Object.keys(input.endpoints).length > 0 ? input.endpoints : undefined,
+        forcePathStyle: input.forcePathStyle || undefined,
         environment: input.environment,
         isActive: Object.keys(this.storage.profiles).length === 0, // First profile is active
         description: input.description,
@@ -125,17 +220,22 @@ export class ProfileService {
         updatedAt: now,
       };
 
-      // Save profile
-      this.storage.profiles[input.name] = profile;
+      // Save profile metadata and credentials separately
+      const { accessKeyId, secretAccessKey, sessionToken, ...metadata } = profile;
+      this.storage.profiles[input.name] = metadata;
+      if (type === 'static') {
+        credentials[input.name] = { accessKeyId, secretAccessKey, sessionToken };
+      }
       
       // Set as active if it's the first profile
       if (profile.isActive) {
         this.storage.activeProfile = input.name;
       }
 
-      this.saveStorage();
+      this.saveStorage(true);
 
       logger.info(`Profile created: ${input.name}`, {
+        type,
         region: input.region,
         environment: input.environment,
         isActive: profile.isActive,
@@ -158,6 +258,50 @@ export class ProfileService {
     }
   }
 
+  /**
+   * Replace a profile with a new definition, keeping whether it is active. The previous profile is restored
+   * when the new one is invalid or cannot be saved
+   */
+  public async replaceProfile(input: CreateProfileInput): Promise<BaseResponse<AWSProfile>> {
+    const previous = this.storage.profiles[input.name];
+    if (!previous) {
+      return this.createProfile(input);
+    }
+
+    let credentials: Record<string, AWSCredentials>;
+    try {
+      credentials = this.getCredentialStore();
+    } catch (error) {
+      logger.error('Error replacing profile', error as Error);
+      return { success: false, error: ErrorHandler.toErrorDetails(error) };
+    }
+    const previousCredentials = credentials[input.name];
+
+    delete this.storage.profiles[input.name];
+    delete credentials[input.name];
+    const response = await this.createProfile(input);
+
+    if (!response.success || !response.data) {
+      this.storage.profiles[input.name] = previous;
+      if (previousCredentials) {
+        credentials[input.name] = previousCredentials;
+      } else {
+        delete credentials[input.name];
+      }
+      return response;
+    }
+
+    assumeRoleService.clear(input.name);
+    ssoService.clear(input.name);
+    if (previous.isActive) {
+      this.storage.profiles[input.name].isActive = true;
+      response.data.isActive = true;
+      this.saveStorage();
+    }
+    logger.info(`Profile replaced: ${input.name}`);
+    return response;
+  }
+
   /**
    * Update existing profile
    */
@@ -169,23 +313,46 @@ export class ProfileService {
         throw new ProfileError(`Profile with name '${input.name}' not found`, 'updateProfile');
       }
 
+      const credentials = this.getCredentialStore();
+      const profileCredentials = credentials[input.name] ?? { accessKeyId: '', secretAccessKey: '' };
+      const credentialsChanged = !!(input.accessKeyId || input.secretAccessKey || input.sessionToken !== undefined);
+
       // Update fields
-      if (input.accessKeyId) profile.accessKeyId = input.accessKeyId;
-      if (input.secretAccessKey) profile.secretAccessKey = input.secretAccessKey;
+      if (input.accessKeyId) profileCredentials.accessKeyId = input.accessKeyId;
+      if (input.secretAccessKey) profileCredentials.secretAccessKey = input.secretAccessKey;
       if (input.region) profile.region = input.region;
-      if (input.sessionToken !== undefined) profile.sessionToken = input.sessionToken;
+      if (input.sessionToken !== undefined) profileCredentials.sessionToken = input.sessionToken;
       if (input.environment) profile.environment = input.environment;
       if (input.description !== undefined) profile.description = input.description;
+      if (input.allowedAccountIds !== undefined) {
+        profile.allowedAccountIds = input.allowedAccountIds.length > 0 ? input.allowedAccountIds : undefined;
+      }
+      if (input.endpoints !== undefined) {
+        this.validateEndpoints(input.endpoints);
+        profile.endpoints = Object.keys(input.endpoints).length > 0 ? input.endpoints : undefined;
+      }
+      if (input.forcePathStyle !== undefined) profile.forcePathStyle = input.forcePathStyle || undefined;
+      if (input.assumeRole && profile.type === 'assume-role') {
+        profile.assumeRole = { ...profile.assumeRole!, ...input.assumeRole };
+      }
+      if (input.sso && profile.type === 'sso') {
+        profile.sso = { ...profile.sso!, ...input.sso };
+      }
       
       profile.updatedAt = new Date().toISOString();
+      if (!profile.type || profile.type === 'static') {
+        credentials[input.name] = profileCredentials;
+      }
+      assumeRoleService.clear(input.name);
+      ssoService.clear(input.name);
 
-      this.saveStorage();
+      this.saveStorage(credentialsChanged);
 
       logger.info(`Profile updated: ${input.name}`);
 
       return {
         success: true,
-        data: profile,
+        data: this.toProfile(profile),
         metadata: {
           timestamp: profile.updatedAt,
           profile: input.name,
@@ -212,6 +379,9 @@ export class ProfileService {
 
       const wasActive = this.storage.profiles[name].isActive;
       delete this.storage.profiles[name];
+      delete this.getCredentialStore()[name];
+      assumeRoleService.clear(name);
+      ssoService.clear(name);
 
       // If deleted profile was active, set another as active
       if (wasActive) {
@@ -225,7 +395,7 @@ export class ProfileService {
         }
       }
 
-      this.saveStorage();
+      this.saveStorage(true);
 
       logger.info(`Profile deleted: ${name}`);
 
@@ -251,6 +421,7 @@ export class ProfileService {
     try {
       const profiles: ProfileListItem[] = Object.values(this.storage.profiles).map((profile) => ({
         name: profile.name,
+        type: profile.type || 'static',
         region: profile.region,
         environment: profile.environment,
         isActive: profile.isActive,
@@ -295,7 +466,7 @@ export class ProfileService {
 
       return {
         success: true,
-        data: profile,
+        data: this.toProfile(profile),
         metadata: {
           timestamp: new Date().toISOString(),
           profile: profile.name,
@@ -335,7 +506,7 @@ export class ProfileService {
 
       return {
         success: true,
-        data: profile,
+        data: this.toProfile(profile),
         metadata: {
           timestamp: new Date().toISOString(),
           profile: name,
@@ -364,7 +535,7 @@ export class ProfileService {
 
       return {
         success: true,
-        data: profile,
+        data: this.toProfile(profile),
         metadata: {
           timestamp: new Date().toISOString(),
           profile: name,
@@ -413,13 +584,130 @@ export class ProfileService {
       );
     }
 
+    if (profile.type === 'assume-role') {
+      const roleCredentials = assumeRoleService.getCachedCredentials(name);
+      if (!roleCredentials) {
+        throw new AssumeRoleError(
+          `Profile '${name}' is an assume-role profile without valid cached credentials; use the unified tools or the "assume" operation`,
+          'getCredentials'
+        );
+      }
+      return roleCredentials;
+    }
+
+    if (profile.type === 'sso') {
+      const ssoCredentials = ssoService.getCachedCredentials(name);
+      if (!ssoCredentials) {
+        throw new SSOError(
+          `Profile '${name}' is an SSO profile without valid cached credentials; use the unified tools`,
+          'getCredentials'
+        );
+      }
+      return ssoCredentials;
+    }
+
+    const credentials = this.getCredentialStore()[name];
+    if (!credentials) {
+      throw new ProfileError(`No credentials stored for profile '${name}'`, 'getCredentials');
+    }
+
     return {
-      accessKeyId: profile.accessKeyId,
-      secretAccessKey: profile.secretAccessKey,
-      sessionToken: profile.sessionToken,
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      sessionToken: credentials.sessionToken,
     };
   }
 
+  /**
+   * Resolve credentials for any profile type: SSO role credentials, or roles (and role chains) assumed through STS
+   */
+  public async resolveCredentials(profileName?: string, mfaCode?: string, chain: string[] = []): Promise<AWSCredentials> {
+    const name = profileName || this.storage.activeProfile;
+    const profile = name ? this.storage.profiles[name] : undefined;
+    if (!name || !profile) {
+      return this.getCredentials(name);
+    }
+
+    if (profile.type === 'sso') {
+      return ssoService.getRoleCredentials(name, profile.sso!);
+    }
+
+    if (profile.type !== 'assume-role') {
+      return this.getCredentials(name);
+    }
+
+    const cached = assumeRoleService.getCachedCredentials(name);
+    if (cached && !mfaCode) {
+      return cached;
+    }
+
+    if (chain.includes(name)) {
+      throw new AssumeRoleError(`Role chain loop: ${[...chain, name].join(' -> ')}`, 'resolveCredentials');
+    }
+    if (chain.length >= MAX_ROLE_CHAIN) {
+      throw new AssumeRoleError(`Role chain longer than ${MAX_ROLE_CHAIN}: ${[...chain, name].join(' -> ')}`, 'resolveCredentials');
+    }
+
+    const roleConfig = profile.assumeRole!;
+    if (!this.storage.profiles[roleConfig.sourceProfile]) {
+      throw new AssumeRoleError(
+        `Source profile '${roleConfig.sourceProfile}' of '${name}' not found`,
+        'resolveCredentials'
+      );
+    }
+
+    const sourceCredentials = await this.resolveCredentials(roleConfig.sourceProfile, undefined, [...chain, name]);
+    return assumeRoleService.assumeRole(name, roleConfig, profile.region, sourceCredentials, mfaCode);
+  }
+
+  /**
+   * Get the name of the active profile
+   */
+  public getActiveProfileName(): string | undefined {
+    return this.storage.activeProfile;
+  }
+
+  /**
+   * Get the environment of a profile (active profile if no name given)
+   */
+  public getProfileEnvironment(profileName?: string): { name: string; environment: Environment } | undefined {
+    const name = profileName || this.storage.activeProfile;
+    const profile = name ? this.storage.profiles[name] : undefined;
+    if (!profile) {
+      return undefined;
+    }
+
+    return {
+      name: profile.name,
+      environment: profile.environment,
+    };
+  }
+
+  /**
+   * Account IDs a profile may resolve to (undefined when unrestricted)
+   */
+  public getAllowedAccountIds(profileName?: string): string[] | undefined {
+    const name = profileName || this.storage.activeProfile;
+    return name ? this.storage.profiles[name]?.allowedAccountIds : undefined;
+  }
+
+  /**
+   * Endpoint overrides of a profile (active profile if no name given)
+   */
+  public getEndpointConfig(profileName?: string): EndpointConfig | undefined {
+    const name = profileName || this.storage.activeProfile;
+    const profile = name ? this.storage.profiles[name] : undefined;
+    return profile && (profile.endpoints || profile.forcePathStyle)
+      ? { endpoints: profile.endpoints, forcePathStyle: profile.forcePathStyle }
+      : undefined;
+  }
+
+  private validateEndpoints(endpoints?: Record<string, string>): void {
+    for (const [service, endpoint] of Object.entries(endpoints || {})) {
+      validateEndpoint(service, endpoint);
+    }
+  }
+
   /**
    * Check if any profile exists
    */
@@ -0,0 +1,316 @@
+/**
+ * Recording Service
+ * Records the AWS SDK calls made by the tools into fixture files ("cassettes") with secrets scrubbed,
+ * and replays them without network access or credentials (mcpAwsCli.recordingMode)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { AWSRegion } from '../models';
+import { logger, config, AWSServiceError } from '../utils';
+
+/**
+ * Field names whose values never reach a fixture (compared case-insensitively)
+ */
+const SCRUBBED_FIELDS = [
+  'accesskeyid',
+  'secretaccesskey',
+  'sessiontoken',
+  'secretstring',
+  'secretbinary',
+  'secretvalue',
+  'password',
+  'masteruserpassword',
+  'passphrase',
+  'keymaterial',
+  'privatekey',
+  'authorizationtoken',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'clientsecret',
+  'devicecode',
+  'variables',
+];
+
+const SCRUBBED = '[SCRUBBED]';
+
+/**
+ * Arguments holding time windows (startTime, EndTime, TimePeriod...), which differ between recording and replay
+ */
+const TIME_FIELDS = /time|date|^(start|end)$/i;
+
+/**
+ * Any AWS SDK v3 client (only its middleware stack is used)
+ */
+interface TrackableClient {
+  middlewareStack: {
+    add(middleware: any, options: { step: 'initialize'; name: string; priority?: 'high' | 'normal' | 'low' }): void;
+  };
+}
+
+/**
+ * Outcome of one recorded call: the command output or the error it failed with
+ */
+interface RecordedResponse {
+  output?: unknown;
+  error?: { name: string; message: string; $fault?: string; $metadata?: unknown; $retryable?: unknown };
+}
+
+/**
+ * Fixture file of one request; repeated identical requests are replayed in recorded order
+ */
+interface Fixture {
+  service: string;
+  command: string;
+  region: AWSRegion;
+  input: unknown;
+  recordedAt: string;
+  responses: RecordedResponse[];
+}
+
+/**
+ * Recording Service
+ */
+export class RecordingService {
+  private static instance: RecordingService;
+  // Fixtures written by this process (later calls append to them) and replay positions per fixture
+  private recorded = new Set<string>();
+  private replayed = new Map<string, number>();
+
+  private constructor() {
+    const mode = config.getConfig().recordingMode;
+    if (mode !== 'off') {
+      logger.info(`Recording Service initialized (${mode})`, { directory: this.getDirectory() });
+    }
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RecordingService {
+    if (!RecordingService.instance) {
+      RecordingService.instance = new RecordingService();
+    }
+    return RecordingService.instance;
+  }
+
+  /**
+   * Cassette directory: mcpAwsCli.recordingDir (relative to the workspace) or ~/.mcp-aws-cli/recordings
+   */
+  public getDirectory(): string {
+    const directory = config.getConfig().recordingDir;
+    if (!directory) {
+      return path.join(os.homedir(), '.mcp-aws-cli', 'recordings');
+    }
+    return path.resolve(process.env.MCP_AWS_CLI_WORKSPACE || process.cwd(), directory);
+  }
+
+  /**
+   * Add the record/replay middleware to a client (outermost, so retries and rate limiting happen inside it)
+   */
+  public track<T extends TrackableClient>(client: T, region: AWSRegion): T {
+    client.middlewareStack.add(
+      (next: any, context: any) => async (args: any) => {
+        const mode = config.getConfig().recordingMode;
+        if (mode === 'off') {
+          return next(args);
+        }
+
+        const service = String(context.clientName || 'AWS').replace(/Client$/, '');
+        const command = String(context.commandName || 'Command').replace(/Command$/, '');
+        const input = scrub(args.input);
+        if (mode === 'replay') {
+          return this.replay(service, command, region, input);
+        }
+
+        try {
+          const result = await next(args);
+          this.record(service, command, region, input, { output: scrub(result.output) });
+          return result;
+        } catch (error: any) {
+          this.record(service, command, region, input, {
+            error: {
+              name: error?.name || 'Error',
+              message: error?.message || String(error),
+              $fault: error?.$fault,
+              $metadata: error?.$metadata,
+              $retryable: error?.$retryable,
+            },
+          });
+          throw error;
+        }
+      },
+      { step: 'initialize', name: 'mcpAwsCliRecordingMiddleware', priority: 'high' }
+    );
+    return client;
+  }
+
+  /**
+   * Append a response to the fixture of a request (the first call of a process starts the fixture over)
+   */
+  private record(service: string, command: string, region: AWSRegion, input: unknown, response: RecordedResponse): void {
+    const file = this.getFixturePath(service, command, region, input);
+    try {
+      const fixture: Fixture = this.recorded.has(file)
+        ? this.readFixture(file)
+        : { service, command, region, input, recordedAt: '', responses: [] };
+      fixture.recordedAt = new Date().toISOString();
+      fixture.responses.push(response);
+
+      fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(file, JSON.stringify(fixture, encode, 2) + '\n', { mode: 0o600 });
+      this.recorded.add(file);
+      logger.debug(`Recorded ${service}.${command}`, { file });
+    } catch (error) {
+      logger.error(`Failed to record ${service}.${command}`, error as Error);
+    }
+  }
+
+  /**
+   * Serve a recorded response: the fixture of the exact request, else one recorded for the same
+   * command and region whose input only differs in its time window
+   */
+  private replay(service: string, command: string, region: AWSRegion, input: unknown): { output: unknown; response: unknown } {
+    const file = this.findFixture(service, command, region, input);
+    if (!file) {
+      throw new AWSServiceError(
+        `No recorded response for ${service}.${command} in ${region} with these arguments (replaying ${this.getDirectory()}). Record it with mcpAwsCli.recordingMode "record"`,
+        service,
+        command,
+        'RecordingNotFound'
+      );
+    }
+
+    const fixture = this.readFixture(file);
+    const position = this.replayed.get(file) || 0;
+    this.replayed.set(file, position + 1);
+    const response = fixture.responses[Math.min(position, fixture.responses.length - 1)];
+    logger.debug(`Replaying ${service}.${command}`, { file, position });
+
+    if (response.error) {
+      throw toServiceException(service, response.error);
+    }
+    return { output: response.output, response: {} };
+  }
+
+  private findFixture(service: string, command: string, region: AWSRegion, input: unknown): string | undefined {
+    const exact = this.getFixturePath(service, command, region, input);
+    if (fs.existsSync(exact)) {
+      return exact;
+    }
+
+    const directory = path.dirname(exact);
+    const candidates = fs.existsSync(directory)
+      ? fs.readdirSync(directory).filter(name => name.startsWith(`${command}-`)).map(name => path.join(directory, name))
+      : [];
+    const timeless = JSON.stringify(canonical(input, true));
+    const match = candidates.find(file => JSON.stringify(canonical(this.readFixture(file).input, true)) === timeless);
+    if (match) {
+      logger.debug(`Replaying ${service}.${command} from a fixture recorded for another time window`, { file: match });
+    }
+    return match;
+  }
+
+  private getFixturePath(service: string, command: string, region: AWSRegion, input: unknown): string {
+    const hash = crypto.createHash('sha256').update(JSON.stringify(canonical(input, false))).digest('hex').slice(0, 12);
+    return path.join(this.getDirectory(), service.toLowerCase(), region, `${command}-${hash}.json`);
+  }
+
+  private readFixture(file: string): Fixture {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'), decode);
+  }
+}
+
+/**
+ * Copy of a value with secret fields, SecureString parameter values and container environment values replaced
+ */
+function scrub(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(item => scrub(item));
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date || value instanceof Uint8Array) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      const name = key.toLowerCase();
+      if (SCRUBBED_FIELDS.includes(name) && item !== undefined) {
+        return [key, SCRUBBED];
+      }
+      if (name === 'value' && value.Type === 'SecureString') {
+        return [key, SCRUBBED];
+      }
+      if (name === 'environment' && Array.isArray(item)) {
+        return [key, item.map((variable: any) => ({ ...variable, value: SCRUBBED }))];
+      }
+      return [key, scrub(item)];
+    })
+  );
+}
+
+/**
+ * Recorded error as an instance of a "<Service>ServiceException" class, like the SDK's, so the error envelope names the service
+ */
+function toServiceException(service: string, error: NonNullable<RecordedResponse['error']>): Error {
+  const name = `${service}ServiceException`;
+  const ServiceException = { [name]: class extends Error {} }[name];
+  return Object.assign(new ServiceException(error.message), error);
+}
+
+/**
+ * Value with sorted keys for hashing and comparison; ignoring time, dates and time-window arguments compare equal
+ */
+function canonical(value: any, ignoreTime: boolean): any {
+  if (value instanceof Date) {
+    return ignoreTime ? '$time' : value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => canonical(item, ignoreTime));
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => [key, ignoreTime && TIME_FIELDS.test(key) ? '$time' : canonical(value[key], ignoreTime)])
+  );
+}
+
+/**
+ * JSON replacer keeping the SDK types JSON has no form for: dates and binary blobs
+ */
+function encode(this: any, key: string, value: any): any {
+  const raw = this[key];
+  if (raw instanceof Date) {
+    return { $date: raw.toISOString() };
+  }
+  if (raw instanceof Uint8Array) {
+    return { $bytes: Buffer.from(raw).toString('base64') };
+  }
+  return value;
+}
+
+function decode(_key: string, value: any): any {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if (typeof value.$date === 'string' && Object.keys(value).length === 1) {
+      return new Date(value.$date);
+    }
+    if (typeof value.$bytes === 'string' && Object.keys(value).length === 1) {
+      return new Uint8Array(Buffer.from(value.$bytes, 'base64'));
+    }
+  }
+  return value;
+}
+
+// Export singleton instance
+export const recordingService = RecordingService.getInstance();
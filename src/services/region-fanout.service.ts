@@ -0,0 +1,319 @@
+/**
+ * Region Fan-Out Service
+ * Runs list, search and describe calls across several regions and merges the results
+ */
+
+import { DescribeRegionsCommand } from '@aws-sdk/client-ec2';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AWSCredentials, CredentialProvenance, ErrorCategory } from '../models';
+import { ToolCallDescriptor } from '../tools/tool-operations';
+import { awsClientFactory } from './aws-client.factory';
+import { profileService } from './profile.service';
+import {
+  logger,
+  getIntelligentCredentials,
+  getRegion,
+  ErrorHandler,
+  CredentialsResult,
+  credentialsErrorResult,
+  withEndpoints,
+} from '../utils';
+
+/**
+ * Tools that accept region "all" or a list of regions
+ */
+const FAN_OUT_TOOLS = ['aws-list-resources', 'aws-search-resources', 'aws-describe-resource'];
+
+/**
+ * Regions (or profiles) queried at the same time
+ */
+const MAX_CONCURRENT_CALLS = 8;
+
+/**
+ * Enabled regions are re-read after an hour
+ */
+const REGIONS_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Runs one (single-region, single-profile) tool call
+ */
+export type ToolExecutor = (call: ToolCallDescriptor, args: Record<string, any>) => Promise<CallToolResult>;
+
+/**
+ * Region as returned by DescribeRegions
+ */
+export interface RegionInfo {
+  name: string;
+  endpoint?: string;
+  optInStatus?: string;
+}
+
+/**
+ * Outcome of the call in one region (or for one profile)
+ */
+export interface FanOutOutcome {
+  target: string;
+  data?: Record<string, any>;
+  notes: string[];
+  error?: string;
+  category?: ErrorCategory;
+  provenance?: CredentialProvenance;
+}
+
+/**
+ * Region Fan-Out Service
+ * Each region runs through the normal pipeline (policy, guardrails, cache), so a denied region is reported, not skipped silently
+ */
+export class RegionFanOutService {
+  private static instance: RegionFanOutService;
+  private enabledRegions = new Map<string, { regions: string[]; loadedAt: number }>();
+
+  private constructor() {
+    logger.info('Region Fan-Out Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RegionFanOutService {
+    if (!RegionFanOutService.instance) {
+      RegionFanOutService.instance = new RegionFanOutService();
+    }
+    return RegionFanOutService.instance;
+  }
+
+  /**
+   * Whether a region argument asks for more than one region
+   */
+  public isMultiRegion(region: unknown): boolean {
+    return region === 'all' || Array.isArray(region);
+  }
+
+  /**
+   * Regions of the account (all regions, or only the enabled ones)
+   */
+  public async listRegions(region: string, credentials: AWSCredentials, allRegions = true): Promise<RegionInfo[]> {
+    const client = awsClientFactory.getEC2Client(region, credentials);
+    const response = await client.send(new DescribeRegionsCommand({ AllRegions: allRegions }));
+
+    return (response.Regions || []).map(r => ({
+      name: r.RegionName!,
+      endpoint: r.Endpoint,
+      optInStatus: r.OptInStatus,
+    }));
+  }
+
+  /**
+   * Run a call in every requested region and merge the results
+   */
+  public async run(call: ToolCallDescriptor, args: Record<string, any>, execute: ToolExecutor): Promise<CallToolResult> {
+    if (!FAN_OUT_TOOLS.includes(call.tool)) {
+      return this.errorResult(`${call.tool} does not support multiple regions. Supported: ${FAN_OUT_TOOLS.join(', ')}`);
+    }
+    if (args.nextToken) {
+      return this.errorResult('nextToken applies to a single region: call again with the region that returned it');
+    }
+
+    let regions: string[];
+    if (args.region === 'all') {
+      let resolved: string[] | CredentialsResult;
+      try {
+        // DescribeRegions goes to the profile's endpoints like the calls it fans out to
+        resolved = await withEndpoints(profileService.getEndpointConfig(args.profile), () =>
+          this.getEnabledRegions(args.profile)
+        );
+      } catch (error) {
+        return ErrorHandler.toToolResult(error, { service: 'EC2', operation: 'DescribeRegions' });
+      }
+      if (!Array.isArray(resolved)) {
+        return credentialsErrorResult(resolved, call.tool);
+      }
+      regions = resolved;
+    } else {
+      regions = [...new Set<string>(args.region.filter((region: unknown) => typeof region === 'string' && region))];
+    }
+
+    if (regions.length === 0) {
+      return this.errorResult('No regions to query');
+    }
+
+    logger.info(`Running ${call.tool} in ${regions.length} regions`);
+    const outcomes = await this.mapConcurrent(regions, region =>
+      this.toOutcome(region, () => execute({ ...call, region }, { ...args, region }))
+    );
+    return this.merge(outcomes);
+  }
+
+  /**
+   * Enabled regions of the account behind a profile (or the credentials result when they cannot be resolved)
+   */
+  private async getEnabledRegions(profile?: string): Promise<string[] | CredentialsResult> {
+    const region = getRegion();
+    const credResult = await getIntelligentCredentials(profile, region);
+    if (credResult.needsConfiguration) {
+      return credResult;
+    }
+
+    const key = credResult.provenance?.accountId || profile || 'default';
+    const cached = this.enabledRegions.get(key);
+    if (cached && Date.now() - cached.loadedAt < REGIONS_TTL_MS) {
+      return cached.regions;
+    }
+
+    const regions = (await this.listRegions(region, credResult.credentials!, false)).map(r => r.name).sort();
+    this.enabledRegions.set(key, { regions, loadedAt: Date.now() });
+    return regions;
+  }
+
+  /**
+   * Split a tool result into its JSON body, plain-text notes (banners) and error
+   */
+  public async toOutcome(target: string, run: () => Promise<CallToolResult>): Promise<FanOutOutcome> {
+    const outcome: FanOutOutcome = { target, notes: [] };
+
+    try {
+      const result = await run();
+      for (const item of result.content) {
+        if (item.type !== 'text') {
+          continue;
+        }
+        const parsed = this.parseJson(item.text);
+        if (parsed && !outcome.data) {
+          outcome.data = parsed;
+        } else if (!parsed) {
+          outcome.notes.push(item.text);
+        }
+      }
+
+      if (result.isError || outcome.data?.success === false) {
+        const nested = Array.isArray(outcome.data?.errors)
+          ? outcome.data!.errors.map((e: any) => `${e.region || e.profile}: ${e.error}`).join('; ')
+          : undefined;
+        // Tool errors are { code, category, message, ... } envelopes; policy and guardrail denials carry a reason
+        const envelope = outcome.data?.error;
+        outcome.error = (typeof envelope === 'object' ? envelope?.message : envelope)
+          || outcome.data?.reason || nested || outcome.notes.join('\n') || 'Unknown error';
+        outcome.category = typeof envelope === 'object' ? envelope?.category : undefined;
+      } else if (!outcome.data) {
+        // Plain-text responses are credential or configuration messages
+        outcome.error = outcome.notes.join('\n');
+      }
+    } catch (error) {
+      const details = ErrorHandler.classify(error);
+      outcome.error = details.message;
+      outcome.category = details.category;
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Concatenate arrays (tagging items with their region), sum counts, and report errors per region
+   */
+  private merge(outcomes: FanOutOutcome[]): CallToolResult {
+    const merged: Record<string, any> = {};
+    const regions: Array<Record<string, any>> = [];
+    const errors: Array<{ region: string; error: string; category?: ErrorCategory }> = [];
+    const notes = new Set<string>();
+
+    for (const outcome of outcomes) {
+      const region = outcome.target;
+      if (outcome.error !== undefined || !outcome.data) {
+        errors.push({ region, error: outcome.error || 'No result', category: outcome.category });
+        continue;
+      }
+
+      outcome.notes.forEach(note => notes.add(note));
+      const summary: Record<string, any> = { region };
+
+      for (const [key, value] of Object.entries(outcome.data)) {
+        if (key === 'nextToken' || key === 'truncated' || key === 'pages') {
+          summary[key] = value;
+        } else if (key === 'resource' && value && typeof value === 'object') {
+          merged.resources = [...(merged.resources || []), { region, ...value }];
+        } else if (Array.isArray(value)) {
+          const tagged = value.map(item =>
+            item && typeof item === 'object' && !Array.isArray(item)
+              ? { region, ...item }
+              : { region, value: item }
+          );
+          merged[key] = [...(merged[key] || []), ...tagged];
+        } else if (typeof value === 'boolean' && key !== 'success') {
+          merged[key] = merged[key] || value;
+        } else if (typeof value === 'number') {
+          merged[key] = (merged[key] || 0) + value;
+          if (key === 'count') {
+            summary.count = value;
+          }
+        } else if (this.isCountMap(value)) {
+          merged[key] = merged[key] || {};
+          for (const [name, count] of Object.entries(value as Record<string, number>)) {
+            merged[key][name] = (merged[key][name] || 0) + count;
+          }
+        } else if (!(key in merged)) {
+          merged[key] = value;
+        }
+      }
+
+      regions.push(summary);
+    }
+
+    const succeeded = regions.length > 0;
+    const text = JSON.stringify({
+      ...merged,
+      success: succeeded,
+      regions,
+      errors: errors.length > 0 ? errors : undefined,
+    }, null, 2);
+
+    return {
+      content: [
+        ...[...notes].map(note => ({ type: 'text' as const, text: note })),
+        { type: 'text', text },
+      ],
+      isError: !succeeded,
+    };
+  }
+
+  /**
+   * Map items through an async function, a few at a time, keeping their order
+   */
+  public async mapConcurrent<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CALLS, items.length) }, worker));
+    return results;
+  }
+
+  private isCountMap(value: unknown): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+      Object.values(value as object).every(v => typeof v === 'number');
+  }
+
+  private parseJson(text: string): Record<string, any> | undefined {
+    try {
+      const parsed = JSON.parse(text);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private errorResult(error: string): CallToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: false, error }, null, 2) }],
+      isError: true,
+    };
+  }
+}
+
+// Export singleton instance
+export const regionFanOut = RegionFanOutService.getInstance();
@@ -0,0 +1,185 @@
+/**
+ * Response Cache Service
+ * Caches read-only tool responses per account, region and resource type
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CredentialProvenance } from '../models';
+import { logger, cache, config, stableStringify } from '../utils';
+
+/**
+ * TTL in seconds per resource type (others use mcpAwsCli.cacheTimeout)
+ */
+const RESOURCE_TTLS: Record<string, number> = {
+  'ec2-instance': 30,
+  'ecs-task': 30,
+  'ecs-service': 60,
+  'eks-nodegroup': 60,
+  'rds-instance': 60,
+  'rds-cluster': 60,
+  'lambda-function': 120,
+  'dynamodb-table': 120,
+  'log-stream': 60,
+  'ec2-key-pair': 600,
+  'ec2-security-group': 300,
+  'ecs-task-definition': 600,
+  's3-bucket': 600,
+};
+
+/**
+ * Resource types whose cached responses an action on a resource type makes stale
+ */
+const RELATED_RESOURCES: Record<string, string[]> = {
+  'ecs-service': ['ecs-task', 'ecs-cluster'],
+  'ecs-task': ['ecs-service', 'ecs-cluster'],
+  'rds-cluster': ['rds-instance'],
+  'rds-instance': ['rds-cluster'],
+  'eks-nodegroup': ['eks-cluster'],
+  'dynamodb-table': ['dynamodb-global-table'],
+};
+
+/**
+ * What a cached response belongs to
+ */
+export interface ResponseCacheScope {
+  tool: string;
+  resourceType: string;
+  region: string;
+  provenance?: CredentialProvenance;
+  args: Record<string, any>;
+  bypassCache?: boolean;
+}
+
+/**
+ * Response Cache Service
+ * Keys are response:<account>:<region>:<resource>:<tool>:<arguments hash>, so actions can drop a whole resource type
+ */
+export class ResponseCacheService {
+  private static instance: ResponseCacheService;
+  private flushFilePath: string;
+  private lastFlush = Date.now();
+
+  private constructor() {
+    this.flushFilePath = path.join(os.homedir(), '.mcp-aws-cli', 'cache.flush');
+    logger.info('Response Cache Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ResponseCacheService {
+    if (!ResponseCacheService.instance) {
+      ResponseCacheService.instance = new ResponseCacheService();
+    }
+    return ResponseCacheService.instance;
+  }
+
+  /**
+   * Return the cached response or fetch, cache and return a fresh one
+   */
+  public async getOrFetch(
+    scope: ResponseCacheScope,
+    fetch: () => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    const accountId = scope.provenance?.accountId;
+    if (!accountId || config.getConfig().cacheTimeout <= 0) {
+      return fetch();
+    }
+
+    this.applyFlushRequest();
+
+    const key = this.getKey(scope, accountId);
+    if (!scope.bypassCache) {
+      const cached = cache.get<{ result: CallToolResult; cachedAt: number }>(key);
+      if (cached) {
+        return {
+          ...cached.result,
+          _meta: {
+            ...cached.result._meta,
+            cache: { hit: true, ageSeconds: Math.round((Date.now() - cached.cachedAt) / 1000) },
+          },
+        };
+      }
+    }
+
+    const result = await fetch();
+    if (!result.isError) {
+      cache.set(key, { result, cachedAt: Date.now() }, this.getTtl(scope.resourceType));
+    }
+    return result;
+  }
+
+  /**
+   * Drop cached responses for resource types in an account and region
+   */
+  public invalidate(provenance: CredentialProvenance | undefined, region: string, resourceType: string): void {
+    if (!provenance?.accountId) {
+      return;
+    }
+
+    const resource = this.normalizeResourceType(resourceType);
+    let deleted = 0;
+    for (const type of [resource, ...(RELATED_RESOURCES[resource] || [])]) {
+      deleted += cache.deletePattern(`response:${provenance.accountId}:${region}:${type}:`);
+    }
+    logger.debug(`Invalidated cached responses for ${resource}`, { accountId: provenance.accountId, region, deleted });
+  }
+
+  /**
+   * Ask running MCP servers to drop their cached responses (used by the Clear Cache command)
+   */
+  public requestFlush(): void {
+    fs.mkdirSync(path.dirname(this.flushFilePath), { recursive: true });
+    fs.writeFileSync(this.flushFilePath, new Date().toISOString(), 'utf-8');
+  }
+
+  private applyFlushRequest(): void {
+    try {
+      const requestedAt = fs.statSync(this.flushFilePath).mtimeMs;
+      if (requestedAt > this.lastFlush) {
+        cache.deletePattern('response:');
+        this.lastFlush = requestedAt;
+        logger.info('Cached responses cleared on request');
+      }
+    } catch {
+      // No flush requested yet
+    }
+  }
+
+  /**
+   * Key per account, region, resource type, tool, caller and arguments. Principals of one account can see
+   * different resources, so the caller ARN (or the profile) is hashed with the arguments; invalidation by
+   * account, region and resource type still drops the responses of every caller
+   */
+  private getKey(scope: ResponseCacheScope, accountId: string): string {
+    const { bypassCache, profile, region, ...args } = scope.args;
+    const caller = scope.provenance?.arn || scope.provenance?.profile || profile || 'default';
+    const hash = createHash('sha256').update(stableStringify({ caller, args })).digest('hex').slice(0, 16);
+    return cache.generateKey(
+      'response',
+      accountId,
+      scope.region,
+      this.normalizeResourceType(scope.resourceType),
+      scope.tool,
+      hash
+    );
+  }
+
+  private getTtl(resourceType: string): number {
+    return RESOURCE_TTLS[this.normalizeResourceType(resourceType)] ?? config.getConfig().cacheTimeout;
+  }
+
+  /**
+   * List types are plural (ec2-instances), describe types singular (ec2-instance)
+   */
+  private normalizeResourceType(resourceType: string): string {
+    return resourceType.replace(/s$/, '');
+  }
+}
+
+// Export singleton instance
+export const responseCache = ResponseCacheService.getInstance();
@@ -0,0 +1,168 @@
+/**
+ * Retry Service
+ * Retries throttled and transient AWS errors with exponential backoff and jitter,
+ * and rate-limits calls per service and region with a client-side token bucket
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AWSRegion } from '../models';
+import { logger, config, ErrorHandler } from '../utils';
+
+/**
+ * Longest wait between two attempts
+ */
+const MAX_RETRY_DELAY_MS = 20000;
+
+/**
+ * Any AWS SDK v3 client (only its middleware stack is used)
+ */
+interface TrackableClient {
+  middlewareStack: {
+    add(middleware: any, options: { step: 'initialize'; name: string; priority?: 'high' | 'normal' | 'low' }): void;
+  };
+}
+
+/**
+ * Token bucket of one service in one region
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Retries and rate limiting of the AWS calls made during one tool call
+ */
+export interface RetryStats {
+  retries: number;
+  throttledMs: number;
+  calls: Array<{ service: string; command: string; region: AWSRegion; retries: number; lastError: string }>;
+}
+
+/**
+ * Retry Service
+ * Replaces the SDK retry strategy (clients are created with maxAttempts 1) so every client follows RetryConfig
+ */
+export class RetryService {
+  private static instance: RetryService;
+  private buckets = new Map<string, TokenBucket>();
+  private stats = new AsyncLocalStorage<RetryStats>();
+
+  private constructor() {
+    logger.info('Retry Service initialized', {
+      ...config.getRetryConfig(),
+      requestsPerSecond: config.getConfig().requestsPerSecond,
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RetryService {
+    if (!RetryService.instance) {
+      RetryService.instance = new RetryService();
+    }
+    return RetryService.instance;
+  }
+
+  /**
+   * Add the rate limit and retry middleware to a client
+   */
+  public track<T extends TrackableClient>(client: T, region: AWSRegion): T {
+    client.middlewareStack.add(
+      (next: any, context: any) => async (args: any) => {
+        const service = String(context.clientName || 'AWS').replace(/Client$/, '');
+        const command = String(context.commandName || 'Command').replace(/Command$/, '');
+        const retryConfig = config.getRetryConfig();
+
+        for (let attempt = 0; ; attempt++) {
+          await this.acquire(`${service}:${region}`);
+          try {
+            return await next(args);
+          } catch (error) {
+            if (attempt >= retryConfig.maxRetries || !ErrorHandler.isRetriable(error)) {
+              throw error;
+            }
+
+            const delay = this.getDelay(attempt, retryConfig.retryDelay, retryConfig.exponentialBackoff);
+            const code = ErrorHandler.classify(error).code;
+            logger.warn(`Retrying ${service}.${command} in ${delay}ms (attempt ${attempt + 2}/${retryConfig.maxRetries + 1})`, { region, code });
+            this.recordRetry(service, command, region, code);
+            await sleep(delay);
+          }
+        }
+      },
+      { step: 'initialize', name: 'mcpAwsCliRetryMiddleware', priority: 'high' }
+    );
+    return client;
+  }
+
+  /**
+   * Run a tool call and collect the retries and rate-limit waits of every AWS call it makes
+   */
+  public async trackRetries<T>(execute: () => Promise<T>): Promise<{ result: T; stats: RetryStats }> {
+    const stats: RetryStats = { retries: 0, throttledMs: 0, calls: [] };
+    const result = await this.stats.run(stats, execute);
+    return { result, stats };
+  }
+
+  /**
+   * Take a token from the bucket of a service and region, waiting for one when it is empty
+   */
+  private async acquire(key: string): Promise<void> {
+    const rate = config.getConfig().requestsPerSecond;
+    if (!rate || rate <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || { tokens: rate, updatedAt: now };
+    bucket.tokens = Math.min(rate, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+    bucket.updatedAt = now;
+
+    // Reserve the token now; a negative balance is the queue of callers ahead of this one
+    bucket.tokens -= 1;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 0) {
+      const wait = Math.ceil((-bucket.tokens / rate) * 1000);
+      const stats = this.stats.getStore();
+      if (stats) {
+        stats.throttledMs += wait;
+      }
+      logger.debug(`Rate limit for ${key}: waiting ${wait}ms`);
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * Backoff before the next attempt: exponential (or fixed) delay with equal jitter
+   */
+  private getDelay(attempt: number, retryDelay: number, exponential: boolean): number {
+    const base = Math.min(MAX_RETRY_DELAY_MS, exponential ? retryDelay * 2 ** attempt : retryDelay);
+    return Math.round(base / 2 + Math.random() * (base / 2));
+  }
+
+  private recordRetry(service: string, command: string, region: AWSRegion, code: string): void {
+    const stats = this.stats.getStore();
+    if (!stats) {
+      return;
+    }
+
+    stats.retries++;
+    const call = stats.calls.find(item => item.service === service && item.command === command && item.region === region);
+    if (call) {
+      call.retries++;
+      call.lastError = code;
+    } else {
+      stats.calls.push({ service, command, region, retries: 1, lastError: code });
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Export singleton instance
+export const retryService = RetryService.getInstance();
@@ -0,0 +1,280 @@
+/**
+ * Shared Config Service
+ * Imports profiles from ~/.aws/config and ~/.aws/credentials and exports them back
+ */
+
+import * as fs from 'fs';
+import { AWSProfile, CreateProfileInput, Environment } from '../models';
+import { profileService } from './profile.service';
+import { writePrivateFile } from './profile-vault.service';
+import {
+  logger,
+  IniSections,
+  parseIni,
+  upsertIniSections,
+  getSharedConfigPath,
+  getSharedCredentialsPath,
+} from '../utils';
+
+/**
+ * Import/export options
+ */
+export interface SharedConfigOptions {
+  profileNames?: string[];
+  overwrite?: boolean;
+  environment?: Environment;
+  configFile?: string;
+  credentialsFile?: string;
+}
+
+/**
+ * Outcome per profile
+ */
+export interface SharedConfigResult {
+  configFile: string;
+  credentialsFile: string;
+  imported?: Array<{ name: string; type: string; environment: Environment }>;
+  exported?: Array<{ name: string; type: string }>;
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+/**
+ * Shared Config Service
+ * Maps region, endpoint_url, static keys, role_arn/source_profile and sso_* keys to and from ProfileService profiles
+ */
+export class SharedConfigService {
+  private static instance: SharedConfigService;
+
+  private constructor() {
+    logger.info('Shared Config Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): SharedConfigService {
+    if (!SharedConfigService.instance) {
+      SharedConfigService.instance = new SharedConfigService();
+    }
+    return SharedConfigService.instance;
+  }
+
+  /**
+   * Import profiles from the shared config and credentials files
+   */
+  public async importProfiles(options: SharedConfigOptions = {}): Promise<SharedConfigResult> {
+    const configFile = options.configFile || getSharedConfigPath();
+    const credentialsFile = options.credentialsFile || getSharedCredentialsPath();
+    const config = this.readIni(configFile);
+    const credentials = this.readIni(credentialsFile);
+    const result: SharedConfigResult = { configFile, credentialsFile, imported: [], skipped: [] };
+
+    // Profiles are "[profile name]" in config (except default) and "[name]" in credentials
+    const profiles: IniSections = {};
+    for (const [header, values] of Object.entries(config)) {
+      const name = header === 'default' ? 'default' : header.match(/^profile\s+(.+)$/)?.[1];
+      if (name) {
+        profiles[name] = { ...values };
+      }
+    }
+    for (const [name, values] of Object.entries(credentials)) {
+      profiles[name] = { ...profiles[name], ...values };
+    }
+
+    const existing = new Map(((await profileService.listProfiles()).data || []).map(profile => [profile.name, profile]));
+
+    for (const [name, values] of Object.entries(profiles)) {
+      if (options.profileNames && !options.profileNames.includes(name)) {
+        continue;
+      }
+
+      const input = this.toProfileInput(name, values, config, options.environment);
+      if (typeof input === 'string') {
+        result.skipped.push({ name, reason: input });
+        continue;
+      }
+
+      const current = existing.get(name);
+      if (current && !options.overwrite) {
+        result.skipped.push({ name, reason: 'Profile already exists (use overwrite)' });
+        continue;
+      }
+
+      // Overwriting keeps the stored profile until its replacement is saved
+      const response = current ? await profileService.replaceProfile(input) : await profileService.createProfile(input);
+      if (!response.success) {
+        result.skipped.push({ name, reason: response.error?.message || 'Failed to create profile' });
+        continue;
+      }
+
+      result.imported!.push({ name, type: input.type || 'static', environment: input.environment });
+    }
+
+    logger.info('Imported profiles from shared config', {
+      imported: result.imported!.length,
+      skipped: result.skipped.length,
+    });
+    return result;
+  }
+
+  /**
+   * Export profiles to the shared config and credentials files (other sections are kept)
+   */
+  public async exportProfiles(options: SharedConfigOptions = {}): Promise<SharedConfigResult> {
+    const configFile = options.configFile || getSharedConfigPath();
+    const credentialsFile = options.credentialsFile || getSharedCredentialsPath();
+    const existingConfig = this.readIni(configFile);
+    const existingCredentials = this.readIni(credentialsFile);
+    const configSections: IniSections = {};
+    const credentialSections: IniSections = {};
+    const result: SharedConfigResult = { configFile, credentialsFile, exported: [], skipped: [] };
+
+    const names = options.profileNames || (await profileService.listProfiles()).data?.map(profile => profile.name) || [];
+
+    for (const name of names) {
+      const response = await profileService.getProfile(name);
+      if (!response.success || !response.data) {
+        result.skipped.push({ name, reason: response.error?.message || 'Profile not found' });
+        continue;
+      }
+
+      const header = name === 'default' ? 'default' : `profile ${name}`;
+      if (!options.overwrite && (existingConfig[header] || existingCredentials[name])) {
+        result.skipped.push({ name, reason: 'Profile already exists in shared config (use overwrite)' });
+        continue;
+      }
+
+      const profile = response.data;
+      configSections[header] = this.toConfigSection(profile);
+      if (!profile.type || profile.type === 'static') {
+        credentialSections[name] = {
+          aws_access_key_id: profile.accessKeyId,
+          aws_secret_access_key: profile.secretAccessKey,
+          ...(profile.sessionToken ? { aws_session_token: profile.sessionToken } : {}),
+        };
+      }
+
+      result.exported!.push({ name, type: profile.type || 'static' });
+    }
+
+    if (Object.keys(configSections).length > 0) {
+      writePrivateFile(configFile, upsertIniSections(this.readFile(configFile), configSections));
+    }
+    if (Object.keys(credentialSections).length > 0) {
+      writePrivateFile(credentialsFile, upsertIniSections(this.readFile(credentialsFile), credentialSections));
+    }
+
+    logger.info('Exported profiles to shared config', {
+      exported: result.exported!.length,
+      skipped: result.skipped.length,
+    });
+    return result;
+  }
+
+  /**
+   * Map a shared-config profile to a profile input (or the reason it cannot be imported)
+   */
+  private toProfileInput(
+    name: string,
+    values: Record<string, string>,
+    config: IniSections,
+    environment?: Environment
+  ): CreateProfileInput | string {
+    const session = values.sso_session ? config[`sso-session ${values.sso_session}`] : undefined;
+    const startUrl = values.sso_start_url || session?.sso_start_url;
+    const ssoRegion = values.sso_region || session?.sso_region;
+    const base = {
+      name,
+      region: values.region || ssoRegion || 'us-east-1',
+      environment: environment || this.inferEnvironment(name),
+      description: 'Imported from AWS shared config',
+      ...(values.endpoint_url ? { endpoints: { default: values.endpoint_url } } : {}),
+    };
+
+    if (startUrl || values.sso_session) {
+      if (!startUrl || !ssoRegion || !values.sso_account_id || !values.sso_role_name) {
+        return 'SSO profile needs sso_start_url, sso_region, sso_account_id and sso_role_name';
+      }
+      return {
+        ...base,
+        type: 'sso',
+        sso: { startUrl, ssoRegion, accountId: values.sso_account_id, roleName: values.sso_role_name },
+      };
+    }
+
+    if (values.role_arn) {
+      if (!values.source_profile) {
+        return 'Only role profiles with source_profile are supported (credential_source is not)';
+      }
+      return {
+        ...base,
+        type: 'assume-role',
+        assumeRole: {
+          sourceProfile: values.source_profile,
+          roleArn: values.role_arn,
+          externalId: values.external_id,
+          mfaSerial: values.mfa_serial,
+          durationSeconds: values.duration_seconds ? parseInt(values.duration_seconds, 10) : undefined,
+          roleSessionName: values.role_session_name,
+        },
+      };
+    }
+
+    if (values.aws_access_key_id && values.aws_secret_access_key) {
+      return {
+        ...base,
+        type: 'static',
+        accessKeyId: values.aws_access_key_id,
+        secretAccessKey: values.aws_secret_access_key,
+        sessionToken: values.aws_session_token,
+      };
+    }
+
+    return 'No static keys, role_arn or sso_* settings';
+  }
+
+  private toConfigSection(profile: AWSProfile): Record<string, string> {
+    const section: Record<string, string> = { region: profile.region };
+    if (profile.endpoints?.default) section.endpoint_url = profile.endpoints.default;
+
+    if (profile.type === 'assume-role' && profile.assumeRole) {
+      const role = profile.assumeRole;
+      section.role_arn = role.roleArn;
+      section.source_profile = role.sourceProfile;
+      if (role.externalId) section.external_id = role.externalId;
+      if (role.mfaSerial) section.mfa_serial = role.mfaSerial;
+      if (role.durationSeconds) section.duration_seconds = String(role.durationSeconds);
+      if (role.roleSessionName) section.role_session_name = role.roleSessionName;
+    }
+
+    if (profile.type === 'sso' && profile.sso) {
+      section.sso_start_url = profile.sso.startUrl;
+      section.sso_region = profile.sso.ssoRegion;
+      section.sso_account_id = profile.sso.accountId;
+      section.sso_role_name = profile.sso.roleName;
+    }
+
+    return section;
+  }
+
+  /**
+   * Guess the environment from the profile name so production guardrails apply to imported profiles
+   */
+  private inferEnvironment(name: string): Environment {
+    if (/prod/i.test(name) && !/(pre|non)-?prod/i.test(name)) return 'production';
+    if (/stag/i.test(name)) return 'staging';
+    if (/test|qa/i.test(name)) return 'test';
+    return 'dev';
+  }
+
+  private readIni(filePath: string): IniSections {
+    return parseIni(this.readFile(filePath));
+  }
+
+  private readFile(filePath: string): string {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+  }
+}
+
+// Export singleton instance
+export const sharedConfigService = SharedConfigService.getInstance();
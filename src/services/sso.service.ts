@@ -0,0 +1,325 @@
+/**
+ * SSO Service
+ * IAM Identity Center device authorization login, account/role discovery and role credentials
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import {
+  RegisterClientCommand,
+  StartDeviceAuthorizationCommand,
+  CreateTokenCommand,
+} from '@aws-sdk/client-sso-oidc';
+import {
+  ListAccountsCommand,
+  ListAccountRolesCommand,
+  GetRoleCredentialsCommand,
+} from '@aws-sdk/client-sso';
+import { RoleCredentials, SSOConfig, SSOLoginStatus, SSOTokenCache } from '../models';
+import { logger, SSOError } from '../utils';
+import { writePrivateFile } from './profile-vault.service';
+import { awsClientFactory } from './aws-client.factory';
+
+/**
+ * Refresh role credentials and tokens this long before they expire
+ */
+const REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * Device authorization in progress
+ */
+interface PendingLogin {
+  status: SSOLoginStatus;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * SSO Service
+ * Tokens are cached in ~/.aws/sso/cache (shared with the AWS CLI), role credentials in memory
+ */
+export class SSOService {
+  private static instance: SSOService;
+  private cacheDir: string;
+  private logins = new Map<string, PendingLogin>();
+  private roleCredentials = new Map<string, RoleCredentials>();
+
+  private constructor() {
+    this.cacheDir = path.join(os.homedir(), '.aws', 'sso', 'cache');
+    logger.info('SSO Service initialized');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): SSOService {
+    if (!SSOService.instance) {
+      SSOService.instance = new SSOService();
+    }
+    return SSOService.instance;
+  }
+
+  /**
+   * Start (or report) a device authorization login for a start URL
+   */
+  public async login(startUrl: string, ssoRegion: string): Promise<SSOLoginStatus> {
+    if (this.getCachedToken(startUrl)) {
+      return { status: 'logged-in', startUrl };
+    }
+
+    const pending = this.logins.get(startUrl);
+    if (pending && pending.status.status === 'pending') {
+      return pending.status;
+    }
+
+    const oidc = awsClientFactory.getSSOOIDCClient(ssoRegion);
+    const registration = await oidc.send(new RegisterClientCommand({
+      clientName: 'mcp-aws-cli',
+      clientType: 'public',
+    }));
+    const authorization = await oidc.send(new StartDeviceAuthorizationCommand({
+      clientId: registration.clientId,
+      clientSecret: registration.clientSecret,
+      startUrl,
+    }));
+
+    const login: PendingLogin = {
+      status: {
+        status: 'pending',
+        startUrl,
+        verificationUri: authorization.verificationUri,
+        verificationUriComplete: authorization.verificationUriComplete,
+        userCode: authorization.userCode,
+        expiresAt: new Date(Date.now() + (authorization.expiresIn ?? 600) * 1000).toISOString(),
+      },
+    };
+    this.logins.set(startUrl, login);
+
+    const poll = async (interval: number): Promise<void> => {
+      if (Date.now() > new Date(login.status.expiresAt!).getTime()) {
+        login.status = { status: 'failed', startUrl, error: 'Device authorization expired, run sso-login again' };
+        return;
+      }
+
+      try {
+        const token = await oidc.send(new CreateTokenCommand({
+          clientId: registration.clientId,
+          clientSecret: registration.clientSecret,
+          grantType: DEVICE_CODE_GRANT,
+          deviceCode: authorization.deviceCode,
+        }));
+
+        this.saveToken({
+          startUrl,
+          region: ssoRegion,
+          accessToken: token.accessToken!,
+          expiresAt: new Date(Date.now() + (token.expiresIn ?? 3600) * 1000).toISOString(),
+          clientId: registration.clientId,
+          clientSecret: registration.clientSecret,
+          registrationExpiresAt: registration.clientSecretExpiresAt
+            ? new Date(registration.clientSecretExpiresAt * 1000).toISOString()
+            : undefined,
+          refreshToken: token.refreshToken,
+        });
+        this.logins.delete(startUrl);
+        logger.info(`SSO login completed for ${startUrl}`);
+      } catch (error: any) {
+        if (error.name === 'AuthorizationPendingException' || error.name === 'SlowDownException') {
+          const nextInterval = error.name === 'SlowDownException' ? interval + 5 : interval;
+          login.timer = setTimeout(() => poll(nextInterval), nextInterval * 1000);
+          login.timer.unref();
+          return;
+        }
+        login.status = { status: 'failed', startUrl, error: error.message };
+        logger.error(`SSO login failed for ${startUrl}`, error);
+      }
+    };
+
+    const interval = authorization.interval ?? 5;
+    login.timer = setTimeout(() => poll(interval), interval * 1000);
+    login.timer.unref();
+
+    logger.info(`SSO device authorization started for ${startUrl}`);
+    return login.status;
+  }
+
+  /**
+   * Accounts visible to the logged-in user
+   */
+  public async listAccounts(startUrl: string, ssoRegion: string) {
+    const accessToken = await this.getAccessToken(startUrl, ssoRegion);
+    const client = awsClientFactory.getSSOClient(ssoRegion);
+    const accounts = [];
+    let nextToken: string | undefined;
+
+    do {
+      const response = await client.send(new ListAccountsCommand({ accessToken, nextToken }));
+      accounts.push(...(response.accountList || []));
+      nextToken = response.nextToken;
+    } while (nextToken);
+
+    return accounts.map(account => ({
+      accountId: account.accountId,
+      accountName: account.accountName,
+      emailAddress: account.emailAddress,
+    }));
+  }
+
+  /**
+   * Roles the logged-in user can use in an account
+   */
+  public async listRoles(startUrl: string, ssoRegion: string, accountId: string) {
+    const accessToken = await this.getAccessToken(startUrl, ssoRegion);
+    const client = awsClientFactory.getSSOClient(ssoRegion);
+    const roles = [];
+    let nextToken: string | undefined;
+
+    do {
+      const response = await client.send(new ListAccountRolesCommand({ accessToken, accountId, nextToken }));
+      roles.push(...(response.roleList || []));
+      nextToken = response.nextToken;
+    } while (nextToken);
+
+    return roles.map(role => ({
+      accountId: role.accountId,
+      roleName: role.roleName,
+    }));
+  }
+
+  /**
+   * Role credentials of an sso profile (cached until shortly before they expire)
+   */
+  public async getRoleCredentials(profileName: string, sso: SSOConfig): Promise<RoleCredentials> {
+    const cached = this.roleCredentials.get(profileName);
+    if (cached && cached.expiration.getTime() - Date.now() > REFRESH_WINDOW_MS) {
+      return cached;
+    }
+
+    const accessToken = await this.getAccessToken(sso.startUrl, sso.ssoRegion);
+    const client = awsClientFactory.getSSOClient(sso.ssoRegion);
+
+    try {
+      const response = await client.send(new GetRoleCredentialsCommand({
+        accessToken,
+        accountId: sso.accountId,
+        roleName: sso.roleName,
+      }));
+
+      const credentials = response.roleCredentials;
+      if (!credentials?.accessKeyId || !credentials.secretAccessKey || !credentials.expiration) {
+        throw new Error('SSO returned no credentials');
+      }
+
+      const roleCredentials: RoleCredentials = {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+        sessionToken: credentials.sessionToken,
+        expiration: new Date(credentials.expiration),
+      };
+
+      this.roleCredentials.set(profileName, roleCredentials);
+      logger.info(`Obtained SSO role credentials for profile ${profileName}`, {
+        accountId: sso.accountId,
+        roleName: sso.roleName,
+      });
+
+      return roleCredentials;
+    } catch (error) {
+      throw new SSOError(
+        `Failed to get SSO credentials for ${sso.roleName} in ${sso.accountId} (profile '${profileName}'): ${(error as Error).message}`,
+        'getRoleCredentials',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Cached role credentials without calling SSO
+   */
+  public getCachedCredentials(profileName: string): RoleCredentials | undefined {
+    const cached = this.roleCredentials.get(profileName);
+    if (cached && cached.expiration.getTime() - Date.now() > REFRESH_WINDOW_MS) {
+      return cached;
+    }
+    return undefined;
+  }
+
+  /**
+   * Drop cached role credentials (profile updated or deleted)
+   */
+  public clear(profileName: string): void {
+    this.roleCredentials.delete(profileName);
+  }
+
+  /**
+   * Valid access token for a start URL, refreshing it when possible
+   */
+  private async getAccessToken(startUrl: string, ssoRegion: string): Promise<string> {
+    const cached = this.getCachedToken(startUrl);
+    if (cached) {
+      return cached.accessToken;
+    }
+
+    const expired = this.readToken(startUrl);
+    if (expired?.refreshToken && expired.clientId && expired.clientSecret) {
+      try {
+        const oidc = awsClientFactory.getSSOOIDCClient(expired.region || ssoRegion);
+        const token = await oidc.send(new CreateTokenCommand({
+          clientId: expired.clientId,
+          clientSecret: expired.clientSecret,
+          grantType: 'refresh_token',
+          refreshToken: expired.refreshToken,
+        }));
+        this.saveToken({
+          ...expired,
+          accessToken: token.accessToken!,
+          expiresAt: new Date(Date.now() + (token.expiresIn ?? 3600) * 1000).toISOString(),
+          refreshToken: token.refreshToken ?? expired.refreshToken,
+        });
+        logger.info(`Refreshed SSO token for ${startUrl}`);
+        return token.accessToken!;
+      } catch (error) {
+        logger.warn(`SSO token refresh failed for ${startUrl}`, { error: (error as Error).message });
+      }
+    }
+
+    const pending = this.logins.get(startUrl);
+    throw new SSOError(
+      pending?.status.status === 'pending'
+        ? `SSO login pending for ${startUrl}: approve code ${pending.status.userCode} at ${pending.status.verificationUriComplete || pending.status.verificationUri}`
+        : `SSO session for ${startUrl} is missing or expired. Call aws-manage-profiles with operation "sso-login".`,
+      'getAccessToken'
+    );
+  }
+
+  private getCachedToken(startUrl: string): SSOTokenCache | undefined {
+    const token = this.readToken(startUrl);
+    if (token && new Date(token.expiresAt).getTime() - Date.now() > 60 * 1000) {
+      return token;
+    }
+    return undefined;
+  }
+
+  private readToken(startUrl: string): SSOTokenCache | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.getTokenPath(startUrl), 'utf-8')) as SSOTokenCache;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private saveToken(token: SSOTokenCache): void {
+    writePrivateFile(this.getTokenPath(token.startUrl), JSON.stringify(token, null, 2));
+  }
+
+  private getTokenPath(startUrl: string): string {
+    const hash = crypto.createHash('sha1').update(startUrl).digest('hex');
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+}
+
+// Export singleton instance
+export const ssoService = SSOService.getInstance();
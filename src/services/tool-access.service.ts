@@ -0,0 +1,150 @@
+/**
+ * Tool Access Service
+ * Decides which tools and operations are exposed: mcpAwsCli.enabledTools, mcpAwsCli.readOnlyTools and the
+ * per-environment restrictions of mcpAwsCli.environmentTools, and signals when that set changes
+ */
+
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolCallDescriptor } from '../tools/tool-operations';
+import { toolRegistry } from '../tools/tool-registry';
+import { profileService } from './profile.service';
+import { logger, config, ErrorHandler } from '../utils';
+
+/**
+ * Whether a tool is exposed for a profile, and whether only its read-only operations are
+ */
+export interface ToolAccess {
+  enabled: boolean;
+  readOnly: boolean;
+  reason?: string;
+}
+
+/**
+ * Tool Access Service
+ */
+export class ToolAccessService {
+  private static instance: ToolAccessService;
+  private listeners = new Set<() => void>();
+  private signature = '';
+
+  private constructor() {
+    const appConfig = config.getConfig();
+    logger.info('Tool Access Service initialized', {
+      enabledTools: appConfig.enabledTools,
+      readOnlyTools: appConfig.readOnlyTools,
+      environments: Object.keys(appConfig.environmentTools),
+    });
+
+    // Settings only change at runtime inside the extension host; standalone servers are restarted with new env vars
+    config.watchConfiguration(() => this.refresh());
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ToolAccessService {
+    if (!ToolAccessService.instance) {
+      ToolAccessService.instance = new ToolAccessService();
+    }
+    return ToolAccessService.instance;
+  }
+
+  /**
+   * Access to a tool for a profile (default: the active profile)
+   */
+  public getAccess(tool: string, profileName?: string): ToolAccess {
+    const appConfig = config.getConfig();
+    if (appConfig.enabledTools.length > 0 && !matches(appConfig.enabledTools, tool)) {
+      return { enabled: false, readOnly: false, reason: `${tool} is not in mcpAwsCli.enabledTools` };
+    }
+
+    const environment = profileService.getProfileEnvironment(profileName)?.environment;
+    const restrictions = [appConfig.environmentTools['*'], environment ? appConfig.environmentTools[environment] : undefined];
+    const scope = environment ? `${environment} profiles` : 'every profile';
+    if (restrictions.some(restriction => matches(restriction?.disabledTools, tool))) {
+      return { enabled: false, readOnly: false, reason: `${tool} is disabled for ${scope} (mcpAwsCli.environmentTools)` };
+    }
+
+    if (matches(appConfig.readOnlyTools, tool)) {
+      return { enabled: true, readOnly: true, reason: `${tool} is read-only (mcpAwsCli.readOnlyTools)` };
+    }
+    if (restrictions.some(restriction => matches(restriction?.readOnlyTools, tool))) {
+      return { enabled: true, readOnly: true, reason: `${tool} is read-only for ${scope} (mcpAwsCli.environmentTools)` };
+    }
+
+    return { enabled: true, readOnly: false };
+  }
+
+  /**
+   * Tools exposed for the active profile; read-only tools only offer their read-only operations
+   */
+  public getTools(): Tool[] {
+    return toolRegistry.getTools((definition, operation) => {
+      const access = this.getAccess(definition.name);
+      return access.enabled && (!access.readOnly || operation.mutating !== true);
+    });
+  }
+
+  /**
+   * Check a call against the access of its profile (calls that pass have an undefined reason)
+   */
+  public evaluate(call: ToolCallDescriptor): ToolAccess {
+    // Profile management targets profileName, but runs under the active profile
+    const access = this.getAccess(call.tool, call.tool === 'aws-manage-profiles' ? undefined : call.profile);
+    if (!access.enabled || (access.readOnly && call.mutating)) {
+      return access;
+    }
+    return { ...access, reason: undefined };
+  }
+
+  /**
+   * Build the tool result for a call that is not allowed
+   */
+  public toResult(call: ToolCallDescriptor, access: ToolAccess): CallToolResult {
+    logger.warn(`Tool access denied: ${call.tool} ${call.operation}`, { reason: access.reason });
+    return ErrorHandler.toErrorResult(
+      ErrorHandler.details(
+        access.enabled ? 'ReadOnlyTool' : 'ToolDisabled',
+        'access-denied',
+        access.enabled ? `${access.reason}: ${call.operation} changes state` : access.reason!,
+        { operation: call.operation },
+        'Use a tool or operation from the current tool list, or change the tool settings'
+      ),
+      { tool: call.tool }
+    );
+  }
+
+  /**
+   * Call a listener whenever the exposed tool list changes
+   */
+  public onChange(listener: () => void): () => void {
+    if (this.listeners.size === 0) {
+      this.signature = JSON.stringify(this.getTools());
+    }
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Recompute the exposed tool list (after settings or the active profile changed) and notify listeners when it differs
+   */
+  public refresh(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const signature = JSON.stringify(this.getTools());
+    if (signature !== this.signature) {
+      this.signature = signature;
+      logger.info('Tool list changed', { tools: this.getTools().map(tool => tool.name) });
+      this.listeners.forEach(listener => listener());
+    }
+  }
+}
+
+function matches(tools: string[] | undefined, tool: string): boolean {
+  return !!tools && (tools.includes('*') || tools.includes(tool));
+}
+
+// Export singleton instance
+export const toolAccess = ToolAccessService.getInstance();
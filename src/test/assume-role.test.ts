@@ -0,0 +1,66 @@
+/**
+ * Assume role: STS AssumeRole goes through the client factory (endpoints, retries, recording)
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+let home: string;
+let sts: http.Server;
+
+before(async () => {
+  // STS stand-in answering AssumeRole
+  sts = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(200, { 'content-type': 'text/xml' });
+      res.end(`<AssumeRoleResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <AssumeRoleResult>
+    <Credentials>
+      <AccessKeyId>ASIAROLE</AccessKeyId>
+      <SecretAccessKey>role-secret</SecretAccessKey>
+      <SessionToken>role-token</SessionToken>
+      <Expiration>2099-01-01T00:00:00Z</Expiration>
+    </Credentials>
+    <AssumedRoleUser><Arn>arn:aws:sts::333333333333:assumed-role/Reader/s</Arn><AssumedRoleId>AROA:s</AssumedRoleId></AssumedRoleUser>
+  </AssumeRoleResult>
+  <ResponseMetadata><RequestId>r1</RequestId></ResponseMetadata>
+</AssumeRoleResponse>`);
+    });
+  });
+  await new Promise<void>(resolve => sts.listen(0, '127.0.0.1', resolve));
+
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  process.env.MCP_AWS_CLI_ENDPOINTS = JSON.stringify({ sts: `http://127.0.0.1:${(sts.address() as AddressInfo).port}` });
+  process.env.MCP_AWS_CLI_RECORDING_MODE = 'record';
+});
+
+after(() => {
+  sts.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('assumed role credentials are recorded like other SDK calls, with the keys scrubbed', async () => {
+  const { assumeRoleService } = await import('../services/assume-role.service');
+  const credentials = await assumeRoleService.assumeRole(
+    'reader',
+    { sourceProfile: 'base', roleArn: 'arn:aws:iam::333333333333:role/Reader' },
+    'us-east-1',
+    { accessKeyId: 'AKIABASE', secretAccessKey: 'base-secret' }
+  );
+
+  assert.equal(credentials.accessKeyId, 'ASIAROLE');
+
+  const directory = path.join(home, '.mcp-aws-cli', 'recordings', 'sts', 'us-east-1');
+  const [fixture] = fs.readdirSync(directory).filter(name => name.startsWith('AssumeRole-'));
+  const text = fs.readFileSync(path.join(directory, fixture), 'utf-8');
+  assert.ok(!text.includes('role-secret') && !text.includes('role-token'));
+  assert.equal(JSON.parse(text).responses[0].output.Credentials.SecretAccessKey, '[SCRUBBED]');
+});
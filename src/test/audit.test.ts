@@ -0,0 +1,41 @@
+/**
+ * Audit log: failed profile changes are recorded as errors
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+let home: string;
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('deleting a profile that does not exist is audited as an error', async () => {
+  const { createMCPServer } = await import('../index');
+  const { auditService } = await import('../services/audit.service');
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = createMCPServer();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'audit-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  const result = await client.callTool({ name: 'aws-manage-profiles', arguments: { operation: 'delete', profileName: 'missing' } });
+  await client.close();
+
+  assert.equal(result.isError, true);
+  const [record] = auditService.query({ operation: 'delete' });
+  assert.equal(record.outcome, 'error');
+  assert.match(record.error!, /missing/);
+});
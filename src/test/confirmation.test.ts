@@ -0,0 +1,68 @@
+/**
+ * Confirmation tokens: bound to the previewed request, single-use and short-lived
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let home: string;
+
+const REQUEST = { tool: 'aws-execute-action', action: 'stop', resourceType: 'ec2-instance', resourceId: 'i-1', region: 'us-east-1' };
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_CONFIRMATION_TTL = '60';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('fingerprints ignore key order and undefined values but not argument values', async () => {
+  const { confirmations } = await import('../utils');
+  const reordered = { region: 'us-east-1', resourceId: 'i-1', resourceType: 'ec2-instance', action: 'stop', tool: 'aws-execute-action', force: undefined };
+
+  assert.equal(confirmations.fingerprint(reordered), confirmations.fingerprint(REQUEST));
+  assert.notEqual(confirmations.fingerprint({ ...REQUEST, resourceId: 'i-2' }), confirmations.fingerprint(REQUEST));
+});
+
+test('a token confirms its own request once', async () => {
+  const { confirmations } = await import('../utils');
+  const fingerprint = confirmations.fingerprint(REQUEST);
+  const ticket = confirmations.issue(fingerprint);
+
+  assert.equal(ticket.expiresInSeconds, 60);
+  assert.deepEqual(confirmations.consume(ticket.token, fingerprint), { valid: true });
+  assert.deepEqual(confirmations.consume(ticket.token, fingerprint), {
+    valid: false,
+    reason: 'Confirmation token is unknown or was already used',
+  });
+});
+
+test('a token issued for another request is rejected and spent', async () => {
+  const { confirmations } = await import('../utils');
+  const fingerprint = confirmations.fingerprint(REQUEST);
+  const ticket = confirmations.issue(fingerprint);
+
+  assert.deepEqual(confirmations.consume(ticket.token, confirmations.fingerprint({ ...REQUEST, resourceId: 'i-2' })), {
+    valid: false,
+    reason: 'Confirmation token was issued for a different request',
+  });
+  assert.equal(confirmations.consume(ticket.token, fingerprint).valid, false);
+});
+
+test('an expired token is rejected', async () => {
+  const { confirmations } = await import('../utils');
+  const fingerprint = confirmations.fingerprint(REQUEST);
+  const ticket = confirmations.issue(fingerprint, 0.001);
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  assert.deepEqual(confirmations.consume(ticket.token, fingerprint), {
+    valid: false,
+    reason: 'Confirmation token has expired',
+  });
+});
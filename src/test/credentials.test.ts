@@ -0,0 +1,72 @@
+/**
+ * Credential resolution: account allow-lists apply to every credential source
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+let home: string;
+let sts: http.Server;
+
+before(async () => {
+  // STS stand-in answering GetCallerIdentity for an account outside the allow-list
+  sts = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(200, { 'content-type': 'text/xml' });
+      res.end(`<GetCallerIdentityResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <GetCallerIdentityResult><Arn>arn:aws:iam::999999999999:user/ci</Arn><UserId>AIDA</UserId><Account>999999999999</Account></GetCallerIdentityResult>
+  <ResponseMetadata><RequestId>r1</RequestId></ResponseMetadata>
+</GetCallerIdentityResponse>`);
+    });
+  });
+  await new Promise<void>(resolve => sts.listen(0, '127.0.0.1', resolve));
+
+  // A profile restricted to account 111111111111 whose own credentials are missing from the vault
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  fs.mkdirSync(path.join(home, '.mcp-aws-cli'));
+  fs.writeFileSync(path.join(home, '.mcp-aws-cli', 'profiles.json'), JSON.stringify({
+    version: '2.0',
+    activeProfile: 'prod',
+    lastModified: new Date().toISOString(),
+    profiles: {
+      prod: {
+        name: 'prod',
+        type: 'static',
+        region: 'us-east-1',
+        environment: 'production',
+        allowedAccountIds: ['111111111111'],
+        isActive: true,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    },
+  }));
+
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  process.env.MCP_AWS_CLI_ENDPOINTS = JSON.stringify({ sts: `http://127.0.0.1:${(sts.address() as AddressInfo).port}` });
+  process.env.AWS_ACCESS_KEY_ID = 'AKIAENVIRONMENT';
+  process.env.AWS_SECRET_ACCESS_KEY = 'secret';
+});
+
+after(() => {
+  sts.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('a profile falling through to environment credentials is still held to its allowed accounts', async () => {
+  const { getIntelligentCredentials } = await import('../utils');
+
+  const result = await getIntelligentCredentials('prod', 'us-east-1');
+
+  assert.equal(result.needsConfiguration, true);
+  assert.equal(result.category, 'access-denied');
+  assert.equal(result.credentials, undefined);
+  assert.match(result.message!, /999999999999/);
+});
@@ -0,0 +1,58 @@
+/**
+ * Profile fan-out: a single profile name runs against that profile, not the active one
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+let home: string;
+let sts: http.Server;
+
+before(async () => {
+  // STS stand-in answering GetCallerIdentity
+  sts = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(200, { 'content-type': 'text/xml' });
+      res.end(`<GetCallerIdentityResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <GetCallerIdentityResult><Arn>arn:aws:iam::222222222222:user/dev</Arn><UserId>AIDA</UserId><Account>222222222222</Account></GetCallerIdentityResult>
+  <ResponseMetadata><RequestId>r1</RequestId></ResponseMetadata>
+</GetCallerIdentityResponse>`);
+    });
+  });
+  await new Promise<void>(resolve => sts.listen(0, '127.0.0.1', resolve));
+
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  process.env.MCP_AWS_CLI_ENDPOINTS = JSON.stringify({ sts: `http://127.0.0.1:${(sts.address() as AddressInfo).port}` });
+});
+
+after(() => {
+  sts.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('profiles as a single name fans out to that profile only', async () => {
+  const { profileService } = await import('../services/profile.service');
+  const { fanOut } = await import('../services/fan-out.service');
+  await profileService.createProfile({ name: 'main', region: 'us-east-1', environment: 'production', accessKeyId: 'AKIAMAIN', secretAccessKey: 's' });
+  await profileService.createProfile({ name: 'dev', region: 'us-east-1', environment: 'dev', accessKeyId: 'AKIADEV', secretAccessKey: 's' });
+
+  const profiles: Array<string | undefined> = [];
+  const call = { tool: 'aws-list-resources', operation: 'list', resourceType: 'ec2-instances', mutating: false };
+  const result = await fanOut.execute(call, { resourceType: 'ec2-instances', profiles: 'dev' }, async (profileCall, args) => {
+    profiles.push(profileCall.profile, args.profile);
+    return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: 0, resources: [] }) }] };
+  });
+
+  assert.deepEqual(profiles, ['dev', 'dev']);
+  const body = JSON.parse((result.content[0] as { text: string }).text);
+  assert.equal(body.accounts[0].accountId, '222222222222');
+  assert.deepEqual(body.accounts[0].profiles, ['dev']);
+});
@@ -0,0 +1,103 @@
+/**
+ * Production guardrail: mutating calls on production profiles are confirmed or blocked
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let home: string;
+
+const DELETE_ITEM = {
+  tool: 'aws-query-database',
+  operation: 'delete-item',
+  resourceType: 'dynamodb',
+  mutating: true,
+};
+
+function storedProfile(name: string, environment: string): Record<string, unknown> {
+  return {
+    name,
+    type: 'static',
+    region: 'us-east-1',
+    environment,
+    isActive: name === 'dev',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  fs.mkdirSync(path.join(home, '.mcp-aws-cli'));
+  fs.writeFileSync(path.join(home, '.mcp-aws-cli', 'profiles.json'), JSON.stringify({
+    version: '2.0',
+    activeProfile: 'dev',
+    lastModified: new Date().toISOString(),
+    profiles: { dev: storedProfile('dev', 'dev'), prod: storedProfile('prod', 'production') },
+  }));
+
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  process.env.MCP_AWS_CLI_PRODUCTION_GUARDRAIL = 'block';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('block denies a mutating call on a production profile', async () => {
+  const { guardrailService } = await import('../services/guardrail.service');
+
+  const decision = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'prod' }, { operation: 'delete-item', profile: 'prod' });
+
+  assert.equal(decision.outcome, 'deny');
+  assert.equal(decision.environment, 'production');
+  assert.equal(decision.confirmation, undefined);
+});
+
+test('reads on production and writes on other environments are allowed', async () => {
+  const { guardrailService } = await import('../services/guardrail.service');
+
+  const read = guardrailService.evaluate({ ...DELETE_ITEM, operation: 'scan', mutating: false, profile: 'prod' }, { profile: 'prod' });
+  const write = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'dev' }, { profile: 'dev' });
+
+  assert.equal(read.outcome, 'allow');
+  assert.equal(write.outcome, 'allow');
+});
+
+test('confirm asks for a token that allows the same request once', async () => {
+  const { guardrailService } = await import('../services/guardrail.service');
+  const { config } = await import('../utils');
+  config.getConfig().productionGuardrail = 'confirm';
+
+  const args = { operation: 'delete-item', profile: 'prod', tableName: 'orders' };
+  const first = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'prod' }, args);
+  assert.equal(first.outcome, 'confirm');
+  const confirmationToken = first.confirmation!.token;
+
+  const other = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'prod' }, { ...args, tableName: 'users', confirmationToken });
+  assert.equal(other.outcome, 'deny');
+
+  const second = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'prod' }, { ...args, confirmationToken });
+  assert.equal(second.outcome, 'deny', 'a token is consumed by its first use, even a mismatched one');
+
+  const fresh = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'prod' }, args);
+  const confirmed = guardrailService.evaluate({ ...DELETE_ITEM, profile: 'prod' }, { ...args, confirmationToken: fresh.confirmation!.token });
+  assert.equal(confirmed.outcome, 'allow');
+});
+
+test('production secrets cannot be written even with confirmation', async () => {
+  const { guardrailService } = await import('../services/guardrail.service');
+  const { config } = await import('../utils');
+  config.getConfig().productionGuardrail = 'confirm';
+
+  const decision = guardrailService.evaluate(
+    { tool: 'aws-manage-secrets', operation: 'update', resourceType: 'secrets-manager', mutating: true, profile: 'prod' },
+    { profile: 'prod' }
+  );
+
+  assert.equal(decision.outcome, 'deny');
+});
@@ -0,0 +1,122 @@
+/**
+ * Streamable HTTP transport: bearer auth, browser origins and idle-session expiry
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+let home: string;
+
+const TOKEN = 'test-token';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+/**
+ * Start a server on a free loopback port
+ */
+async function start(options: { token?: string; corsOrigins?: string[]; sessionIdleTimeoutSeconds?: number } = {}) {
+  const { startHttpServer } = await import('../http-server');
+  const port = await new Promise<number>(resolve => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
+  const close = await startHttpServer(
+    { host: '127.0.0.1', port, corsOrigins: [], sessionIdleTimeoutSeconds: 0, ...options },
+    () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} })
+  );
+  return { url: `http://127.0.0.1:${port}`, close };
+}
+
+function initialize(url: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(INITIALIZE),
+  });
+}
+
+async function sessionCount(url: string): Promise<number> {
+  const health = await (await fetch(`${url}/health`)).json() as { sessions: number };
+  return health.sessions;
+}
+
+test('a non-loopback host needs a token', async () => {
+  const { startHttpServer } = await import('../http-server');
+  await assert.rejects(
+    startHttpServer({ host: '0.0.0.0', port: 0, corsOrigins: [], sessionIdleTimeoutSeconds: 0 }, () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} })),
+    /without authentication/
+  );
+});
+
+test('the MCP endpoint requires the bearer token', async () => {
+  const { url, close } = await start({ token: TOKEN });
+  try {
+    const missing = await initialize(url);
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get('www-authenticate'), 'Bearer');
+
+    const wrong = await initialize(url, { Authorization: 'Bearer other-token' });
+    assert.equal(wrong.status, 401);
+    await wrong.text();
+
+    const accepted = await initialize(url, { Authorization: `Bearer ${TOKEN}` });
+    assert.equal(accepted.status, 200);
+    assert.ok(accepted.headers.get('mcp-session-id'));
+    await accepted.text();
+  } finally {
+    await close();
+  }
+});
+
+test('browser origins must be allowed', async () => {
+  const { url, close } = await start({ corsOrigins: ['https://app.example.com'] });
+  try {
+    const denied = await fetch(`${url}/health`, { headers: { Origin: 'https://evil.example.com' } });
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json() as { error: { message: string } }).error.message, 'Origin not allowed');
+
+    const allowed = await fetch(`${url}/health`, { headers: { Origin: 'https://app.example.com' } });
+    assert.equal(allowed.status, 200);
+    assert.equal(allowed.headers.get('access-control-allow-origin'), 'https://app.example.com');
+    await allowed.text();
+  } finally {
+    await close();
+  }
+});
+
+test('idle sessions are closed after the idle timeout', async () => {
+  const { url, close } = await start({ sessionIdleTimeoutSeconds: 1 });
+  try {
+    const response = await initialize(url);
+    assert.equal(response.status, 200);
+    await response.text();
+    assert.equal(await sessionCount(url), 1);
+
+    await new Promise(resolve => setTimeout(resolve, 2500));
+    assert.equal(await sessionCount(url), 0);
+  } finally {
+    await close();
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * Pagination: nextToken validation and the mcpAwsCli.maxListItems cap
+ */
+
+import { test, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+const SCOPE = 'list-resources:ec2-instances';
+
+/**
+ * Three pages of four numbered items, served by AWS-style string tokens
+ */
+async function fetchPage(token: string | undefined): Promise<{ items: number[]; nextToken?: string }> {
+  const page = token ? Number(token) : 0;
+  return {
+    items: [0, 1, 2, 3].map(index => page * 4 + index),
+    nextToken: page < 2 ? String(page + 1) : undefined,
+  };
+}
+
+before(() => {
+  process.env.MCP_AWS_CLI_MAX_LIST_ITEMS = '6';
+});
+
+test('a nextToken that decodes to a non-object is rejected as invalid', async () => {
+  const { paginate, ValidationError } = await import('../utils');
+
+  for (const payload of ['null', '5', '"text"']) {
+    const nextToken = Buffer.from(payload, 'utf-8').toString('base64url');
+    await assert.rejects(paginate(SCOPE, { nextToken }, fetchPage), ValidationError);
+  }
+});
+
+test('all stops at maxListItems and the next call resumes inside the cut page', async () => {
+  const { paginate } = await import('../utils');
+
+  const first = await paginate(SCOPE, { all: true }, fetchPage);
+  assert.deepEqual(first.items, [0, 1, 2, 3, 4, 5]);
+  assert.equal(first.truncated, true);
+
+  const second = await paginate(SCOPE, { all: true, nextToken: first.nextToken }, fetchPage);
+  assert.deepEqual(second.items, [6, 7, 8, 9, 10, 11]);
+  assert.equal(second.nextToken, undefined);
+});
@@ -0,0 +1,69 @@
+/**
+ * Policy evaluation: ARN rules apply to resources named by bare IDs
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+let home: string;
+let sts: http.Server;
+
+before(async () => {
+  // STS stand-in answering GetCallerIdentity for the account of the environment credentials
+  sts = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(200, { 'content-type': 'text/xml' });
+      res.end(`<GetCallerIdentityResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <GetCallerIdentityResult><Arn>arn:aws:iam::123456789012:user/ci</Arn><UserId>AIDA</UserId><Account>123456789012</Account></GetCallerIdentityResult>
+  <ResponseMetadata><RequestId>r1</RequestId></ResponseMetadata>
+</GetCallerIdentityResponse>`);
+    });
+  });
+  await new Promise<void>(resolve => sts.listen(0, '127.0.0.1', resolve));
+
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  fs.mkdirSync(path.join(home, '.mcp-aws-cli'));
+  fs.writeFileSync(path.join(home, '.mcp-aws-cli', 'policy.json'), JSON.stringify({
+    rules: [{ id: 'protect-prod', effect: 'deny', mutating: true, arns: ['arn:aws:ec2:*:123456789012:instance/i-prod*'] }],
+  }));
+
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  process.env.MCP_AWS_CLI_ENDPOINTS = JSON.stringify({ sts: `http://127.0.0.1:${(sts.address() as AddressInfo).port}` });
+  process.env.AWS_ACCESS_KEY_ID = 'AKIAENVIRONMENT';
+  process.env.AWS_SECRET_ACCESS_KEY = 'secret';
+  process.env.AWS_REGION = 'us-east-1';
+});
+
+after(() => {
+  sts.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('an ARN deny rule matches an instance named by its bare ID', async () => {
+  const { policyService } = await import('../services/policy.service');
+
+  const call = { tool: 'aws-execute-action', operation: 'stop', resourceType: 'ec2-instances', mutating: true };
+  const denied = await policyService.evaluate(call, { resourceType: 'ec2-instances', action: 'stop', resourceIds: ['i-prod1'] });
+  const allowed = await policyService.evaluate(call, { resourceType: 'ec2-instances', action: 'stop', resourceIds: ['i-dev1'] });
+
+  assert.equal(denied.allowed, false);
+  assert.equal(denied.matchedRule?.id, 'protect-prod');
+  assert.equal(allowed.allowed, true);
+});
+
+test('an ARN deny rule fails closed when a resource ARN cannot be derived', async () => {
+  const { policyService } = await import('../services/policy.service');
+
+  const call = { tool: 'aws-execute-action', operation: 'restart', resourceType: 'unknown-things', mutating: true };
+  const evaluation = await policyService.evaluate(call, { resourceIds: ['thing-1'] });
+
+  assert.equal(evaluation.allowed, false);
+  assert.match(evaluation.reason, /thing-1 could not be derived/);
+});
@@ -0,0 +1,60 @@
+/**
+ * RDS execute-sql: only plain reads are classified as read-only
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let home: string;
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function isMutating(sql: string): Promise<boolean> {
+  const { describeToolCall } = await import('../tools/tool-operations');
+  return describeToolCall('aws-query-database', { databaseType: 'rds', operation: 'execute-sql', queryParams: { sql } }).mutating;
+}
+
+test('plain reads are read-only', async () => {
+  for (const sql of [
+    'SELECT id, updated_at FROM orders WHERE status = \'open\' ORDER BY id DESC',
+    "SELECT * FROM audit WHERE note = 'delete; drop table x'",
+    'SELECT "delete_count" FROM stats -- update later',
+    'SHOW TABLES;',
+    'EXPLAIN SELECT * FROM orders',
+  ]) {
+    assert.equal(await isMutating(sql), false, sql);
+  }
+});
+
+test('row locks, side-effecting functions and nested writes are mutating', async () => {
+  for (const sql of [
+    'SELECT * FROM orders FOR UPDATE',
+    'SELECT * FROM orders FOR NO KEY UPDATE',
+    'SELECT * FROM orders FOR SHARE',
+    'SELECT * FROM orders FOR KEY SHARE',
+    'SELECT * FROM orders LOCK IN SHARE MODE',
+    'SELECT pg_terminate_backend(pid) FROM pg_stat_activity',
+    'SELECT "pg_terminate_backend"(42)',
+    "SELECT set_config('search_path', 'evil', false)",
+    "SELECT nextval('orders_id_seq')",
+    'SELECT * FROM (DELETE FROM orders RETURNING *) AS gone',
+    'WITH gone AS (DELETE FROM orders RETURNING *) SELECT * FROM gone',
+    'SELECT id INTO archive FROM orders',
+    'EXPLAIN ANALYZE DELETE FROM orders',
+    'SELECT 1; DROP TABLE orders',
+    'CALL cleanup()',
+  ]) {
+    assert.equal(await isMutating(sql), true, sql);
+  }
+});
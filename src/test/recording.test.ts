@@ -0,0 +1,87 @@
+/**
+ * Record/replay: fixtures keep no secrets and replay serves them without the network
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { GetParameterCommand } from '@aws-sdk/client-ssm';
+import { DescribeTaskDefinitionCommand } from '@aws-sdk/client-ecs';
+
+let home: string;
+let aws: http.Server;
+
+const CREDENTIALS = { accessKeyId: 'AKIARECORD', secretAccessKey: 'record-secret' };
+
+before(async () => {
+  // SSM and ECS stand-in (both JSON protocols, told apart by X-Amz-Target)
+  aws = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(200, { 'content-type': 'application/x-amz-json-1.1' });
+      res.end(String(req.headers['x-amz-target']).endsWith('GetParameter')
+        ? JSON.stringify({ Parameter: { Name: '/app/db-password', Type: 'SecureString', Value: 'parameter-secret', Version: 1 } })
+        : JSON.stringify({
+          taskDefinition: {
+            family: 'api',
+            containerDefinitions: [{ name: 'api', image: 'api:1', environment: [{ name: 'DB_PASSWORD', value: 'container-secret' }] }],
+          },
+        }));
+    });
+  });
+  await new Promise<void>(resolve => aws.listen(0, '127.0.0.1', resolve));
+  const endpoint = `http://127.0.0.1:${(aws.address() as AddressInfo).port}`;
+
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_ENDPOINTS = JSON.stringify({ ssm: endpoint, ecs: endpoint });
+  process.env.MCP_AWS_CLI_RECORDING_MODE = 'record';
+});
+
+after(() => {
+  aws.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('recorded fixtures scrub SecureString values and container environment values', async () => {
+  const { awsClientFactory } = await import('../services/aws-client.factory');
+  const parameter = await awsClientFactory.getSSMClient('us-east-1', CREDENTIALS)
+    .send(new GetParameterCommand({ Name: '/app/db-password', WithDecryption: true }));
+  const task = await awsClientFactory.getECSClient('us-east-1', CREDENTIALS)
+    .send(new DescribeTaskDefinitionCommand({ taskDefinition: 'api' }));
+
+  // The caller still gets the real values
+  assert.equal(parameter.Parameter?.Value, 'parameter-secret');
+  assert.equal(task.taskDefinition?.containerDefinitions?.[0].environment?.[0].value, 'container-secret');
+
+  const directory = path.join(home, '.mcp-aws-cli', 'recordings');
+  const files = fs.readdirSync(directory, { recursive: true }).map(String).filter(name => name.endsWith('.json'));
+  assert.equal(files.length, 2);
+  const recorded = files.map(file => fs.readFileSync(path.join(directory, file), 'utf-8')).join('\n');
+  for (const secret of ['parameter-secret', 'container-secret', 'record-secret']) {
+    assert.ok(!recorded.includes(secret), `fixture contains ${secret}`);
+  }
+  assert.match(recorded, /"Value": "\[SCRUBBED\]"/);
+  assert.match(recorded, /"name": "DB_PASSWORD",\s*"value": "\[SCRUBBED\]"/);
+});
+
+test('replay serves the recorded responses without calling AWS', async () => {
+  const { awsClientFactory } = await import('../services/aws-client.factory');
+  const { config } = await import('../utils');
+  await new Promise<void>(resolve => aws.close(() => resolve()));
+  config.getConfig().recordingMode = 'replay';
+
+  const parameter = await awsClientFactory.getSSMClient('us-east-1', CREDENTIALS)
+    .send(new GetParameterCommand({ Name: '/app/db-password', WithDecryption: true }));
+  assert.equal(parameter.Parameter?.Name, '/app/db-password');
+  assert.equal(parameter.Parameter?.Value, '[SCRUBBED]');
+
+  await assert.rejects(
+    awsClientFactory.getSSMClient('us-east-1', CREDENTIALS).send(new GetParameterCommand({ Name: '/app/other' })),
+    /No recorded response for SSM.GetParameter/
+  );
+});
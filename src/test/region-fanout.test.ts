@@ -0,0 +1,93 @@
+/**
+ * Region fan-out: region "all" resolves the enabled regions through the profile's endpoints
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+let home: string;
+let localstack: http.Server;
+let endpoint: string;
+
+const CALL = { tool: 'aws-list-resources', operation: 'list', resourceType: 'ec2-instances', mutating: false };
+
+before(async () => {
+  // LocalStack stand-in answering GetCallerIdentity and DescribeRegions
+  localstack = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      res.writeHead(200, { 'content-type': 'text/xml' });
+      if (body.includes('Action=DescribeRegions')) {
+        res.end(`<DescribeRegionsResponse xmlns="http://ec2.amazonaws.com/doc/2016-11-15/">
+  <requestId>r2</requestId>
+  <regionInfo>
+    <item><regionName>us-west-2</regionName><regionEndpoint>ec2.us-west-2.amazonaws.com</regionEndpoint></item>
+    <item><regionName>eu-west-1</regionName><regionEndpoint>ec2.eu-west-1.amazonaws.com</regionEndpoint></item>
+  </regionInfo>
+</DescribeRegionsResponse>`);
+        return;
+      }
+      res.end(`<GetCallerIdentityResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  <GetCallerIdentityResult><Arn>arn:aws:iam::000000000000:user/local</Arn><UserId>AIDA</UserId><Account>000000000000</Account></GetCallerIdentityResult>
+  <ResponseMetadata><RequestId>r1</RequestId></ResponseMetadata>
+</GetCallerIdentityResponse>`);
+    });
+  });
+  await new Promise<void>(resolve => localstack.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(localstack.address() as AddressInfo).port}`;
+
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  delete process.env.MCP_AWS_CLI_ENDPOINTS;
+});
+
+after(() => {
+  localstack.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('region all lists the enabled regions from the profile endpoints', async () => {
+  const { profileService } = await import('../services/profile.service');
+  const { regionFanOut } = await import('../services/region-fanout.service');
+  await profileService.createProfile({
+    name: 'local', region: 'us-east-1', environment: 'dev', accessKeyId: 'test', secretAccessKey: 'test',
+    endpoints: { default: endpoint },
+  });
+
+  const regions: string[] = [];
+  const result = await regionFanOut.run(CALL, { resourceType: 'ec2-instances', region: 'all', profile: 'local' }, async (call) => {
+    regions.push(call.region!);
+    return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: 1, resources: [{ id: call.region }] }) }] };
+  });
+
+  assert.equal(result.isError, false);
+  assert.deepEqual(regions.sort(), ['eu-west-1', 'us-west-2']);
+});
+
+test('region all reports credentials that cannot be resolved as an error', async () => {
+  const { profileService } = await import('../services/profile.service');
+  const { regionFanOut } = await import('../services/region-fanout.service');
+  await profileService.createProfile({
+    name: 'pinned', region: 'us-east-1', environment: 'dev', accessKeyId: 'test', secretAccessKey: 'test',
+    endpoints: { default: endpoint }, allowedAccountIds: ['111111111111'],
+  });
+
+  let ran = false;
+  const result = await regionFanOut.run(CALL, { resourceType: 'ec2-instances', region: 'all', profile: 'pinned' }, async () => {
+    ran = true;
+    return { content: [] };
+  });
+
+  assert.equal(result.isError, true);
+  assert.equal(ran, false);
+  const body = JSON.parse((result.content[0] as { text: string }).text);
+  assert.equal(body.success, false);
+  assert.equal(body.error.category, 'access-denied');
+});
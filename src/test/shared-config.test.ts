@@ -0,0 +1,59 @@
+/**
+ * Shared config import: overwriting a profile never loses the stored one
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let home: string;
+let configFile: string;
+let credentialsFile: string;
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  configFile = path.join(home, 'config');
+  credentialsFile = path.join(home, 'credentials');
+  fs.writeFileSync(credentialsFile, '[work]\naws_access_key_id = AKIANEW\naws_secret_access_key = new-secret\n');
+
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('an overwrite that fails keeps the existing profile and its credentials', async () => {
+  const { profileService } = await import('../services/profile.service');
+  const { sharedConfigService } = await import('../services/shared-config.service');
+  await profileService.createProfile({
+    name: 'work', region: 'eu-west-1', environment: 'dev', accessKeyId: 'AKIAOLD', secretAccessKey: 'old-secret',
+  });
+  fs.writeFileSync(configFile, '[profile work]\nregion = us-east-1\nendpoint_url = not a url\n');
+
+  const result = await sharedConfigService.importProfiles({ overwrite: true, configFile, credentialsFile });
+
+  assert.deepEqual(result.imported, []);
+  assert.equal(result.skipped[0]?.name, 'work');
+  const stored = await profileService.getProfile('work');
+  assert.equal(stored.data?.region, 'eu-west-1');
+  assert.equal(stored.data?.accessKeyId, 'AKIAOLD');
+  assert.equal(stored.data?.isActive, true);
+});
+
+test('an overwrite that succeeds replaces the profile and keeps it active', async () => {
+  const { profileService } = await import('../services/profile.service');
+  const { sharedConfigService } = await import('../services/shared-config.service');
+  fs.writeFileSync(configFile, '[profile work]\nregion = us-east-1\n');
+
+  const result = await sharedConfigService.importProfiles({ overwrite: true, configFile, credentialsFile });
+
+  assert.equal(result.imported?.[0]?.name, 'work');
+  const stored = await profileService.getProfile('work');
+  assert.equal(stored.data?.region, 'us-east-1');
+  assert.equal(stored.data?.accessKeyId, 'AKIANEW');
+  assert.equal(stored.data?.isActive, true);
+});
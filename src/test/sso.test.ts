@@ -0,0 +1,79 @@
+/**
+ * SSO: token refresh and account discovery go through the client factory (endpoints, recording)
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+const START_URL = 'https://example.awsapps.com/start';
+
+let home: string;
+let portal: http.Server;
+const requests: string[] = [];
+
+before(async () => {
+  // IAM Identity Center stand-in: OIDC CreateToken and portal ListAccounts
+  portal = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      requests.push(`${req.method} ${req.url!.split('?')[0]}`);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(req.url!.startsWith('/token')
+        ? JSON.stringify({ accessToken: 'new-access-token', expiresIn: 3600, refreshToken: 'new-refresh-token', tokenType: 'Bearer' })
+        : JSON.stringify({ accountList: [{ accountId: '444444444444', accountName: 'Sandbox', emailAddress: 'sandbox@example.com' }] }));
+    });
+  });
+  await new Promise<void>(resolve => portal.listen(0, '127.0.0.1', resolve));
+  const endpoint = `http://127.0.0.1:${(portal.address() as AddressInfo).port}`;
+
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  process.env.MCP_AWS_CLI_ENDPOINTS = JSON.stringify({ 'sso': endpoint, 'sso-oidc': endpoint });
+  process.env.MCP_AWS_CLI_RECORDING_MODE = 'record';
+
+  // Expired token that can still be refreshed
+  const cacheDir = path.join(home, '.aws', 'sso', 'cache');
+  fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, `${crypto.createHash('sha1').update(START_URL).digest('hex')}.json`), JSON.stringify({
+    startUrl: START_URL,
+    region: 'us-east-1',
+    accessToken: 'old-access-token',
+    expiresAt: '2000-01-01T00:00:00Z',
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    refreshToken: 'old-refresh-token',
+  }));
+});
+
+after(() => {
+  portal.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('listing accounts refreshes the token and calls the portal through the configured endpoints', async () => {
+  const { ssoService } = await import('../services/sso.service');
+  const accounts = await ssoService.listAccounts(START_URL, 'us-east-1');
+
+  assert.deepEqual(accounts, [{ accountId: '444444444444', accountName: 'Sandbox', emailAddress: 'sandbox@example.com' }]);
+  assert.deepEqual(requests, ['POST /token', 'GET /assignment/accounts']);
+});
+
+test('recorded SSO calls keep no tokens or client secrets', () => {
+  const directory = path.join(home, '.mcp-aws-cli', 'recordings');
+  const files = fs.readdirSync(directory, { recursive: true }).map(String).filter(name => name.endsWith('.json'));
+  assert.equal(files.length, 2);
+
+  for (const file of files) {
+    const text = fs.readFileSync(path.join(directory, file), 'utf-8');
+    for (const secret of ['access-token', 'refresh-token', 'client-secret']) {
+      assert.ok(!text.includes(secret), `${file} contains ${secret}`);
+    }
+  }
+});
@@ -0,0 +1,95 @@
+/**
+ * Tool registry: arguments are validated against the generated schemas and calls dispatch by their match
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let home: string;
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+/**
+ * Local-only tool whose operations report which one ran
+ */
+async function registerTestTool() {
+  const { toolRegistry } = await import('../tools/tool-registry');
+  const ran = (name: string) => async () => ({ content: [{ type: 'text' as const, text: name }] });
+
+  toolRegistry.register({
+    name: 'test-tool',
+    description: 'Test tool',
+    properties: {
+      action: { type: 'string', description: 'Action' },
+      kind: { type: 'string', description: 'Kind (optional)' },
+    },
+    required: ['action'],
+    credentials: false,
+    classify: (args: Record<string, any>) => ({ operation: args.action, resourceType: args.kind }),
+    operations: [
+      { match: { action: 'get' }, iamActions: [], run: ran('get') },
+      { match: { action: 'get', kind: 'special' }, iamActions: [], run: ran('get special') },
+      { match: { action: 'delete' }, iamActions: [], mutating: true, run: ran('delete') },
+    ],
+  });
+  return toolRegistry;
+}
+
+test('calls run the most specific matching operation', async () => {
+  const registry = await registerTestTool();
+  const text = async (args: Record<string, any>) => ((await registry.dispatch('test-tool', args)).content[0] as { text: string }).text;
+
+  assert.equal(await text({ action: 'get' }), 'get');
+  assert.equal(await text({ action: 'get', kind: 'special' }), 'get special');
+  assert.equal(await text({ action: 'get', kind: 'other' }), 'get');
+  assert.equal(registry.isMutating('test-tool', { action: 'delete' }), true);
+  assert.equal(registry.isMutating('test-tool', { action: 'get' }), false);
+});
+
+test('calls without a matching operation get the unsupported-operation envelope', async () => {
+  const registry = await registerTestTool();
+  const result = await registry.dispatch('test-tool', { action: 'list' });
+  const body = JSON.parse((result.content[0] as { text: string }).text);
+
+  assert.equal(result.isError, true);
+  assert.equal(body.error.code, 'UnsupportedOperation');
+  assert.deepEqual(body.supportedOperations, [{ action: 'get' }, { action: 'get', kind: 'special' }, { action: 'delete' }]);
+});
+
+test('schemas take selector enums from the operations and offer confirmationToken on tools that write', async () => {
+  const registry = await registerTestTool();
+  const tool = registry.getTools().find(candidate => candidate.name === 'test-tool')!;
+  const properties = tool.inputSchema.properties as Record<string, { enum?: string[] }>;
+
+  assert.deepEqual(properties.action.enum, ['get', 'delete']);
+  assert.deepEqual(properties.kind.enum, ['special']);
+  assert.ok(properties.confirmationToken);
+  assert.deepEqual(tool.inputSchema.required, ['action']);
+});
+
+test('arguments are checked against the schema and the requirements of their operation', async () => {
+  const { validateToolCall } = await import('../tools/tool-validation');
+  const fields = (tool: string, args: Record<string, any>) => validateToolCall(tool, args).map(issue => issue.field);
+
+  assert.deepEqual(fields('aws-query-database', { databaseType: 'dynamodb', operation: 'scan', tableName: 'orders' }), []);
+  assert.deepEqual(fields('aws-unknown', {}), ['name']);
+  assert.deepEqual(fields('aws-query-database', { operation: 'scan', tableName: 'orders' }), ['databaseType']);
+  assert.deepEqual(fields('aws-query-database', { databaseType: 'mongodb', operation: 'scan' }), ['databaseType']);
+  assert.deepEqual(fields('aws-query-database', { databaseType: 'dynamodb', operation: 'scan', tableName: 'orders', tabelName: 'x' }), ['tabelName']);
+  assert.deepEqual(fields('aws-query-database', { databaseType: 'rds', operation: 'scan' }), ['databaseType, operation']);
+  assert.deepEqual(
+    fields('aws-query-database', { databaseType: 'rds', operation: 'execute-sql', queryParams: { sql: 'SELECT 1' } }),
+    ['queryParams.resourceArn', 'queryParams.secretArn']
+  );
+});
@@ -0,0 +1,59 @@
+/**
+ * Argument validation: invalid tool calls are rejected with the offending fields before anything runs
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+let home: string;
+let client: Client;
+
+before(async () => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+
+  const { createMCPServer } = await import('../index');
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMCPServer().connect(serverTransport);
+  client = new Client({ name: 'validation-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as Array<{ text: string }>;
+  return { isError: result.isError, body: JSON.parse(content.text) };
+}
+
+test('values outside an enum are reported with the allowed values', async () => {
+  const { isError, body } = await callTool('aws-manage-profiles', { operation: 'rename', profileName: 'dev' });
+
+  assert.equal(isError, true);
+  assert.equal(body.error.code, 'InvalidArguments');
+  assert.equal(body.error.category, 'validation');
+  assert.equal(body.invalidFields[0].field, 'operation');
+  assert.ok(body.invalidFields[0].allowedValues.includes('create'));
+});
+
+test('operation requirements and misspelled arguments are reported before the handler runs', async () => {
+  const missing = await callTool('aws-manage-profiles', { operation: 'create', region: 'us-east-1' });
+  assert.equal(missing.body.error.code, 'InvalidArguments');
+  assert.ok(missing.body.invalidFields.some((issue: { field: string }) => issue.field === 'profileName'));
+
+  const misspelled = await callTool('aws-manage-profiles', { operation: 'delete', profilName: 'dev' });
+  assert.deepEqual(misspelled.body.invalidFields.map((issue: { field: string }) => issue.field), ['profilName']);
+
+  const { profileService } = await import('../services/profile.service');
+  assert.deepEqual((await profileService.listProfiles()).data, []);
+});
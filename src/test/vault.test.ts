@@ -0,0 +1,78 @@
+/**
+ * Profile vault: credentials are encrypted at rest and plaintext ones from old profiles.json files are moved in
+ */
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let home: string;
+let profilesFile: string;
+let vaultFile: string;
+
+before(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-aws-cli-test-'));
+  profilesFile = path.join(home, '.mcp-aws-cli', 'profiles.json');
+  vaultFile = path.join(home, '.mcp-aws-cli', 'credentials.enc');
+
+  // Pre-2.0 profiles.json with plaintext keys
+  fs.mkdirSync(path.dirname(profilesFile), { recursive: true });
+  fs.writeFileSync(profilesFile, JSON.stringify({
+    version: '1.0.0',
+    activeProfile: 'legacy',
+    profiles: {
+      legacy: {
+        name: 'legacy', region: 'us-east-1', environment: 'dev', isActive: true,
+        accessKeyId: 'AKIALEGACY', secretAccessKey: 'legacy-secret',
+        createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    },
+    lastModified: '2024-01-01T00:00:00.000Z',
+  }));
+
+  process.env.HOME = home;
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('plaintext credentials move from profiles.json to the vault', async () => {
+  const { profileService } = await import('../services/profile.service');
+  const { profileVault } = await import('../services/profile-vault.service');
+  profileService.migrateLegacyCredentials();
+
+  const stored = fs.readFileSync(profilesFile, 'utf-8');
+  assert.ok(!stored.includes('AKIALEGACY') && !stored.includes('legacy-secret'));
+  assert.equal(JSON.parse(stored).version, '2.0.0');
+  assert.deepEqual(profileVault.load().legacy, { accessKeyId: 'AKIALEGACY', secretAccessKey: 'legacy-secret' });
+
+  const profile = await profileService.getProfile('legacy');
+  assert.equal(profile.data?.secretAccessKey, 'legacy-secret');
+});
+
+test('the vault file holds only ciphertext and decrypts with the passphrase', async () => {
+  const { profileVault } = await import('../services/profile-vault.service');
+  profileVault.save({ app: { accessKeyId: 'AKIAAPP', secretAccessKey: 'app-secret', sessionToken: 'app-token' } });
+
+  const vault = JSON.parse(fs.readFileSync(vaultFile, 'utf-8'));
+  assert.equal(vault.keySource, 'passphrase');
+  for (const secret of ['AKIAAPP', 'app-secret', 'app-token']) {
+    assert.ok(!JSON.stringify(vault).includes(secret));
+  }
+  assert.equal(fs.statSync(vaultFile).mode & 0o777, 0o600);
+  assert.deepEqual(profileVault.load(), { app: { accessKeyId: 'AKIAAPP', secretAccessKey: 'app-secret', sessionToken: 'app-token' } });
+});
+
+test('another passphrase cannot decrypt the vault', async () => {
+  const { profileVault } = await import('../services/profile-vault.service');
+  process.env.MCP_AWS_CLI_PASSPHRASE = 'wrong';
+  try {
+    assert.throws(() => profileVault.load(), /Cannot decrypt profile credentials with the passphrase key/);
+  } finally {
+    process.env.MCP_AWS_CLI_PASSPHRASE = 'test';
+  }
+});
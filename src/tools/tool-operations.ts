@@ -0,0 +1,35 @@
+/**
+ * Tool Operation Classifier
+ * Describes what a unified tool call does: operation, target resource type and whether it mutates state
+ */
+
+import { toolRegistry } from './unified.tools';
+
+/**
+ * Normalized description of a tool call
+ */
+export interface ToolCallDescriptor {
+  tool: string;
+  operation: string;
+  resourceType?: string;
+  mutating: boolean;
+  profile?: string;
+  region?: string;
+}
+
+/**
+ * Describe a tool call from its name and arguments, as classified by the tool's registry definition
+ */
+export function describeToolCall(tool: string, args: Record<string, any> = {}): ToolCallDescriptor {
+  const definition = toolRegistry.getDefinition(tool);
+  const { operation, resourceType } = definition ? definition.classify(args) : { operation: args.operation, resourceType: args.resourceType };
+
+  return {
+    tool,
+    operation,
+    resourceType,
+    mutating: toolRegistry.isMutating(tool, args),
+    profile: tool === 'aws-manage-profiles' ? args.profileName : args.profile,
+    region: args.region,
+  };
+}
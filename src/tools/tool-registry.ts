@@ -0,0 +1,248 @@
+/**
+ * Tool Registry
+ * Unified tools declare their arguments and operations once; input schemas, call classification,
+ * per-operation requirements and dispatch (credentials, response cache, error envelope) are derived from it
+ */
+
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AwsCredentialIdentity } from '@aws-sdk/types';
+import { CredentialProvenance } from '../models';
+import { responseCache } from '../services/response-cache.service';
+import {
+  logger,
+  getRegion,
+  getIntelligentCredentials,
+  credentialsErrorResult,
+  ErrorHandler,
+  JsonSchema,
+} from '../utils';
+
+/**
+ * What an operation runs with: the resolved region and, for AWS tools, the credentials of the call
+ */
+export interface OperationContext {
+  region: string;
+  credentials?: AwsCredentialIdentity;
+  provenance?: CredentialProvenance;
+}
+
+/**
+ * One operation of a tool
+ */
+export interface ToolOperation<A = Record<string, any>> {
+  /** Values of the selector arguments that pick this operation (the most specific match wins) */
+  match: Record<string, string>;
+  /** Arguments only this operation takes (merged into the tool's input schema) */
+  properties?: Record<string, JsonSchema>;
+  /** IAM actions the operation calls (reported with access-denied errors) */
+  iamActions: string[];
+  /** Whether the operation changes AWS or local state (default: read-only) */
+  mutating?: boolean | ((args: A) => boolean);
+  /** Arguments the operation needs beyond the tool's required ones (dotted paths into objects) */
+  required?: string[];
+  /** Resource type whose cached responses are dropped after the operation runs */
+  invalidates?: string;
+  run(args: A, context: OperationContext): Promise<CallToolResult>;
+}
+
+/**
+ * A unified tool: its arguments, how calls are classified and its operations
+ */
+export interface ToolDefinition<A = Record<string, any>> {
+  name: string;
+  description: string;
+  /** Argument schemas; selector arguments without an enum get one generated from the operations */
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+  /** Operation and resource type of a call, as used by policy rules, guardrails and the audit log */
+  classify(args: A): { operation: string; resourceType?: string };
+  /** Service named in error envelopes (default: none) */
+  service?: string;
+  /** Region the operations run in (default: the region argument or the profile default) */
+  region?(args: A): string;
+  /** Resolve AWS credentials before running (false for tools that only touch local state) */
+  credentials?: boolean;
+  /** Serve read-only operations from the response cache */
+  cache?: boolean;
+  operations: ToolOperation<A>[];
+}
+
+/**
+ * Tool Registry
+ */
+export class ToolRegistry {
+  private static instance: ToolRegistry;
+  private definitions = new Map<string, ToolDefinition<any>>();
+  private tools?: Tool[];
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  /**
+   * Register tool definitions (a later definition with the same name replaces the earlier one)
+   */
+  public register(...definitions: ToolDefinition<any>[]): void {
+    for (const definition of definitions) {
+      this.definitions.set(definition.name, definition);
+    }
+    this.tools = undefined;
+  }
+
+  /**
+   * MCP tool list with input schemas generated from the definitions. With a filter, schemas only offer
+   * the operations it accepts and tools left without operations are omitted
+   */
+  public getTools(include?: (definition: ToolDefinition<any>, operation: ToolOperation<any>) => boolean): Tool[] {
+    if (include) {
+      return [...this.definitions.values()]
+        .map(definition => ({ definition, operations: definition.operations.filter(operation => include(definition, operation)) }))
+        .filter(({ operations }) => operations.length > 0)
+        .map(({ definition, operations }) => this.toTool(definition, operations));
+    }
+
+    if (!this.tools) {
+      this.tools = [...this.definitions.values()].map(definition => this.toTool(definition, definition.operations));
+    }
+    return this.tools;
+  }
+
+  /**
+   * Get the definition of a tool
+   */
+  public getDefinition(name: string): ToolDefinition<any> | undefined {
+    return this.definitions.get(name);
+  }
+
+  /**
+   * Operation a call maps to: the matching operation with the most selector values
+   */
+  public findOperation(tool: string, args: Record<string, any>): ToolOperation<any> | undefined {
+    let best: ToolOperation<any> | undefined;
+    for (const operation of this.definitions.get(tool)?.operations || []) {
+      const entries = Object.entries(operation.match);
+      if (entries.every(([name, value]) => args[name] === value)
+        && (!best || entries.length > Object.keys(best.match).length)) {
+        best = operation;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Selector values of every operation of a tool, for unsupported-combination errors
+   */
+  public getSupportedOperations(tool: string): Array<Record<string, string>> {
+    return (this.definitions.get(tool)?.operations || [])
+      .map(operation => operation.match)
+      .filter(match => Object.keys(match).length > 0);
+  }
+
+  /**
+   * Whether a call changes state, per its operation's classification
+   */
+  public isMutating(tool: string, args: Record<string, any>): boolean {
+    const mutating = this.findOperation(tool, args)?.mutating;
+    return typeof mutating === 'function' ? mutating(args) : !!mutating;
+  }
+
+  /**
+   * Run a call: resolve credentials, serve or fill the response cache, run the operation
+   * and turn failures into the error envelope
+   */
+  public async dispatch(tool: string, args: Record<string, any>): Promise<CallToolResult> {
+    const definition = this.definitions.get(tool);
+    if (!definition) {
+      logger.warn(`Unknown tool called: ${tool}`);
+      return ErrorHandler.toErrorResult(
+        ErrorHandler.details('UnknownTool', 'validation', `Unknown tool: ${tool}`),
+        { availableTools: [...this.definitions.keys()] }
+      );
+    }
+
+    const { operation: name, resourceType } = definition.classify(args);
+    const label = resourceType ? `${name} ${resourceType}` : name;
+    const operation = this.findOperation(tool, args);
+    if (!operation) {
+      return ErrorHandler.toErrorResult(
+        ErrorHandler.details('UnsupportedOperation', 'validation', `Unsupported operation for ${tool}: ${label}`, { operation: name }),
+        { supportedOperations: this.getSupportedOperations(tool) }
+      );
+    }
+
+    const region = definition.region ? definition.region(args) : getRegion(args.region);
+    let context: OperationContext = { region };
+
+    try {
+      if (definition.credentials !== false) {
+        const credResult = await getIntelligentCredentials(args.profile, region);
+        if (credResult.needsConfiguration) {
+          return credentialsErrorResult(credResult, name);
+        }
+        context = { region, credentials: credResult.credentials, provenance: credResult.provenance };
+      }
+
+      const run = () => operation.run(args, context);
+      if (definition.cache && !this.isMutating(tool, args)) {
+        return await responseCache.getOrFetch(
+          { tool, resourceType: resourceType || name, region, provenance: context.provenance, args, bypassCache: args.bypassCache },
+          run
+        );
+      }
+      return await run();
+    } catch (error) {
+      logger.error(`${tool} ${label} failed`, error as Error);
+      const denied = ErrorHandler.classify(error).category === 'access-denied';
+      return ErrorHandler.toToolResult(error, { service: definition.service, operation: label }, denied ? { requiredIamActions: operation.iamActions } : {});
+    } finally {
+      if (operation.invalidates) {
+        responseCache.invalidate(context.provenance, region, operation.invalidates);
+      }
+    }
+  }
+
+  /**
+   * Input schema of a tool: its properties and the fragments of its operations,
+   * with enums of the selector arguments taken from the operations (and confirmationToken for tools that write)
+   */
+  private toTool(definition: ToolDefinition<any>, operations: ToolOperation<any>[]): Tool {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [name, schema] of Object.entries(definition.properties)) {
+      const values = [...new Set(operations.map(operation => operation.match[name]).filter(Boolean))];
+      properties[name] = values.length > 0 && !schema.enum ? { type: 'string', enum: values, ...schema } : schema;
+    }
+    for (const operation of operations) {
+      for (const [name, schema] of Object.entries(operation.properties || {})) {
+        properties[name] = properties[name] || schema;
+      }
+    }
+    // Writes on production profiles are confirmed by repeating the request with the guardrail's token
+    if (operations.some(operation => operation.mutating) && !properties.confirmationToken) {
+      properties.confirmationToken = {
+        type: 'string',
+        description: 'Token returned when a production guardrail asks for confirmation of the same request',
+      };
+    }
+
+    return {
+      name: definition.name,
+      description: definition.description,
+      inputSchema: {
+        type: 'object',
+        properties,
+        ...(definition.required ? { required: definition.required } : {}),
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const toolRegistry = ToolRegistry.getInstance();
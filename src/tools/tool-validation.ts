@@ -0,0 +1,56 @@
+/**
+ * Tool Argument Validation
+ * Checks tool calls against the generated inputSchema of each unified tool plus the requirements of the operation they map to
+ */
+
+import { unifiedTools, toolRegistry } from './unified.tools';
+import { ValidationIssue, validateSchema } from '../utils';
+
+/**
+ * Validate the arguments of a tool call; an empty list means the call may be dispatched
+ */
+export function validateToolCall(tool: string, args: Record<string, any>): ValidationIssue[] {
+  const definition = unifiedTools.find(candidate => candidate.name === tool);
+  if (!definition) {
+    return [{ field: 'name', message: `unknown tool "${tool}"`, allowedValues: unifiedTools.map(t => t.name) }];
+  }
+
+  // Top-level arguments are closed so misspelled names are reported instead of ignored
+  const issues = validateSchema({ ...definition.inputSchema, additionalProperties: false }, args);
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  // Each selector value passed its enum; the combination must still name an operation
+  const operation = toolRegistry.findOperation(tool, args);
+  if (!operation) {
+    const supported = toolRegistry.getSupportedOperations(tool);
+    const selectors = [...new Set(supported.flatMap(match => Object.keys(match)))];
+    return [{
+      field: selectors.join(', '),
+      message: `do not form a supported operation (got ${describeSelectors(selectors, args)})`,
+      allowedValues: supported,
+    }];
+  }
+
+  const condition = describeSelectors(Object.keys(operation.match), args);
+  for (const field of operation.required || []) {
+    if (isMissing(getField(args, field))) {
+      issues.push({ field, message: `is required for ${condition}` });
+    }
+  }
+
+  return issues;
+}
+
+function describeSelectors(selectors: string[], args: Record<string, any>): string {
+  return selectors.map(name => `${name} "${args[name]}"`).join(', ');
+}
+
+function getField(args: Record<string, any>, field: string): unknown {
+  return field.split('.').reduce<any>((value, name) => value?.[name], args);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
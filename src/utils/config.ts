@@ -9,7 +9,7 @@ try {
   vscode = null; // Standalone mode
 }
 
-import { AWSRegion, RetryConfig } from '../models';
+import { AWSRegion, EnvironmentToolRestrictions, RetryConfig } from '../models';
 
 /**
  * Application configuration
@@ -19,6 +19,21 @@ export interface AppConfig {
   cacheTimeout: number;
   enableDebugLogs: boolean;
   maxRetries: number;
+  retryDelay: number;
+  exponentialBackoff: boolean;
+  requestsPerSecond: number;
+  confirmationTimeout: number;
+  productionGuardrail: 'confirm' | 'block';
+  policyFile: string;
+  strictCredentials: boolean;
+  maxListItems: number;
+  endpoints: Record<string, string>;
+  s3ForcePathStyle: boolean;
+  enabledTools: string[];
+  readOnlyTools: string[];
+  environmentTools: Record<string, EnvironmentToolRestrictions>;
+  recordingMode: 'off' | 'record' | 'replay';
+  recordingDir: string;
 }
 
 /**
@@ -53,6 +68,21 @@ export class ConfigManager {
         cacheTimeout: config.get('cacheTimeout', 300),
         enableDebugLogs: config.get('enableDebugLogs', false),
         maxRetries: config.get('maxRetries', 3),
+        retryDelay: config.get('retryDelay', 1000),
+        exponentialBackoff: config.get('exponentialBackoff', true),
+        requestsPerSecond: config.get('requestsPerSecond', 10),
+        confirmationTimeout: config.get('confirmationTimeout', 120),
+        productionGuardrail: config.get('productionGuardrail', 'confirm'),
+        policyFile: config.get('policyFile', ''),
+        strictCredentials: config.get('strictCredentials', false),
+        maxListItems: config.get('maxListItems', 1000),
+        endpoints: config.get('endpoints', {}),
+        s3ForcePathStyle: config.get('s3ForcePathStyle', false),
+        enabledTools: config.get('enabledTools', []),
+        readOnlyTools: config.get('readOnlyTools', []),
+        environmentTools: config.get('environmentTools', {}),
+        recordingMode: config.get('recordingMode', 'off'),
+        recordingDir: config.get('recordingDir', ''),
       };
     }
     
@@ -62,6 +92,21 @@ export class ConfigManager {
       cacheTimeout: parseInt(process.env.MCP_AWS_CLI_CACHE_TTL || '300', 10),
       enableDebugLogs: process.env.MCP_AWS_CLI_DEBUG === 'true',
       maxRetries: parseInt(process.env.MCP_AWS_CLI_MAX_RETRIES || '3', 10),
+      retryDelay: parseInt(process.env.MCP_AWS_CLI_RETRY_DELAY || '1000', 10),
+      exponentialBackoff: process.env.MCP_AWS_CLI_EXPONENTIAL_BACKOFF !== 'false',
+      requestsPerSecond: parseFloat(process.env.MCP_AWS_CLI_REQUESTS_PER_SECOND || '10'),
+      confirmationTimeout: parseInt(process.env.MCP_AWS_CLI_CONFIRMATION_TTL || '120', 10),
+      productionGuardrail: process.env.MCP_AWS_CLI_PRODUCTION_GUARDRAIL === 'block' ? 'block' : 'confirm',
+      policyFile: process.env.MCP_AWS_CLI_POLICY_FILE || '',
+      strictCredentials: process.env.MCP_AWS_CLI_STRICT_CREDENTIALS === 'true',
+      maxListItems: parseInt(process.env.MCP_AWS_CLI_MAX_LIST_ITEMS || '1000', 10),
+      endpoints: parseEndpoints(process.env.MCP_AWS_CLI_ENDPOINTS),
+      s3ForcePathStyle: process.env.MCP_AWS_CLI_S3_FORCE_PATH_STYLE === 'true',
+      enabledTools: parseList(process.env.MCP_AWS_CLI_ENABLED_TOOLS),
+      readOnlyTools: parseList(process.env.MCP_AWS_CLI_READ_ONLY_TOOLS),
+      environmentTools: parseEnvironmentTools(process.env.MCP_AWS_CLI_ENVIRONMENT_TOOLS),
+      recordingMode: parseRecordingMode(process.env.MCP_AWS_CLI_RECORDING_MODE),
+      recordingDir: process.env.MCP_AWS_CLI_RECORDING_DIR || '',
     };
   }
 
@@ -72,14 +117,21 @@ export class ConfigManager {
     return this.config;
   }
 
+  /**
+   * Whether running inside the VS Code extension host
+   */
+  public isVSCode(): boolean {
+    return !!vscode;
+  }
+
   /**
    * Get retry configuration
    */
   public getRetryConfig(): RetryConfig {
     return {
       maxRetries: this.config.maxRetries,
-      retryDelay: 1000,
-      exponentialBackoff: true,
+      retryDelay: this.config.retryDelay,
+      exponentialBackoff: this.config.exponentialBackoff,
     };
   }
 
@@ -108,5 +160,53 @@ export class ConfigManager {
   }
 }
 
+/**
+ * Parse MCP_AWS_CLI_ENDPOINTS: a JSON object ({"dynamodb":"http://localhost:8000"}) or a single URL for every service
+ */
+function parseEndpoints(value?: string): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+  if (!value.trim().startsWith('{')) {
+    return { default: value.trim() };
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return { default: value }; // Rejected as an invalid endpoint, so calls fail instead of reaching real AWS
+  }
+}
+
+/**
+ * Parse a comma-separated list (MCP_AWS_CLI_ENABLED_TOOLS, MCP_AWS_CLI_READ_ONLY_TOOLS)
+ */
+function parseList(value?: string): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse MCP_AWS_CLI_ENVIRONMENT_TOOLS: {"production": {"disabledTools": [...], "readOnlyTools": [...]}}
+ */
+function parseEnvironmentTools(value?: string): Record<string, EnvironmentToolRestrictions> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Unreadable restrictions must not widen access: make every tool read-only everywhere
+    return { '*': { readOnlyTools: ['*'] } };
+  }
+}
+
+/**
+ * Parse MCP_AWS_CLI_RECORDING_MODE (off, record or replay)
+ */
+function parseRecordingMode(value?: string): AppConfig['recordingMode'] {
+  return value === 'record' || value === 'replay' ? value : 'off';
+}
+
 // Export singleton instance
 export const config = ConfigManager.getInstance();
@@ -0,0 +1,140 @@
+/**
+ * Confirmation token manager for two-phase destructive actions
+ */
+
+import { randomBytes, createHash } from 'crypto';
+import { logger } from './logger';
+import { config } from './config';
+
+/**
+ * Pending confirmation entry
+ */
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * Result of issuing a confirmation token
+ */
+export interface ConfirmationTicket {
+  token: string;
+  expiresAt: string;
+  expiresInSeconds: number;
+}
+
+/**
+ * Result of checking a confirmation token
+ */
+export interface ConfirmationCheck {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Confirmation manager
+ * Issues single-use tokens bound to the exact request they were previewed for
+ */
+export class ConfirmationManager {
+  private static instance: ConfirmationManager;
+  private pending: Map<string, PendingConfirmation>;
+
+  private constructor() {
+    this.pending = new Map();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ConfirmationManager {
+    if (!ConfirmationManager.instance) {
+      ConfirmationManager.instance = new ConfirmationManager();
+    }
+    return ConfirmationManager.instance;
+  }
+
+  /**
+   * Build a stable fingerprint for a request
+   */
+  public fingerprint(request: Record<string, unknown>): string {
+    return createHash('sha256').update(stableStringify(request)).digest('hex');
+  }
+
+  /**
+   * Issue a new token for a request fingerprint
+   */
+  public issue(fingerprint: string, ttlSeconds?: number): ConfirmationTicket {
+    this.purgeExpired();
+
+    const ttl = ttlSeconds || config.getConfig().confirmationTimeout;
+    const token = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + ttl * 1000;
+
+    this.pending.set(token, { fingerprint, expiresAt });
+    logger.debug('Confirmation token issued', { expiresInSeconds: ttl });
+
+    return {
+      token,
+      expiresAt: new Date(expiresAt).toISOString(),
+      expiresInSeconds: ttl,
+    };
+  }
+
+  /**
+   * Validate and consume a token (tokens are single-use)
+   */
+  public consume(token: string, fingerprint: string): ConfirmationCheck {
+    const entry = this.pending.get(token);
+
+    if (!entry) {
+      return { valid: false, reason: 'Confirmation token is unknown or was already used' };
+    }
+
+    this.pending.delete(token);
+
+    if (entry.expiresAt < Date.now()) {
+      return { valid: false, reason: 'Confirmation token has expired' };
+    }
+
+    if (entry.fingerprint !== fingerprint) {
+      return { valid: false, reason: 'Confirmation token was issued for a different request' };
+    }
+
+    logger.debug('Confirmation token accepted');
+    return { valid: true };
+  }
+
+  /**
+   * Drop expired tokens
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending.entries()) {
+      if (entry.expiresAt < now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+/**
+ * JSON serialization with sorted object keys
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+// Export singleton instance
+export const confirmations = ConfirmationManager.getInstance();
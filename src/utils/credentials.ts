@@ -3,38 +3,63 @@
  * Searches for credentials using multiple methods in order of priority
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { fromEnv } from '@aws-sdk/credential-provider-env';
 import { fromIni } from '@aws-sdk/credential-provider-ini';
 import { fromProcess } from '@aws-sdk/credential-provider-process';
 import { fromSSO } from '@aws-sdk/credential-provider-sso';
 import { defaultProvider } from '@aws-sdk/credential-provider-node';
 import { AwsCredentialIdentity } from '@aws-sdk/types';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CredentialProvenance, ErrorCategory } from '../models';
 import { logger } from './logger';
+import { config } from './config';
+import { ErrorHandler, ProfileCredentialsError, SSOError } from './error-handler';
+import { resolveEndpoint } from './endpoints';
 import { profileService } from '../services/profile.service';
 
 export interface CredentialsResult {
   credentials?: AwsCredentialIdentity;
   source?: string;
+  provenance?: CredentialProvenance;
   needsConfiguration?: boolean;
   message?: string;
+  category?: ErrorCategory;
 }
 
+/**
+ * Caller identity per access key (credentials of one key always belong to the same principal)
+ */
+const identities = new Map<string, { accountId?: string; arn?: string }>();
+
+/**
+ * Provenance of the credentials resolved during the current tool call
+ */
+const provenanceContext = new AsyncLocalStorage<CredentialProvenance[]>();
+
 /**
  * Attempts to find AWS credentials using multiple methods
- * Returns a friendly message for AI to handle if not found
+ * Returns a friendly message for AI to handle if not found.
+ * In strict mode a named profile only resolves from that profile (MCP profile, ~/.aws or SSO).
  */
 export async function getIntelligentCredentials(
   profileName?: string,
   region?: string
 ): Promise<CredentialsResult> {
+  if (config.getConfig().recordingMode === 'replay') {
+    return getReplayCredentials(profileName);
+  }
+
+  const strict = !!profileName && config.getConfig().strictCredentials;
+  const sharedProfile = profileName || process.env.AWS_PROFILE || 'default';
   const methods = [
-    { name: 'MCP Profile', fn: () => getFromMCPProfile(profileName) },
-    { name: 'Environment Variables', fn: fromEnv },
-    { name: 'AWS Shared Credentials (~/.aws/credentials)', fn: () => fromIni({ profile: profileName })() },
-    { name: 'AWS SSO', fn: () => fromSSO({ profile: profileName })() },
-    { name: 'Process Credentials', fn: fromProcess },
-    { name: 'AWS Default Chain', fn: () => defaultProvider()() },
-  ];
+    { name: 'MCP Profile', profile: profileName || profileService.getActiveProfileName(), fn: () => getFromMCPProfile(profileName, strict) },
+    { name: 'Environment Variables', fn: fromEnv, fallback: true },
+    { name: 'AWS Shared Credentials (~/.aws/credentials)', profile: sharedProfile, fn: () => fromIni({ profile: profileName })() },
+    { name: 'AWS SSO', profile: sharedProfile, fn: () => fromSSO({ profile: profileName })() },
+    { name: 'Process Credentials', fn: fromProcess, fallback: true },
+    { name: 'AWS Default Chain', fn: () => defaultProvider()(), fallback: true },
+  ].filter(method => !(strict && method.fallback));
 
   // Try each method in order
   for (const method of methods) {
@@ -47,45 +72,173 @@ export async function getIntelligentCredentials(
       
       if (credentials && 'accessKeyId' in credentials && credentials.accessKeyId) {
         logger.info(`✅ Credentials loaded from: ${method.name}`);
+        const provenance: CredentialProvenance = {
+          source: method.name,
+          profile: method.profile,
+          strict,
+          ...(await getCallerIdentity(credentials as AwsCredentialIdentity, region)),
+        };
+
+        // The allow-list belongs to the requested profile, whichever source its credentials came from
+        const denied = checkAllowedAccount(profileName || profileService.getActiveProfileName(), provenance);
+        if (denied) {
+          return { needsConfiguration: true, message: denied, category: 'access-denied' };
+        }
+
+        provenanceContext.getStore()?.push(provenance);
         return {
           credentials: credentials as AwsCredentialIdentity,
           source: method.name,
+          provenance,
           needsConfiguration: false,
         };
       }
     } catch (error) {
+      // A profile that cannot be resolved (MFA, SSO login) must not fall through to other credentials
+      if (error instanceof ProfileCredentialsError) {
+        return {
+          needsConfiguration: true,
+          message: error.message,
+          category: error instanceof SSOError ? 'expired-credentials' : 'missing-credentials',
+        };
+      }
       logger.debug(`${method.name} not available: ${(error as Error).message}`);
       continue;
     }
   }
 
+  if (strict) {
+    return {
+      needsConfiguration: true,
+      category: 'missing-credentials',
+      message: `Profile '${profileName}' could not be resolved. Strict credential resolution is enabled, so environment variables, credential processes and the default chain are not used for a named profile. Create the profile with aws-manage-profiles or add it to ~/.aws/config.`,
+    };
+  }
+
   // No credentials found - return helpful message for AI
   return {
     needsConfiguration: true,
+    category: 'missing-credentials',
     message: buildCredentialsGuidanceMessage(profileName, region),
   };
 }
 
+/**
+ * Error envelope for a call that could not get credentials (the guidance message is the remediation)
+ */
+export function credentialsErrorResult(result: CredentialsResult, operation?: string): CallToolResult {
+  const category = result.category || 'missing-credentials';
+  const message = (result.message || 'AWS credentials not configured.').trim();
+  // First line of the markdown guidance without emphasis, e.g. "AWS Credentials Not Found"
+  const summary = message.split('\n').map(line => line.replace(/\*\*|🔐/gu, '').trim()).find(Boolean) || message;
+
+  return ErrorHandler.toErrorResult(
+    ErrorHandler.details(CREDENTIAL_ERROR_CODES[category] || 'CredentialsNotFound', category, summary, { service: 'Credentials', operation }, message)
+  );
+}
+
+const CREDENTIAL_ERROR_CODES: Partial<Record<ErrorCategory, string>> = {
+  'access-denied': 'AccountNotAllowed',
+  'expired-credentials': 'SessionExpired',
+  'missing-credentials': 'CredentialsNotFound',
+};
+
+/**
+ * Run a tool call and collect the provenance of every credential resolution it makes
+ */
+export async function trackCredentialProvenance<T>(
+  execute: () => Promise<T>
+): Promise<{ result: T; provenance: CredentialProvenance[] }> {
+  const provenance: CredentialProvenance[] = [];
+  const result = await provenanceContext.run(provenance, execute);
+  return { result, provenance };
+}
+
 /**
  * Try to get credentials from MCP profile storage
  */
-async function getFromMCPProfile(profileName?: string): Promise<AwsCredentialIdentity | undefined> {
+async function getFromMCPProfile(profileName?: string, strict = false): Promise<AwsCredentialIdentity | undefined> {
   try {
     if (!profileService.hasProfiles()) {
       return undefined;
     }
 
-    const creds = profileService.getCredentials(profileName);
+    const creds = await profileService.resolveCredentials(profileName);
     return {
       accessKeyId: creds.accessKeyId,
       secretAccessKey: creds.secretAccessKey,
       sessionToken: creds.sessionToken,
     };
-  } catch {
+  } catch (error) {
+    if (error instanceof ProfileCredentialsError) {
+      throw error;
+    }
+    // In strict mode a stored profile that fails (e.g. locked vault) must not fall back either
+    if (strict && profileService.getProfileEnvironment(profileName)) {
+      throw new ProfileCredentialsError((error as Error).message, 'getFromMCPProfile', error as Error);
+    }
     return undefined;
   }
 }
 
+/**
+ * Account ID and ARN of the credentials (cached per access key)
+ */
+async function getCallerIdentity(
+  credentials: AwsCredentialIdentity,
+  region?: string
+): Promise<{ accountId?: string; arn?: string }> {
+  const cached = identities.get(credentials.accessKeyId);
+  if (cached) {
+    return cached;
+  }
+
+  const identity = await validateCredentials(credentials, region);
+  if (!identity.valid) {
+    logger.warn('Could not determine caller identity', { error: identity.error });
+    return {};
+  }
+
+  const result = { accountId: identity.accountId, arn: identity.arn };
+  identities.set(credentials.accessKeyId, result);
+  return result;
+}
+
+/**
+ * Placeholder credentials for replay mode: responses come from the recordings, so nothing is signed or sent
+ */
+function getReplayCredentials(profileName?: string): CredentialsResult {
+  const profile = profileName || profileService.getActiveProfileName() || 'default';
+  const provenance: CredentialProvenance = { source: 'Recorded responses (replay)', profile, strict: false };
+  provenanceContext.getStore()?.push(provenance);
+
+  return {
+    credentials: { accessKeyId: 'REPLAY', secretAccessKey: 'REPLAY' },
+    source: provenance.source,
+    provenance,
+    needsConfiguration: false,
+  };
+}
+
+/**
+ * Reason the credentials are rejected by the profile's account allow-list, if any
+ */
+function checkAllowedAccount(profileName: string | undefined, provenance: CredentialProvenance): string | undefined {
+  const allowed = profileName ? profileService.getAllowedAccountIds(profileName) : undefined;
+  if (!allowed || allowed.length === 0) {
+    return undefined;
+  }
+
+  if (!provenance.accountId) {
+    return `Profile '${profileName}' is restricted to accounts ${allowed.join(', ')}, but the account of its credentials could not be verified.`;
+  }
+  if (!allowed.includes(provenance.accountId)) {
+    logger.warn(`Credentials of profile ${profileName} belong to account ${provenance.accountId}, which is not allowed`);
+    return `Profile '${profileName}' resolved to account ${provenance.accountId} (${provenance.arn}), which is not in its allowed accounts (${allowed.join(', ')}). The call was not made.`;
+  }
+  return undefined;
+}
+
 /**
  * Build a helpful message for AI when credentials are not found
  */
@@ -154,7 +307,7 @@ export async function validateCredentials(
 ): Promise<{ valid: boolean; accountId?: string; arn?: string; error?: string }> {
   try {
     const { STSClient, GetCallerIdentityCommand } = await import('@aws-sdk/client-sts');
-    const client = new STSClient({ region: region || 'us-east-1', credentials });
+    const client = new STSClient({ region: region || 'us-east-1', credentials, endpoint: resolveEndpoint('sts').endpoint });
     
     const response = await client.send(new GetCallerIdentityCommand({}));
     
@@ -0,0 +1,64 @@
+/**
+ * Custom endpoint resolution
+ * Points SDK clients at LocalStack, DynamoDB Local or other local stand-ins, per service,
+ * from the settings (mcpAwsCli.endpoints / MCP_AWS_CLI_ENDPOINTS) and the profile of the current tool call
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { EndpointConfig } from '../models';
+import { config } from './config';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * Endpoint overrides of the profile the current tool call runs with
+ */
+const profileEndpoints = new AsyncLocalStorage<EndpointConfig>();
+
+/**
+ * Run a tool call with the endpoint overrides of its profile
+ */
+export function withEndpoints<T>(overrides: EndpointConfig | undefined, execute: () => Promise<T>): Promise<T> {
+  return profileEndpoints.run(overrides || {}, execute);
+}
+
+/**
+ * Endpoint and S3 path-style addressing for a client type (both undefined when AWS is used).
+ * Profile endpoints win over the settings; within each, a service entry wins over "default"
+ */
+export function resolveEndpoint(service: string): { endpoint?: string; forcePathStyle?: boolean } {
+  const appConfig = config.getConfig();
+  const profile = profileEndpoints.getStore() || {};
+  const endpoint = pick(profile.endpoints, service) || pick(appConfig.endpoints, service);
+  if (endpoint) {
+    validateEndpoint(service, endpoint);
+  }
+
+  const forcePathStyle = service === 's3' ? profile.forcePathStyle ?? appConfig.s3ForcePathStyle : undefined;
+  return {
+    endpoint: endpoint || undefined,
+    forcePathStyle: forcePathStyle || undefined,
+  };
+}
+
+function pick(endpoints: Record<string, string> | undefined, service: string): string | undefined {
+  return endpoints?.[service] || endpoints?.default;
+}
+
+/**
+ * Reject anything but an http(s) URL, so a typo fails the call instead of falling back to AWS
+ */
+export function validateEndpoint(service: string, endpoint: string): void {
+  let url: URL | undefined;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    url = undefined;
+  }
+
+  if (!url || !['http:', 'https:'].includes(url.protocol)) {
+    throw ErrorHandler.handleValidationError(
+      `endpoints.${service}`,
+      `Invalid endpoint for ${service}: "${endpoint}" (expected an http or https URL such as http://localhost:4566)`
+    );
+  }
+}
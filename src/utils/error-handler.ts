@@ -2,9 +2,67 @@
  * Error handling utilities and custom error classes
  */
 
-import { ErrorDetails } from '../models';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCategory, ErrorDetails } from '../models';
 import { logger } from './logger';
 
+/**
+ * AWS error codes per category (anything else is classified by HTTP status)
+ */
+const ERROR_CODES: Array<{ category: ErrorCategory; codes: RegExp }> = [
+  { category: 'expired-credentials', codes: /^(ExpiredToken(Exception)?|RequestExpired|TokenRefreshRequired|ExpiredTokenException)$/ },
+  { category: 'invalid-credentials', codes: /^(InvalidClientTokenId|UnrecognizedClientException|AuthFailure|InvalidAccessKeyId|SignatureDoesNotMatch|IncompleteSignature|InvalidSignatureException)$/ },
+  { category: 'missing-credentials', codes: /^(CredentialsProviderError|CredentialError|ProfileError|ProfileCredentialsError|AssumeRoleError)$/ },
+  { category: 'access-denied', codes: /^(AccessDenied(Exception)?|UnauthorizedOperation|Unauthorized(Exception)?|AuthorizationError|AuthorizationErrorException|Forbidden|OptInRequired)$/ },
+  { category: 'throttling', codes: /^(Throttling(Exception)?|ThrottledException|TooManyRequestsException|RequestLimitExceeded|RequestThrottled(Exception)?|SlowDown|ProvisionedThroughputExceededException|PriorRequestNotComplete|BandwidthLimitExceeded|EC2ThrottledException)$/ },
+  { category: 'not-found', codes: /(NotFound|NoSuch[A-Za-z]+|ResourceNotFoundException|DoesNotExist)/ },
+  { category: 'conflict', codes: /^(ConflictException|ResourceInUseException|ResourceConflictException|IncorrectState|InvalidDBInstanceState(Fault)?|InvalidDBClusterStateFault|IncorrectInstanceState|OperationAbortedException|TransactionConflictException)$|AlreadyExists/ },
+  { category: 'validation', codes: /^(ValidationError|ValidationException|InvalidParameter[A-Za-z]*|InvalidInput[A-Za-z]*|MissingParameter|MissingRequiredParameter|InvalidRequest(Exception)?|SerializationException|MalformedQueryException|InvalidArguments|DryRunOperation)$|^Invalid[A-Za-z]*\.Malformed$/ },
+  { category: 'service-unavailable', codes: /^(ServiceUnavailable(Exception)?|InternalError|InternalFailure|InternalServerError|InternalServerException|InternalServiceError|Unavailable)$/ },
+  { category: 'network', codes: /^(TimeoutError|RequestTimeout(Exception)?|NetworkingError|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|ETIMEDOUT)$/ },
+];
+
+/**
+ * What the caller can do about each category
+ */
+const REMEDIATIONS: Record<ErrorCategory, string> = {
+  'access-denied': 'The credentials lack permission for this call. Check the IAM policies (and SCPs) of the profile\'s user or role for the denied action, or use a profile that has access.',
+  'expired-credentials': 'The credentials or session have expired. Log in again (aws-manage-profiles sso-login, or assume for MFA role profiles) or refresh the access keys, then retry.',
+  'invalid-credentials': 'The access key or token is not valid. Check the profile with aws-manage-profiles validate and update its keys.',
+  'missing-credentials': 'No usable credentials. Create a profile with aws-manage-profiles, run "aws configure" or "aws sso login", or set AWS_PROFILE.',
+  'throttling': 'AWS is throttling requests. Wait a few seconds and retry with fewer concurrent calls or smaller pages.',
+  'not-found': 'Check the resource ID, region and profile (account): the resource may not exist or may live in another region or account.',
+  'validation': 'Fix the request parameters named in the message and retry.',
+  'conflict': 'The resource is in a state that does not allow this operation (in use, transitioning or already exists). Check its current state and retry later.',
+  'service-unavailable': 'AWS returned a server error. Retry after a short delay.',
+  'network': 'The request did not reach AWS or timed out. Check network connectivity, proxy and endpoint settings, then retry.',
+  'internal': 'Unexpected error. See the message for details.',
+};
+
+const GENERIC_CODES: Record<ErrorCategory, string> = {
+  'access-denied': 'AccessDenied',
+  'expired-credentials': 'ExpiredCredentials',
+  'invalid-credentials': 'InvalidCredentials',
+  'missing-credentials': 'CredentialsNotFound',
+  'throttling': 'Throttling',
+  'not-found': 'NotFound',
+  'validation': 'InvalidRequest',
+  'conflict': 'Conflict',
+  'service-unavailable': 'ServiceUnavailable',
+  'network': 'NetworkError',
+  'internal': 'InternalError',
+};
+
+const RETRIABLE_CATEGORIES: ErrorCategory[] = ['throttling', 'service-unavailable', 'network'];
+
+/**
+ * Where an error happened
+ */
+export interface ErrorContext {
+  service?: string;
+  operation?: string;
+}
+
 /**
  * Base error class for AWS operations
  */
@@ -61,6 +119,36 @@ export class ProfileError extends AWSServiceError {
   }
 }
 
+/**
+ * A profile exists but its credentials cannot be obtained right now (no fallback to other credential sources)
+ */
+export class ProfileCredentialsError extends ProfileError {
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message, operation, originalError);
+    this.name = 'ProfileCredentialsError';
+  }
+}
+
+/**
+ * Assume-role profile errors (missing MFA code, broken role chain)
+ */
+export class AssumeRoleError extends ProfileCredentialsError {
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message, operation, originalError);
+    this.name = 'AssumeRoleError';
+  }
+}
+
+/**
+ * SSO profile errors (login required, session expired)
+ */
+export class SSOError extends ProfileCredentialsError {
+  constructor(message: string, operation: string, originalError?: Error) {
+    super(message, operation, originalError);
+    this.name = 'SSOError';
+  }
+}
+
 /**
  * Validation errors
  */
@@ -189,16 +277,122 @@ export class ErrorHandler {
    * Check if error is retriable
    */
   public static isRetriable(error: unknown): boolean {
-    if (error && typeof error === 'object' && '$metadata' in error) {
-      const awsError = error as { name?: string; $retryable?: { throttling?: boolean } };
-      const retriableCodes = ['ThrottlingException', 'TooManyRequestsException', 'RequestTimeout'];
-      
-      return (
-        retriableCodes.includes(awsError.name || '') ||
-        awsError.$retryable?.throttling === true
-      );
+    return ErrorHandler.classify(error).retriable === true;
+  }
+
+  /**
+   * Classify any error: code, category, AWS service, request ID, HTTP status, retriable flag and a remediation hint
+   */
+  public static classify(error: unknown, context: ErrorContext = {}): ErrorDetails {
+    const details = ErrorHandler.toErrorDetails(error);
+    // AWSServiceError wraps the SDK error that carries the metadata
+    const source = error instanceof AWSServiceError && error.originalError ? error.originalError : error;
+    const aws = (source && typeof source === 'object' ? source : {}) as {
+      code?: string;
+      $metadata?: { httpStatusCode?: number; requestId?: string };
+      $retryable?: { throttling?: boolean };
+      $fault?: 'client' | 'server';
+    };
+    const code = aws.code && /^E[A-Z]+$/.test(aws.code) ? aws.code : details.code;
+    const httpStatus = aws.$metadata?.httpStatusCode;
+    const category = ErrorHandler.categorize(code, details.message, httpStatus, aws.$fault, '$metadata' in aws);
+
+    return {
+      // Plain errors thrown by the handlers get a code from their category
+      code: code === 'Error' ? GENERIC_CODES[category] : code,
+      message: details.message,
+      category,
+      service: details.service || ErrorHandler.getServiceName(source) || context.service,
+      operation: details.operation || context.operation,
+      requestId: aws.$metadata?.requestId,
+      httpStatus,
+      retriable: aws.$retryable !== undefined || RETRIABLE_CATEGORIES.includes(category),
+      remediation: REMEDIATIONS[category],
+      timestamp: details.timestamp,
+    };
+  }
+
+  /**
+   * Error envelope returned by tools: { success: false, error: { code, category, ... } }
+   */
+  public static toToolResult(error: unknown, context: ErrorContext = {}, extra: Record<string, unknown> = {}): CallToolResult {
+    return ErrorHandler.toErrorResult(ErrorHandler.classify(error, context), extra);
+  }
+
+  /**
+   * Error envelope for already classified details
+   */
+  public static toErrorResult(details: ErrorDetails, extra: Record<string, unknown> = {}): CallToolResult {
+    const { originalError: _originalError, ...envelope } = details;
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          error: envelope,
+          ...extra,
+        }, null, 2),
+      }],
+      isError: true,
+    };
+  }
+
+  /**
+   * Error details for a failure that is not an exception (e.g. missing credentials, rejected arguments)
+   */
+  public static details(code: string, category: ErrorCategory, message: string, context: ErrorContext = {}, remediation?: string): ErrorDetails {
+    return {
+      code,
+      message,
+      category,
+      service: context.service,
+      operation: context.operation,
+      retriable: RETRIABLE_CATEGORIES.includes(category),
+      remediation: remediation || REMEDIATIONS[category],
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private static categorize(
+    code: string,
+    message: string,
+    httpStatus: number | undefined,
+    fault: 'client' | 'server' | undefined,
+    fromAws: boolean
+  ): ErrorCategory {
+    const match = ERROR_CODES.find(entry => entry.codes.test(code));
+    if (match) {
+      return match.category;
     }
 
-    return false;
+    if (httpStatus === 429) return 'throttling';
+    if (httpStatus === 401) return 'invalid-credentials';
+    if (httpStatus === 403) return 'access-denied';
+    if (httpStatus === 404) return 'not-found';
+    if (httpStatus === 409) return 'conflict';
+    if (fault === 'server' || (httpStatus !== undefined && httpStatus >= 500)) return 'service-unavailable';
+    if (fromAws && (fault === 'client' || httpStatus === 400)) return 'validation';
+
+    // Errors raised by the handlers themselves
+    if (/\bnot found\b|does not exist/i.test(message)) return 'not-found';
+    if (/\b(is required|are required|required fields|unsupported|unknown operation|invalid)\b/i.test(message)) return 'validation';
+    if (/\b(timed? ?out|socket hang up|getaddrinfo)\b/i.test(message)) return 'network';
+    return 'internal';
+  }
+
+  /**
+   * AWS service from the SDK exception class hierarchy (e.g. DynamoDBServiceException -> DynamoDB)
+   */
+  private static getServiceName(error: unknown): string | undefined {
+    let prototype = error && typeof error === 'object' ? Object.getPrototypeOf(error) : undefined;
+    while (prototype && prototype !== Error.prototype) {
+      const name = prototype.constructor?.name;
+      if (typeof name === 'string' && name.endsWith('ServiceException') && name !== 'ServiceException') {
+        return name.slice(0, -'ServiceException'.length);
+      }
+      prototype = Object.getPrototypeOf(prototype);
+    }
+    return undefined;
   }
 }
@@ -6,5 +6,10 @@ export * from './logger';
 export * from './error-handler';
 export * from './cache';
 export * from './config';
+export * from './endpoints';
 export * from './profile-validator';
 export * from './credentials';
+export * from './confirmation';
+export * from './shared-config';
+export * from './pagination';
+export * from './schema-validator';
@@ -0,0 +1,101 @@
+/**
+ * Pagination helpers
+ * Opaque nextToken handling and page following for list, search and logs operations
+ */
+
+import { Page, PaginationParams } from '../models';
+import { config } from './config';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * Token payload (the AWS token plus the operation it belongs to). A page cut short at mcpAwsCli.maxListItems
+ * is fetched again with the same AWS token (none for the first page), skipping the items already returned
+ */
+interface TokenPayload {
+  scope: string;
+  token?: string;
+  skip?: number;
+}
+
+/**
+ * Fetch one page, or follow pages until the end or mcpAwsCli.maxListItems when all is set
+ * The scope (e.g. "list-resources:ec2-instances") binds tokens to the operation that issued them.
+ */
+export async function paginate<T>(
+  scope: string,
+  params: PaginationParams,
+  fetchPage: (token: string | undefined) => Promise<{ items?: T[]; nextToken?: string }>
+): Promise<Page<T>> {
+  const maxItems = config.getConfig().maxListItems;
+  const items: T[] = [];
+  let { token, skip } = decodeNextToken(scope, params.nextToken);
+  let pages = 0;
+
+  do {
+    const page = await fetchPage(token);
+    const pageItems = (page.items || []).slice(skip);
+    pages++;
+
+    if (params.all && items.length + pageItems.length > maxItems) {
+      const kept = maxItems - items.length;
+      items.push(...pageItems.slice(0, kept));
+      return { items, nextToken: encodeNextToken(scope, token, skip + kept), pages, truncated: true };
+    }
+
+    items.push(...pageItems);
+    skip = 0;
+    // Some APIs (GetLogEvents) return the request token again at the end
+    token = page.nextToken && page.nextToken !== token ? page.nextToken : undefined;
+  } while (params.all && token && items.length < maxItems);
+
+  return {
+    items,
+    nextToken: token ? encodeNextToken(scope, token) : undefined,
+    pages,
+    truncated: !!(params.all && token),
+  };
+}
+
+/**
+ * Pagination fields of a tool response
+ */
+export function pageInfo<T>(page: Page<T>): { nextToken?: string; pages?: number; truncated?: boolean } {
+  return {
+    nextToken: page.nextToken,
+    pages: page.pages > 1 ? page.pages : undefined,
+    truncated: page.truncated || undefined,
+  };
+}
+
+function encodeNextToken(scope: string, token: string | undefined, skip = 0): string {
+  const payload: TokenPayload = { scope, token, skip: skip || undefined };
+  return Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+}
+
+function decodeNextToken(scope: string, nextToken?: string): { token?: string; skip: number } {
+  if (!nextToken) {
+    return { skip: 0 };
+  }
+
+  const invalid = 'Invalid nextToken: pass the value returned by the previous call unchanged';
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(nextToken, 'base64url').toString('utf-8'));
+  } catch {
+    throw ErrorHandler.handleValidationError('nextToken', invalid);
+  }
+
+  if (typeof payload !== 'object' || payload === null) {
+    throw ErrorHandler.handleValidationError('nextToken', invalid);
+  }
+  if (payload.scope !== scope) {
+    throw ErrorHandler.handleValidationError('nextToken', `nextToken was issued for ${payload.scope}, not ${scope}`);
+  }
+
+  const skip = payload.skip ?? 0;
+  const hasToken = typeof payload.token === 'string';
+  if ((!hasToken && payload.token !== undefined) || !Number.isInteger(skip) || skip < 0 || (!hasToken && skip === 0)) {
+    throw ErrorHandler.handleValidationError('nextToken', invalid);
+  }
+  return { token: payload.token, skip };
+}
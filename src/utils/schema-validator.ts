@@ -0,0 +1,134 @@
+/**
+ * JSON Schema validator
+ * Checks tool arguments against the subset of JSON Schema the tool definitions use:
+ * type (single or list), enum, required, properties, items and additionalProperties
+ */
+
+/**
+ * One problem found in the arguments
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  allowedValues?: unknown[];
+}
+
+/**
+ * Schema node (loosely typed, as in the MCP Tool inputSchema)
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Validate a value against a schema; an empty list means the value is valid
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, field = ''): ValidationIssue[] {
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [{ field: field || '(arguments)', message: `must be ${formatTypes(schema.type)}, got ${typeOf(value)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ field, message: `must be one of the allowed values, got ${JSON.stringify(value)}`, allowedValues: schema.enum }];
+  }
+
+  if (Array.isArray(value)) {
+    return schema.items
+      ? value.flatMap((item, index) => validateSchema(schema.items, item, `${field}[${index}]`))
+      : [];
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const properties: Record<string, JsonSchema> = schema.properties || {};
+  const object = value as Record<string, unknown>;
+
+  for (const name of schema.required || []) {
+    if (object[name] === undefined || object[name] === null) {
+      issues.push({ field: join(field, name), message: 'is required' });
+    }
+  }
+
+  for (const [name, item] of Object.entries(object)) {
+    if (item === undefined) {
+      continue;
+    }
+
+    if (properties[name]) {
+      issues.push(...validateSchema(properties[name], item, join(field, name)));
+    } else if (schema.additionalProperties === false) {
+      const suggestion = closestName(name, Object.keys(properties));
+      issues.push({
+        field: join(field, name),
+        message: `is not a known argument${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+        allowedValues: Object.keys(properties),
+      });
+    } else if (typeof schema.additionalProperties === 'object') {
+      issues.push(...validateSchema(schema.additionalProperties, item, join(field, name)));
+    }
+  }
+
+  return issues;
+}
+
+function matchesType(type: string | string[], value: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(candidate => {
+    switch (candidate) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === candidate;
+    }
+  });
+}
+
+function formatTypes(type: string | string[]): string {
+  const types = Array.isArray(type) ? type : [type];
+  return types.map(candidate => `${/^[aeiou]/.test(candidate) ? 'an' : 'a'} ${candidate}`).join(' or ');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function join(parent: string, name: string): string {
+  return parent ? `${parent}.${name}` : name;
+}
+
+/**
+ * Closest known name for a misspelled one (case-insensitive, edit distance up to 2)
+ */
+function closestName(name: string, candidates: string[]): string | undefined {
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best?.name;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
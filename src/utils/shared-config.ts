@@ -0,0 +1,101 @@
+/**
+ * AWS shared config/credentials file helpers
+ * Minimal INI reader and section writer for ~/.aws/config and ~/.aws/credentials
+ */
+
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * INI sections by header (e.g. "default", "profile dev", "sso-session corp")
+ */
+export type IniSections = Record<string, Record<string, string>>;
+
+/**
+ * Location of the shared config file
+ */
+export function getSharedConfigPath(): string {
+  return process.env.AWS_CONFIG_FILE || path.join(os.homedir(), '.aws', 'config');
+}
+
+/**
+ * Location of the shared credentials file
+ */
+export function getSharedCredentialsPath(): string {
+  return process.env.AWS_SHARED_CREDENTIALS_FILE || path.join(os.homedir(), '.aws', 'credentials');
+}
+
+/**
+ * Parse an INI file (comments and nested sub-properties are ignored)
+ */
+export function parseIni(content: string): IniSections {
+  const sections: IniSections = {};
+  let current: Record<string, string> | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+
+    const header = line.match(/^\[\s*([^\]]+?)\s*\]$/);
+    if (header) {
+      current = sections[header[1]] = sections[header[1]] || {};
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (current && separator > 0 && !/^\s/.test(rawLine)) {
+      current[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Replace or append sections, leaving every other line (including comments) untouched
+ */
+export function upsertIniSections(content: string, sections: IniSections): string {
+  const lines = content ? content.split(/\r?\n/) : [];
+  const output: string[] = [];
+  const written = new Set<string>();
+  let skipping = false;
+
+  for (const line of lines) {
+    const header = line.trim().match(/^\[\s*([^\]]+?)\s*\]$/);
+    if (header) {
+      skipping = header[1] in sections;
+      if (skipping) {
+        output.push(...formatSection(header[1], sections[header[1]]), '');
+        written.add(header[1]);
+        continue;
+      }
+    }
+    if (!skipping) {
+      output.push(line);
+    }
+  }
+
+  while (output.length > 0 && output[output.length - 1].trim() === '') {
+    output.pop();
+  }
+
+  for (const [name, values] of Object.entries(sections)) {
+    if (!written.has(name)) {
+      if (output.length > 0) {
+        output.push('');
+      }
+      output.push(...formatSection(name, values));
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+function formatSection(name: string, values: Record<string, string>): string[] {
+  return [
+    `[${name}]`,
+    ...Object.entries(values).map(([key, value]) => `${key} = ${value}`),
+  ];
+}